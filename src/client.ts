@@ -3,11 +3,25 @@ import { AccountsApi } from './rest/accounts.js';
 import { InstrumentsApi } from './rest/instruments.js';
 import { OrdersApi } from './rest/orders.js';
 import { PositionsApi } from './rest/positions.js';
+import { TradesApi } from './rest/trades.js';
+import { ConversionRatesApi } from './rest/conversion-rates.js';
+import { SystemApi, negotiateFeatures } from './rest/system.js';
 import { PushClient } from './websocket/push-client.js';
+import { PushStreams } from './websocket/push-streams.js';
 import { UnifiedWebSocketStream, startUnifiedWebSocketStream } from './websocket/unified-stream.js';
 import { DXTradeStreamManager, createDXTradeStreamManager } from './websocket/dxtrade-stream-manager.js';
-import { ConfigError } from './errors/index.js';
+import { ConfigError, isNetworkError } from './errors/index.js';
+import { createLogger } from './utils/logger.js';
+import { CurrencyConverter } from './utils/currency-converter.js';
+import { OrderValidator } from './core/order-validator.js';
+import { InstrumentCatalog } from './core/instrument-catalog.js';
+import { resolveTransport } from './core/transport.js';
+import { DEFAULT_IDEMPOTENCY_TTL } from './core/idempotency-store.js';
 import type { SDKConfig } from './types/common.js';
+import type { Logger } from './utils/logger.js';
+import type { CurrencyConverterOptions } from './utils/currency-converter.js';
+import type { ApiFeature, NegotiatedFeatures, SystemStatus } from './rest/system.js';
+import type { CallOptions } from './types/common.js';
 import type { PushClientConfig } from './websocket/push-client.js';
 import type { StreamOptions, StreamCallbacks } from './websocket/unified-stream.js';
 import type { DXTradeStreamOptions, DXTradeStreamCallbacks } from './types/dxtrade-messages.js';
@@ -18,6 +32,38 @@ import { SDKConfigSchema } from './types/common.js';
  */
 export interface DXTradeClientConfig extends SDKConfig {
   enablePushAPI?: boolean;
+  /** Shut the client down gracefully on SIGINT/SIGTERM */
+  shutdownOnSignals?: boolean | ShutdownHookOptions;
+}
+
+/**
+ * Graceful shutdown options
+ */
+export interface ShutdownOptions {
+  /** Cancel working orders before logging out */
+  cancelOrders?: boolean;
+  /** Account whose orders are cancelled, defaults to all accounts */
+  accountId?: string;
+  /** End the server-side session, defaults to true */
+  logout?: boolean;
+}
+
+/**
+ * Graceful shutdown result
+ */
+export interface ShutdownResult {
+  cancelledOrders: number;
+  loggedOut: boolean;
+  closedStreams: number;
+  errors: Error[];
+}
+
+/**
+ * Process signal hook options
+ */
+export interface ShutdownHookOptions extends ShutdownOptions {
+  /** Signals to handle, defaults to SIGINT and SIGTERM */
+  signals?: NodeJS.Signals[];
 }
 
 /**
@@ -28,9 +74,19 @@ export class DXTradeClient {
   public readonly http: HttpClient;
   public readonly accounts: AccountsApi;
   public readonly instruments: InstrumentsApi;
+  public readonly catalog: InstrumentCatalog;
   public readonly orders: OrdersApi;
+  public readonly orderValidator?: OrderValidator;
   public readonly positions: PositionsApi;
+  public readonly trades: TradesApi;
+  public readonly conversionRates: ConversionRatesApi;
+  public readonly system: SystemApi;
   public readonly push?: PushClient;
+  /** Async iterators over push updates; available when the push client is */
+  public readonly stream?: PushStreams;
+  private readonly logger: Logger;
+  private readonly streams = new Set<DXTradeStreamManager | UnifiedWebSocketStream>();
+  private removeShutdownHooks?: () => void;
 
   constructor(config: DXTradeClientConfig) {
     // Validate configuration
@@ -40,11 +96,46 @@ export class DXTradeClient {
     this.config = {
       ...parsedConfig,
       baseUrl: parsedConfig.baseUrl ?? this.getDefaultBaseUrl(parsedConfig.environment),
+      session: parsedConfig.session ?? {
+        keepAlive: true,
+        refreshMargin: 60000,
+        defaultTimeout: 1800000,
+      },
       websocket: parsedConfig.websocket ?? {
         marketDataPath: '/md',
         portfolioPath: '/?format=JSON',
       },
+      logger: createLogger(parsedConfig.logger),
+      transport: resolveTransport(parsedConfig.transport),
+      idempotency: parsedConfig.idempotency ?? { ttl: DEFAULT_IDEMPOTENCY_TTL },
+      circuitBreaker: parsedConfig.circuitBreaker ?? {
+        enabled: false,
+        failureThreshold: 5,
+        recoveryTimeout: 60000,
+        successThreshold: 3,
+      },
+      adaptiveRateLimit: parsedConfig.adaptiveRateLimit ?? {
+        enabled: false,
+        minMultiplier: 0.1,
+        adjustmentInterval: 60000,
+        minSamples: 10,
+      },
+      scheduler: parsedConfig.scheduler ?? {
+        reservedCapacity: 0.2,
+        maxWait: 30000,
+        priorities: {},
+      },
+      endpointTemplates: parsedConfig.endpointTemplates ?? {},
+      orderValidation: parsedConfig.orderValidation ?? {
+        enabled: false,
+        mode: 'reject',
+      },
+      instrumentCatalog: parsedConfig.instrumentCatalog ?? {
+        ttl: 3600000,
+        aliases: {},
+      },
     };
+    this.logger = this.config.logger.child({ component: 'DXTradeClient' });
     
     // Initialize HTTP client
     this.http = new HttpClient(this.config);
@@ -52,20 +143,34 @@ export class DXTradeClient {
     // Initialize REST API modules
     this.accounts = new AccountsApi(this.http);
     this.instruments = new InstrumentsApi(this.http);
-    this.orders = new OrdersApi(this.http);
+    this.catalog = new InstrumentCatalog(this.instruments, this.config.instrumentCatalog);
+    this.orderValidator = this.config.orderValidation.enabled
+      ? new OrderValidator(this.catalog, this.config.orderValidation)
+      : undefined;
+    this.orders = new OrdersApi(this.http, this.orderValidator);
     this.positions = new PositionsApi(this.http);
+    this.trades = new TradesApi(this.http, this.orders);
+    this.conversionRates = new ConversionRatesApi(this.http);
+    this.system = new SystemApi(this.http);
     
     // Initialize WebSocket client if enabled and supported
     const features = (parsedConfig as any).features || {};
     if (config.enablePushAPI !== false && features.websocket !== false) {
       try {
         this.push = this.createPushClient(config);
+        this.push.setSymbolNormalizer(symbol => this.catalog.normalize(symbol) ?? symbol);
+        this.stream = new PushStreams(this.push);
       } catch (error) {
-        console.warn('WebSocket client initialization failed:', error);
-        this.logWebSocketTroubleshooting();
+        this.logWebSocketTroubleshooting(error);
         // Continue without WebSocket support
       }
     }
+
+    if (config.shutdownOnSignals) {
+      this.installShutdownHooks(
+        config.shutdownOnSignals === true ? {} : config.shutdownOnSignals
+      );
+    }
   }
 
   /**
@@ -75,6 +180,16 @@ export class DXTradeClient {
     // Skip clock sync for now - not all servers support /time endpoint
     // await this.http.syncClock();
     
+    // Log in up front for credentials auth so streams have a session token
+    await this.http.ensureSession();
+
+    // Negotiate features only when the broker exposes a version endpoint
+    if (this.config.urls.version) {
+      await this.negotiateFeatures().catch(error => {
+        this.logger.warn('API version negotiation failed', { error });
+      });
+    }
+    
     // Connect WebSocket if available
     if (this.push) {
       await this.push.connect();
@@ -90,6 +205,113 @@ export class DXTradeClient {
     }
   }
 
+  /**
+   * Close all streams and the push connection and end the server-side session.
+   * The client logs in again on the next request.
+   */
+  async logout(): Promise<void> {
+    await this.closeStreams();
+    this.stream?.close();
+
+    try {
+      if (this.push) {
+        await this.push.disconnect();
+      }
+    } finally {
+      await this.http.logout();
+    }
+  }
+
+  /**
+   * Gracefully shut down the client
+   *
+   * Optionally cancels working orders, closes every stream created by this
+   * client and the push connection, logs out and releases all resources.
+   * Failures in one step do not prevent the remaining steps from running.
+   */
+  async shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    const result: ShutdownResult = {
+      cancelledOrders: 0,
+      loggedOut: false,
+      closedStreams: 0,
+      errors: [],
+    };
+
+    if (options.cancelOrders) {
+      try {
+        const { cancelled, failed } = await this.orders.cancelAllOrders({
+          accountId: options.accountId,
+        });
+        result.cancelledOrders = cancelled.length;
+        failed.forEach(({ orderId, error }) => {
+          result.errors.push(new Error(`Failed to cancel order ${orderId}: ${error}`));
+        });
+      } catch (error) {
+        result.errors.push(error as Error);
+      }
+    }
+
+    result.closedStreams = await this.closeStreams(result.errors);
+    this.stream?.close();
+
+    if (this.push) {
+      try {
+        await this.push.disconnect();
+      } catch (error) {
+        result.errors.push(error as Error);
+      }
+    }
+
+    if (options.logout !== false) {
+      try {
+        await this.http.logout();
+        result.loggedOut = true;
+      } catch (error) {
+        result.errors.push(error as Error);
+      }
+    }
+
+    this.destroy();
+
+    return result;
+  }
+
+  /**
+   * Shut the client down when the process receives a termination signal.
+   * Unless the application handles the signal itself, it is re-raised after
+   * shutdown so the process exits as it would by default.
+   *
+   * @returns Function that removes the installed handlers
+   */
+  installShutdownHooks(options: ShutdownHookOptions = {}): () => void {
+    this.removeShutdownHooks?.();
+
+    const { signals = ['SIGINT', 'SIGTERM'], ...shutdownOptions } = options;
+
+    const handler = (signal: NodeJS.Signals): void => {
+      remove();
+      this.shutdown(shutdownOptions)
+        .catch(() => undefined)
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    };
+
+    const remove = (): void => {
+      signals.forEach(signal => process.off(signal, handler));
+      if (this.removeShutdownHooks === remove) {
+        this.removeShutdownHooks = undefined;
+      }
+    };
+
+    signals.forEach(signal => process.once(signal, handler));
+    this.removeShutdownHooks = remove;
+
+    return remove;
+  }
+
   /**
    * Check if client is ready for trading
    */
@@ -110,6 +332,9 @@ export class DXTradeClient {
     http: {
       rateLimitStatus: ReturnType<HttpClient['getRateLimitStatus']>;
       clockSyncStatus: ReturnType<HttpClient['getClockSyncStatus']>;
+      sessionStatus?: ReturnType<HttpClient['getSessionStatus']>;
+      resilienceStatus: ReturnType<HttpClient['getResilienceStatus']>;
+      schedulerStats: ReturnType<HttpClient['getSchedulerStats']>;
     };
     websocket?: ReturnType<PushClient['getStats']>;
     ready: boolean;
@@ -118,12 +343,56 @@ export class DXTradeClient {
       http: {
         rateLimitStatus: this.http.getRateLimitStatus(),
         clockSyncStatus: this.http.getClockSyncStatus(),
+        sessionStatus: this.http.getSessionStatus(),
+        resilienceStatus: this.http.getResilienceStatus(),
+        schedulerStats: this.http.getSchedulerStats(),
       },
       websocket: this.push?.getStats(),
       ready: this.isReady(),
     };
   }
 
+  /**
+   * Query the server's API version and record which optional features it
+   * supports. Calls to unsupported features then fail with a
+   * `FeatureNotSupportedError` before anything is sent.
+   */
+  async negotiateFeatures(callOptions?: CallOptions): Promise<NegotiatedFeatures> {
+    const version = await this.system.getVersion(callOptions);
+    const negotiated = negotiateFeatures(version);
+    this.http.setNegotiatedFeatures(negotiated);
+
+    if (!negotiated.compatible) {
+      this.logger.warn('Server API version may be incompatible', { version: version.version });
+    }
+    this.logger.info('API features negotiated', {
+      version: version.version,
+      features: [...negotiated.features],
+    });
+
+    return negotiated;
+  }
+
+  /**
+   * Check if the server supports an optional feature.
+   * All features are assumed available until negotiated.
+   */
+  supportsFeature(feature: ApiFeature): boolean {
+    return this.http.supportsFeature(feature);
+  }
+
+  /**
+   * Create a currency converter backed by the conversion rates API.
+   * Feed it live quotes with `updateQuote()` to keep rates current between refreshes.
+   */
+  createCurrencyConverter(options: CurrencyConverterOptions): CurrencyConverter {
+    return new CurrencyConverter({
+      ratesApi: this.conversionRates,
+      catalog: this.catalog,
+      ...options,
+    });
+  }
+
   /**
    * Create unified WebSocket stream for real-time data
    * 
@@ -137,7 +406,14 @@ export class DXTradeClient {
       throw new Error('Session token not available. Ensure client is authenticated first.');
     }
     
-    return new UnifiedWebSocketStream(this.config, sessionToken, options, callbacks);
+    return this.trackStream(
+      new UnifiedWebSocketStream(
+        this.config,
+        sessionToken,
+        this.normalizeStreamSymbols(options),
+        callbacks
+      )
+    );
   }
   
   /**
@@ -152,7 +428,14 @@ export class DXTradeClient {
       throw new Error('Session token not available. Ensure client is authenticated first.');
     }
     
-    return startUnifiedWebSocketStream(this.config, sessionToken, options, callbacks);
+    const started = startUnifiedWebSocketStream(
+      this.config,
+      sessionToken,
+      this.normalizeStreamSymbols(options),
+      callbacks
+    );
+    this.trackStream(started.stream);
+    return started;
   }
 
   /**
@@ -167,7 +450,14 @@ export class DXTradeClient {
       throw new Error('Session token not available. Ensure client is authenticated first.');
     }
     
-    return createDXTradeStreamManager(this.config, sessionToken, options, callbacks);
+    return this.trackStream(
+      createDXTradeStreamManager(
+        this.config,
+        sessionToken,
+        this.normalizeStreamSymbols(options),
+        callbacks
+      )
+    );
   }
 
   /**
@@ -201,6 +491,19 @@ export class DXTradeClient {
     return await streamManager.runStabilityTest(durationMs);
   }
 
+  /**
+   * Map stream symbols to the broker's spelling using the loaded instrument catalog
+   */
+  private normalizeStreamSymbols<T extends { symbols?: string[] }>(options: T): T {
+    if (!options.symbols) {
+      return options;
+    }
+    return {
+      ...options,
+      symbols: options.symbols.map(symbol => this.catalog.normalize(symbol) ?? symbol),
+    };
+  }
+
   /**
    * Update authentication token for session-based auth
    */
@@ -242,19 +545,28 @@ export class DXTradeClient {
    */
   async healthCheck(): Promise<{
     http: { healthy: boolean; latency?: number; error?: string };
+    platform?: SystemStatus;
     websocket?: { healthy: boolean; connected: boolean; authenticated: boolean; error?: string };
     overall: boolean;
   }> {
     const results = {
       http: { healthy: false, latency: undefined as number | undefined, error: undefined as string | undefined },
+      platform: undefined as SystemStatus | undefined,
       websocket: undefined as { healthy: boolean; connected: boolean; authenticated: boolean; error?: string } | undefined,
       overall: false,
     };
 
-    // Test HTTP client
+    // Test HTTP client against the platform status endpoint, or the health
+    // endpoint for brokers that do not provide one
     try {
       const start = Date.now();
-      await this.http.get('/health');
+      results.platform = await this.system.getStatus().catch(async error => {
+        if (!isNetworkError(error) || error.statusCode !== 404) {
+          throw error;
+        }
+        await this.http.get('/health');
+        return undefined;
+      });
       results.http = {
         healthy: true,
         latency: Date.now() - start,
@@ -287,8 +599,12 @@ export class DXTradeClient {
       }
     }
 
-    // Overall health
-    results.overall = results.http.healthy && (results.websocket?.healthy !== false);
+    // Overall health; a missing platform status never fails the check
+    results.overall =
+      results.http.healthy &&
+      results.platform?.status !== 'DOWN' &&
+      results.platform?.status !== 'MAINTENANCE' &&
+      results.websocket?.healthy !== false;
 
     return results;
   }
@@ -297,9 +613,55 @@ export class DXTradeClient {
    * Destroy client and cleanup resources
    */
   destroy(): void {
+    this.removeShutdownHooks?.();
+
+    this.streams.forEach(stream => {
+      if (stream instanceof DXTradeStreamManager) {
+        stream.destroy();
+      } else {
+        stream.stop().catch(() => undefined);
+      }
+    });
+    this.streams.clear();
+    this.stream?.close();
+
     if (this.push) {
       this.push.destroy();
     }
+    
+    this.http.destroy();
+  }
+
+  /**
+   * Remember a stream so it is closed on logout and shutdown
+   */
+  private trackStream<T extends DXTradeStreamManager | UnifiedWebSocketStream>(stream: T): T {
+    this.streams.add(stream);
+    return stream;
+  }
+
+  /**
+   * Close all streams created by this client
+   *
+   * @returns Number of streams closed
+   */
+  private async closeStreams(errors: Error[] = []): Promise<number> {
+    const streams = [...this.streams];
+    this.streams.clear();
+
+    const results = await Promise.allSettled(
+      streams.map(stream =>
+        stream instanceof DXTradeStreamManager ? stream.disconnect() : stream.stop()
+      )
+    );
+
+    results.forEach(settled => {
+      if (settled.status === 'rejected') {
+        errors.push(settled.reason as Error);
+      }
+    });
+
+    return streams.length;
   }
 
   /**
@@ -329,6 +691,8 @@ export class DXTradeClient {
       autoResubscribe: true,
       bufferUpdates: true,
       bufferInterval: 100,
+      conflateUpdates: this.config.websocket?.conflateUpdates ?? false,
+      maxBufferSize: 1000,
     };
 
     return new PushClient(pushConfig);
@@ -351,18 +715,22 @@ export class DXTradeClient {
     // First priority: Use explicit WebSocket URLs if available
     // For now, prefer market data WebSocket as it's more commonly used
     if (this.config.urls?.wsMarketData) {
-      console.log('Using explicit market data WebSocket URL:', this.config.urls.wsMarketData);
+      this.logger.debug('Using explicit market data WebSocket URL', {
+        url: this.config.urls.wsMarketData,
+      });
       return this.config.urls.wsMarketData;
     }
     
     if (this.config.urls?.wsPortfolio) {
-      console.log('Using explicit portfolio WebSocket URL:', this.config.urls.wsPortfolio);
+      this.logger.debug('Using explicit portfolio WebSocket URL', {
+        url: this.config.urls.wsPortfolio,
+      });
       return this.config.urls.wsPortfolio;
     }
     
     // Second priority: Legacy websocket baseUrl
     if (this.config.websocket?.baseUrl) {
-      console.log('Using legacy WebSocket base URL:', this.config.websocket.baseUrl);
+      this.logger.debug('Using legacy WebSocket base URL', { url: this.config.websocket.baseUrl });
       return this.config.websocket.baseUrl;
     }
     
@@ -374,45 +742,30 @@ export class DXTradeClient {
       .replace('/api', '/ws'); // Common pattern for DXTrade
     
     const fallbackUrl = `${wsUrl}`;
-    console.log('Using derived WebSocket URL (fallback):', fallbackUrl);
+    this.logger.debug('Using derived WebSocket URL (fallback)', { url: fallbackUrl });
     return fallbackUrl;
   }
 
   /**
    * Log WebSocket troubleshooting information
    */
-  private logWebSocketTroubleshooting(): void {
-    console.log('\n🔧 WebSocket Connection Troubleshooting:');
-    console.log('==========================================');
-    
-    const wsUrl = this.generateWebSocketUrl();
-    console.log(`Current WebSocket URL: ${wsUrl}`);
-    
-    if (this.config.urls?.wsMarketData || this.config.urls?.wsPortfolio) {
-      console.log('✅ Explicit WebSocket URLs detected:');
-      if (this.config.urls.wsMarketData) {
-        console.log(`   Market Data: ${this.config.urls.wsMarketData}`);
-      }
-      if (this.config.urls.wsPortfolio) {
-        console.log(`   Portfolio: ${this.config.urls.wsPortfolio}`);
-      }
-    } else {
-      console.log('⚠️ No explicit WebSocket URLs configured');
-      console.log('   Consider setting:');
-      console.log('   DXTRADE_WS_MARKET_DATA_URL=wss://your-broker.com/ws/md?format=JSON');
-      console.log('   DXTRADE_WS_PORTFOLIO_URL=wss://your-broker.com/ws/?format=JSON');
-    }
-    
-    console.log('\n🚨 Known Issues:');
-    console.log('• Current implementation uses single WebSocket connection');
-    console.log('• DXTrade API requires dual WebSocket connections (market data + portfolio)');
-    console.log('• WebSocket URLs may need specific format parameters');
-    console.log('• Check broker documentation for correct WebSocket endpoints');
-    console.log('\n💡 Solutions:');
-    console.log('• Set explicit WebSocket URLs in environment variables');
-    console.log('• Verify broker supports the specified WebSocket endpoints');
-    console.log('• Use dual WebSocket architecture when available');
-    console.log('• Disable WebSocket if not required: DXTRADE_FEATURE_WEBSOCKET=false\n');
+  private logWebSocketTroubleshooting(error: unknown): void {
+    const hasExplicitUrls = Boolean(this.config.urls?.wsMarketData || this.config.urls?.wsPortfolio);
+
+    this.logger.warn('WebSocket client initialization failed, continuing without push API', {
+      error,
+      url: this.generateWebSocketUrl(),
+      marketDataUrl: this.config.urls?.wsMarketData,
+      portfolioUrl: this.config.urls?.wsPortfolio,
+      hints: [
+        ...(hasExplicitUrls
+          ? []
+          : ['Set DXTRADE_WS_MARKET_DATA_URL and DXTRADE_WS_PORTFOLIO_URL explicitly']),
+        'DXTrade requires dual WebSocket connections (market data + portfolio)',
+        'Check broker documentation for correct WebSocket endpoints and format parameters',
+        'Disable WebSocket if not required: DXTRADE_FEATURE_WEBSOCKET=false',
+      ],
+    });
   }
 
   /**
@@ -486,9 +839,11 @@ export function createDemoClient(
     urls: {},
     endpoints: {
       login: '/login',
+      logout: '/logout',
       marketData: '/marketdata',
       time: '/time',
       account: '/account',
+      ping: '/ping',
       wsMarketData: '/ws/md',
       wsPortfolio: '/ws/portfolio',
     },
@@ -521,9 +876,11 @@ export function createLiveClient(
     urls: {},
     endpoints: {
       login: '/login',
+      logout: '/logout',
       marketData: '/marketdata',
       time: '/time',
       account: '/account',
+      ping: '/ping',
       wsMarketData: '/ws/md',
       wsPortfolio: '/ws/portfolio',
     },
@@ -3,7 +3,12 @@
  * Allows platform-specific configurations to be loaded from environment variables
  */
 
+import { readFileSync } from 'fs';
+import { ConsoleLogger } from '../utils/logger.js';
+import { createNodeTransport } from '../core/transport.js';
+import { FileIdempotencyStore, DEFAULT_IDEMPOTENCY_TTL } from '../core/idempotency-store.js';
 import type { SDKConfig, AuthConfig } from '../types/common.js';
+import type { LogLevel } from '../utils/logger.js';
 
 /**
  * Load SDK configuration from environment variables
@@ -61,8 +66,92 @@ export function loadConfigFromEnv(): Partial<SDKConfig> {
     autoReconnect: process.env.DXTRADE_FEATURE_AUTO_RECONNECT !== 'false',
   };
   
+  // Load session lifecycle configuration
+  if (process.env.DXTRADE_SESSION_KEEP_ALIVE || process.env.DXTRADE_SESSION_REFRESH_MARGIN || process.env.DXTRADE_SESSION_TIMEOUT) {
+    config.session = {
+      keepAlive: process.env.DXTRADE_SESSION_KEEP_ALIVE !== 'false',
+      refreshMargin: parseInt(process.env.DXTRADE_SESSION_REFRESH_MARGIN || '60000', 10),
+      defaultTimeout: parseInt(process.env.DXTRADE_SESSION_TIMEOUT || '1800000', 10),
+    };
+  }
+  
+  // Log to the console when a log level is set, otherwise stay silent
+  const logLevel = process.env.DXTRADE_LOG_LEVEL?.toLowerCase();
+  if (logLevel && ['debug', 'info', 'warn', 'error'].includes(logLevel)) {
+    config.logger = new ConsoleLogger({ level: logLevel as LogLevel });
+  }
+  
+  // Use the Node transport when a proxy, CA bundle or keep-alive setting is configured
+  const proxy = process.env.DXTRADE_PROXY_URL;
+  const caFile = process.env.DXTRADE_CA_FILE;
+  if (proxy || caFile || process.env.DXTRADE_HTTP_KEEP_ALIVE) {
+    config.transport = createNodeTransport({
+      proxy,
+      ca: caFile ? readFileSync(caFile) : undefined,
+      keepAlive: process.env.DXTRADE_HTTP_KEEP_ALIVE !== 'false',
+    });
+  }
+  
+  // Share of the rate limit kept free for order placement, cancels and closes
+  if (process.env.DXTRADE_RATE_LIMIT_RESERVED_CRITICAL || process.env.DXTRADE_RATE_LIMIT_MAX_WAIT) {
+    config.scheduler = {
+      reservedCapacity: parseFloat(process.env.DXTRADE_RATE_LIMIT_RESERVED_CRITICAL || '0.2'),
+      maxWait: parseInt(process.env.DXTRADE_RATE_LIMIT_MAX_WAIT || '30000', 10),
+      priorities: {},
+    };
+  }
+  
+  // Check orders against instrument specs before sending: 'reject' or 'round'
+  const orderValidation = process.env.DXTRADE_ORDER_VALIDATION;
+  if (orderValidation === 'reject' || orderValidation === 'round') {
+    config.orderValidation = {
+      enabled: true,
+      mode: orderValidation,
+    };
+  }
+  
+  // Instrument list cache used to normalize symbols
+  if (process.env.DXTRADE_INSTRUMENT_CATALOG_TTL || process.env.DXTRADE_SYMBOL_ALIASES) {
+    config.instrumentCatalog = {
+      ttl: parseInt(process.env.DXTRADE_INSTRUMENT_CATALOG_TTL || '3600000', 10),
+      aliases: JSON.parse(process.env.DXTRADE_SYMBOL_ALIASES || '{}') as Record<string, string>,
+    };
+  }
+  
+  // Stop calling endpoint groups that keep failing
+  if (process.env.DXTRADE_CIRCUIT_BREAKER_ENABLED) {
+    config.circuitBreaker = {
+      enabled: process.env.DXTRADE_CIRCUIT_BREAKER_ENABLED === 'true',
+      failureThreshold: parseInt(process.env.DXTRADE_CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+      recoveryTimeout: parseInt(process.env.DXTRADE_CIRCUIT_BREAKER_RECOVERY || '60000', 10),
+      successThreshold: 3,
+    };
+  }
+  
+  if (process.env.DXTRADE_ADAPTIVE_RATE_LIMIT_ENABLED) {
+    config.adaptiveRateLimit = {
+      enabled: process.env.DXTRADE_ADAPTIVE_RATE_LIMIT_ENABLED === 'true',
+      minMultiplier: parseFloat(process.env.DXTRADE_ADAPTIVE_RATE_LIMIT_MIN || '0.1'),
+      adjustmentInterval: 60000,
+      minSamples: 10,
+    };
+  }
+  
+  // Persist idempotency keys on disk so retries stay safe across restarts
+  if (process.env.DXTRADE_IDEMPOTENCY_DIR || process.env.DXTRADE_IDEMPOTENCY_TTL) {
+    const ttl = process.env.DXTRADE_IDEMPOTENCY_TTL
+      ? parseInt(process.env.DXTRADE_IDEMPOTENCY_TTL, 10)
+      : DEFAULT_IDEMPOTENCY_TTL;
+    config.idempotency = {
+      ttl,
+      store: process.env.DXTRADE_IDEMPOTENCY_DIR
+        ? new FileIdempotencyStore({ directory: process.env.DXTRADE_IDEMPOTENCY_DIR, ttl })
+        : undefined,
+    };
+  }
+  
   // Load WebSocket configuration
-  if (process.env.DXTRADE_WS_PING_INTERVAL || process.env.DXTRADE_WS_RECONNECT_ATTEMPTS || process.env.DXTRADE_WS_RECONNECT_DELAY) {
+  if (process.env.DXTRADE_WS_PING_INTERVAL || process.env.DXTRADE_WS_RECONNECT_ATTEMPTS || process.env.DXTRADE_WS_RECONNECT_DELAY || process.env.DXTRADE_WS_CONFLATE_UPDATES) {
     config.websocket = {
       marketDataPath: '/md',
       portfolioPath: '/?format=JSON',
@@ -70,6 +159,7 @@ export function loadConfigFromEnv(): Partial<SDKConfig> {
       pingInterval: process.env.DXTRADE_WS_PING_INTERVAL ? parseInt(process.env.DXTRADE_WS_PING_INTERVAL, 10) * 1000 : undefined, // Convert to milliseconds
       reconnectAttempts: process.env.DXTRADE_WS_RECONNECT_ATTEMPTS ? parseInt(process.env.DXTRADE_WS_RECONNECT_ATTEMPTS, 10) : undefined,
       reconnectDelay: process.env.DXTRADE_WS_RECONNECT_DELAY ? parseFloat(process.env.DXTRADE_WS_RECONNECT_DELAY) * 1000 : undefined, // Convert to milliseconds
+      conflateUpdates: process.env.DXTRADE_WS_CONFLATE_UPDATES ? process.env.DXTRADE_WS_CONFLATE_UPDATES === 'true' : undefined,
     };
   }
 
@@ -119,13 +209,20 @@ export function loadConfigFromEnv(): Partial<SDKConfig> {
   // Legacy endpoint configuration (fallback)
   config.endpoints = {
     login: process.env.DXTRADE_ENDPOINT_LOGIN || '/login',
+    logout: process.env.DXTRADE_ENDPOINT_LOGOUT || '/logout',
     marketData: process.env.DXTRADE_ENDPOINT_MARKET_DATA || '/marketdata',
     time: process.env.DXTRADE_ENDPOINT_TIME || '/time',
     account: process.env.DXTRADE_ENDPOINT_ACCOUNT || '/account',
+    ping: process.env.DXTRADE_ENDPOINT_PING || '/ping',
     wsMarketData: process.env.DXTRADE_ENDPOINT_WS_MARKET_DATA || '/md',
     wsPortfolio: process.env.DXTRADE_ENDPOINT_WS_PORTFOLIO || '/?format=JSON',
   };
 
+  // Per-endpoint path templates as JSON, e.g. {"orders.cancelOrder":"/v2/orders/{orderId}/cancel"}
+  if (process.env.DXTRADE_ENDPOINT_TEMPLATES) {
+    config.endpointTemplates = JSON.parse(process.env.DXTRADE_ENDPOINT_TEMPLATES) as Record<string, string>;
+  }
+
   // Legacy WebSocket configuration (fallback)
   if (process.env.DXTRADE_WS_URL || process.env.DXTRADE_WS_MARKET_DATA_PATH || process.env.DXTRADE_WS_PORTFOLIO_PATH) {
     config.websocket = {
@@ -233,11 +330,15 @@ function getEndpointPath(endpoint: keyof SDKConfig['urls'], endpoints: SDKConfig
   switch (endpoint) {
     case 'login':
       return endpoints.login;
+    case 'logout':
+      return endpoints.logout;
     case 'accounts':
     case 'account':
       return endpoints.account;
     case 'time':
       return endpoints.time;
+    case 'refreshToken':
+      return endpoints.ping;
     case 'marketData':
       return endpoints.marketData;
     case 'wsMarketData':
@@ -245,8 +346,6 @@ function getEndpointPath(endpoint: keyof SDKConfig['urls'], endpoints: SDKConfig
     case 'wsPortfolio':
       return endpoints.wsPortfolio;
     // New endpoints don't have legacy equivalents
-    case 'logout':
-    case 'refreshToken':
     case 'quotes':
     case 'candles':
     case 'instruments':
@@ -0,0 +1,185 @@
+import { ConfigError } from '../errors/index.js';
+import type { SDKConfig } from '../types/common.js';
+
+/**
+ * Resource roots that endpoint paths are resolved against.
+ * Keys match `SDKConfig.urls`, so an explicit URL replaces the whole root.
+ */
+const RESOURCE_ROOTS = {
+  login: '/login',
+  logout: '/logout',
+  refreshToken: '/ping',
+  time: '/time',
+  status: '/status',
+  version: '/version',
+  accounts: '/accounts',
+  balance: '/accounts/{accountId}/balance',
+  metrics: '/accounts/{accountId}/statistics',
+  history: '/accounts/history',
+  portfolio: '[/accounts/{accountId}]/portfolio',
+  orders: '[/accounts/{accountId}]/orders',
+  positions: '[/accounts/{accountId}]/positions',
+  trades: '[/accounts/{accountId}]/trades',
+  instruments: '/instruments',
+  quotes: '/quotes',
+  conversionRates: '/conversionRates',
+  candles: '/instruments/{symbol}/history',
+} as const;
+
+type EndpointResource = keyof typeof RESOURCE_ROOTS;
+
+/**
+ * Endpoint registry: API method name to resource root and path below it.
+ *
+ * Templates use `{param}` placeholders; a `[...]` segment is only included
+ * when all of its placeholders have values, e.g. the account prefix of
+ * order endpoints.
+ */
+export const ENDPOINTS = {
+  'auth.login': ['login', ''],
+  'auth.logout': ['logout', ''],
+  'auth.ping': ['refreshToken', ''],
+  'system.getServerTime': ['time', ''],
+  'system.getStatus': ['status', ''],
+  'system.getVersion': ['version', ''],
+
+  'accounts.getAccounts': ['accounts', ''],
+  'accounts.getInfo': ['accounts', ''],
+  'accounts.getAccount': ['accounts', '/{accountId}'],
+  'accounts.getAccountBalance': ['balance', ''],
+  'accounts.getAccountSummary': ['accounts', '/{accountId}/summary'],
+  'accounts.getAccountHistory': ['history', ''],
+  'accounts.getEquityCurve': ['accounts', '/{accountId}/equity-curve'],
+  'accounts.getAccountStatistics': ['metrics', ''],
+  'accounts.calculateMarginRequirement': ['accounts', '/{accountId}/margin-requirement'],
+
+  'instruments.getInstruments': ['instruments', ''],
+  'instruments.getInstrument': ['instruments', '/{symbol}'],
+  'instruments.getInstrumentSpec': ['instruments', '/{symbol}/specification'],
+  'instruments.getQuote': ['instruments', '/{symbol}/quote'],
+  'instruments.getQuotes': ['quotes', ''],
+  'instruments.getMarketHours': ['instruments', '/{symbol}/market-hours'],
+  'instruments.getHistoricalData': ['candles', ''],
+  'instruments.getPriceStatistics': ['instruments', '/{symbol}/statistics'],
+  'instruments.searchInstruments': ['instruments', '/search'],
+  'instruments.isMarketOpen': ['instruments', '/{symbol}/market-status'],
+  'instruments.getTicks': ['instruments', '/{symbol}/ticks'],
+
+  'orders.placeOrder': ['orders', ''],
+  'orders.placeOcoOrder': ['orders', '/oco'],
+  'orders.placeBracketOrder': ['orders', '/bracket'],
+  'orders.getOrder': ['orders', '/{orderId}'],
+  'orders.getOrders': ['orders', ''],
+  'orders.modifyOrder': ['orders', '/{orderId}'],
+  'orders.cancelOrder': ['orders', '/{orderId}/cancel'],
+  'orders.cancelOrders': ['orders', '/cancel-multiple'],
+  'orders.cancelAllOrders': ['orders', '/cancel-all'],
+  'orders.getOrderExecutions': ['orders', '/{orderId}/executions'],
+  'orders.estimateOrder': ['orders', '/estimate'],
+
+  'positions.getPositions': ['positions', ''],
+  'positions.getPosition': ['positions', '/{positionId}'],
+  'positions.modifyPosition': ['positions', '/{positionId}'],
+  'positions.closePosition': ['positions', '/{positionId}/close'],
+  'positions.closePositions': ['positions', '/close-multiple'],
+  'positions.closeAllPositions': ['positions', '/close-all'],
+  'positions.getPositionStatistics': ['positions', '/{positionId}/statistics'],
+  'positions.getPositionRisk': ['positions', '/{positionId}/risk'],
+  'positions.getPortfolioSummary': ['portfolio', '/summary'],
+  'positions.getNetPosition': ['positions', '/{symbol}/net'],
+  'positions.calculatePositionSize': ['positions', '/{symbol}/calculate-size'],
+
+  'trades.getTrades': ['trades', ''],
+  'trades.getTrade': ['trades', '/{tradeId}'],
+
+  'conversionRates.getConversionRates': ['conversionRates', ''],
+} as const satisfies Record<string, readonly [EndpointResource, string]>;
+
+/**
+ * Endpoint name, e.g. `orders.cancelOrder`
+ */
+export type EndpointName = keyof typeof ENDPOINTS;
+
+/**
+ * Path parameters substituted into endpoint templates
+ */
+export type EndpointParams = Record<string, string | number | undefined>;
+
+/**
+ * Check if a string is a registered endpoint name
+ */
+export function isEndpointName(name: string): name is EndpointName {
+  return Object.prototype.hasOwnProperty.call(ENDPOINTS, name);
+}
+
+/**
+ * Resolves endpoint names to request paths or URLs
+ *
+ * Precedence, highest first: a per-endpoint template from
+ * `endpointTemplates`, an explicit URL for the endpoint's resource from
+ * `urls`, the legacy `endpoints` paths (login, logout, ping and time), and
+ * the built-in DXtrade layout.
+ */
+export class EndpointRouter {
+  private readonly templates = new Map<EndpointName, string>();
+
+  constructor(config: Pick<SDKConfig, 'urls' | 'endpoints' | 'endpointTemplates'>) {
+    const roots: Record<EndpointResource, string> = { ...RESOURCE_ROOTS };
+
+    if (config.endpoints) {
+      roots.login = config.endpoints.login;
+      roots.logout = config.endpoints.logout;
+      roots.refreshToken = config.endpoints.ping;
+      roots.time = config.endpoints.time;
+    }
+
+    for (const resource of Object.keys(roots) as EndpointResource[]) {
+      const url = config.urls?.[resource];
+      if (url) {
+        roots[resource] = url.replace(/\/$/, '');
+      }
+    }
+
+    for (const [name, [resource, path]] of Object.entries(ENDPOINTS)) {
+      this.templates.set(name as EndpointName, roots[resource] + path);
+    }
+
+    for (const [name, template] of Object.entries(config.endpointTemplates ?? {})) {
+      if (!isEndpointName(name)) {
+        throw new ConfigError(`Unknown endpoint in endpointTemplates: ${name}`, { endpoint: name });
+      }
+      this.templates.set(name, template);
+    }
+  }
+
+  /**
+   * Get the template an endpoint resolves through
+   */
+  getTemplate(name: EndpointName): string {
+    return this.templates.get(name) as string;
+  }
+
+  /**
+   * Resolve an endpoint to a path relative to `baseUrl`, or an absolute URL
+   *
+   * @throws ConfigError if a required path parameter is missing
+   */
+  resolve(name: EndpointName, params: EndpointParams = {}): string {
+    const hasValue = (key: string): boolean => params[key] !== undefined && params[key] !== '';
+
+    return this.getTemplate(name)
+      .replace(/\[([^\]]*)\]/g, (_segment, inner: string) => {
+        const keys = [...inner.matchAll(/\{(\w+)\}/g)].map(match => match[1] as string);
+        return keys.every(hasValue) ? inner : '';
+      })
+      .replace(/\{(\w+)\}/g, (_placeholder, key: string) => {
+        if (!hasValue(key)) {
+          throw new ConfigError(`Endpoint ${name} requires path parameter ${key}`, {
+            endpoint: name,
+            parameter: key,
+          });
+        }
+        return encodeURIComponent(String(params[key]));
+      });
+  }
+}
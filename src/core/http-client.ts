@@ -1,18 +1,49 @@
 import { createHmac } from 'crypto';
 import {
+  DXError,
   NetworkError,
   TimeoutError,
   AuthError,
   ValidationError,
   ErrorFactory,
+  FeatureNotSupportedError,
+  isAuthError,
   isRetryableError,
 } from '../errors/index.js';
-import { RateLimiter } from '../utils/rate-limiter.js';
+import { AdaptiveRateLimiter, RateLimiter } from '../utils/rate-limiter.js';
 import { ExponentialBackoff, retryWithBackoff } from '../utils/backoff.js';
 import { ClockSynchronizer, TimestampGenerator } from '../utils/clock-sync.js';
+import { createLogger } from '../utils/logger.js';
+import { resolveTransport } from './transport.js';
+import { DEFAULT_IDEMPOTENCY_TTL, MemoryIdempotencyStore } from './idempotency-store.js';
+import type { IdempotencyStore } from './idempotency-store.js';
+import type { Transport } from './transport.js';
+import { ResilienceManager } from './resilience.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { EndpointRouter } from './endpoints.js';
+import type { EndpointName, EndpointParams } from './endpoints.js';
+import {
+  MiddlewareChain,
+  createAuthMiddleware,
+  createClockSyncMiddleware,
+  createRateLimitMiddleware,
+} from './middleware.js';
+import type {
+  AfterResponseHook,
+  BeforeRequestHook,
+  ErrorHook,
+  Middleware,
+  MiddlewareContext,
+  MiddlewarePosition,
+} from './middleware.js';
+import type { Logger } from '../utils/logger.js';
+import { SessionManager, parseSessionTimeout } from './session-manager.js';
+import type { SessionLoginResult } from './session-manager.js';
+import type { ApiFeature, NegotiatedFeatures } from '../rest/system.js';
 import type {
   SDKConfig,
   RequestConfig,
+  RequestOptions,
   AuthConfig,
   HTTPMethod,
   ApiResponse,
@@ -26,10 +57,22 @@ export class HttpClient {
   private readonly rateLimiter: RateLimiter;
   private readonly clockSync: ClockSynchronizer;
   private readonly timestampGenerator: TimestampGenerator;
+  private readonly session?: SessionManager;
+  private readonly logger: Logger;
+  private readonly middleware: MiddlewareChain;
+  private readonly transport: Transport;
+  /** Transport objects passed in by the caller may be shared and are left open */
+  private readonly ownsTransport: boolean;
   private sessionToken?: string;
-  private readonly idempotencyKeys = new Set<string>();
+  private readonly idempotencyStore: IdempotencyStore;
+  private readonly resilience: ResilienceManager;
+  private readonly scheduler: RequestScheduler;
+  private readonly router: EndpointRouter;
+  private negotiated?: NegotiatedFeatures;
 
   constructor(config: SDKConfig) {
+    this.transport = resolveTransport(config.transport);
+    this.ownsTransport = typeof config.transport !== 'object';
     this.config = {
       ...config,
       baseUrl: config.baseUrl ?? this.getDefaultBaseUrl(config.environment),
@@ -43,30 +86,118 @@ export class HttpClient {
       },
       endpoints: {
         login: config.endpoints?.login ?? '/login',
+        logout: config.endpoints?.logout ?? '/logout',
         marketData: config.endpoints?.marketData ?? '/marketdata',
         time: config.endpoints?.time ?? '/time',
         account: config.endpoints?.account ?? '/account',
+        ping: config.endpoints?.ping ?? '/ping',
         wsMarketData: config.endpoints?.wsMarketData ?? '/ws/md',
         wsPortfolio: config.endpoints?.wsPortfolio ?? '/ws/portfolio',
       },
+      session: {
+        keepAlive: config.session?.keepAlive ?? true,
+        refreshMargin: config.session?.refreshMargin ?? 60000,
+        defaultTimeout: config.session?.defaultTimeout ?? 1800000,
+      },
       websocket: config.websocket ?? {
         marketDataPath: '/md',
         portfolioPath: '/?format=JSON',
       },
+      logger: createLogger(config.logger),
+      transport: this.transport,
+      idempotency: {
+        store: config.idempotency?.store,
+        ttl: config.idempotency?.ttl ?? DEFAULT_IDEMPOTENCY_TTL,
+      },
+      circuitBreaker: {
+        enabled: config.circuitBreaker?.enabled ?? false,
+        failureThreshold: config.circuitBreaker?.failureThreshold ?? 5,
+        recoveryTimeout: config.circuitBreaker?.recoveryTimeout ?? 60000,
+        successThreshold: config.circuitBreaker?.successThreshold ?? 3,
+      },
+      adaptiveRateLimit: {
+        enabled: config.adaptiveRateLimit?.enabled ?? false,
+        minMultiplier: config.adaptiveRateLimit?.minMultiplier ?? 0.1,
+        adjustmentInterval: config.adaptiveRateLimit?.adjustmentInterval ?? 60000,
+        minSamples: config.adaptiveRateLimit?.minSamples ?? 10,
+      },
+      scheduler: {
+        reservedCapacity: config.scheduler?.reservedCapacity ?? 0.2,
+        maxWait: config.scheduler?.maxWait ?? 30000,
+        priorities: config.scheduler?.priorities ?? {},
+      },
+      endpointTemplates: config.endpointTemplates ?? {},
+      orderValidation: {
+        enabled: config.orderValidation?.enabled ?? false,
+        mode: config.orderValidation?.mode ?? 'reject',
+      },
+      instrumentCatalog: {
+        ttl: config.instrumentCatalog?.ttl ?? 3600000,
+        aliases: config.instrumentCatalog?.aliases ?? {},
+      },
     };
-    
-    console.log('HttpClient initialized with baseUrl:', this.config.baseUrl);
 
-    this.rateLimiter = new RateLimiter(
-      this.config.rateLimit.requests,
-      this.config.rateLimit.window
-    );
+    this.logger = this.config.logger.child({ component: 'HttpClient' });
+    this.idempotencyStore =
+      this.config.idempotency.store ??
+      new MemoryIdempotencyStore({ ttl: this.config.idempotency.ttl });
+    this.router = new EndpointRouter(this.config);
+    this.logger.debug('HttpClient initialized', { baseUrl: this.config.baseUrl });
+
+    const { rateLimit, circuitBreaker, adaptiveRateLimit } = this.config;
+    const adaptiveLimiter = adaptiveRateLimit.enabled
+      ? new AdaptiveRateLimiter(rateLimit.requests, rateLimit.window, {
+          ...adaptiveRateLimit,
+          onAdjust: (multiplier, previous) => {
+            this.logger.warn('Adaptive rate limit adjusted', { multiplier, previous });
+            this.resilience.emit('rateMultiplierChange', multiplier, previous);
+          },
+        })
+      : undefined;
+    this.rateLimiter = adaptiveLimiter ?? new RateLimiter(rateLimit.requests, rateLimit.window);
+    this.scheduler = new RequestScheduler(this.rateLimiter, this.config.scheduler);
+
+    this.resilience = new ResilienceManager({
+      circuitBreaker: circuitBreaker.enabled ? circuitBreaker : undefined,
+      rateLimiter: adaptiveLimiter,
+    });
+    this.resilience.on('circuitOpen', (group, retryAfter) => {
+      this.logger.warn('Circuit breaker opened', { group, retryAfter });
+    });
+    this.resilience.on('circuitClose', group => {
+      this.logger.info('Circuit breaker closed', { group });
+    });
 
-    this.clockSync = new ClockSynchronizer();
+    this.clockSync = new ClockSynchronizer({}, this.logger);
     this.timestampGenerator = new TimestampGenerator(this.clockSync);
 
-    // Initialize authentication
-    this.initializeAuth();
+    // Credentials auth logs in lazily before the first request
+    const auth = this.config.auth;
+    if (auth.type === 'credentials') {
+      this.session = new SessionManager({
+        login: () => this.loginWithCredentials(auth),
+        ping: token => this.pingSession(token),
+        ...this.config.session,
+      });
+    }
+
+    this.middleware = new MiddlewareChain();
+    this.middleware.use(this.resilience.createMiddleware());
+    this.middleware.use(createRateLimitMiddleware(this.rateLimiter, this.scheduler));
+    this.middleware.use(
+      createClockSyncMiddleware({
+        enabled: this.config.features.clockSync,
+        clockSync: this.clockSync,
+        timestampGenerator: this.timestampGenerator,
+        sync: () => this.syncClock(),
+      })
+    );
+    this.middleware.use(
+      createAuthMiddleware({
+        session: this.session,
+        applyAuth: (headers, request) => this.addAuthHeaders(headers, request),
+      })
+    );
   }
 
   /**
@@ -75,114 +206,126 @@ export class HttpClient {
   async request<T>(config: RequestConfig): Promise<ApiResponse<T>> {
     // Validate configuration
     this.validateRequestConfig(config);
+    config = { ...config, priority: config.priority ?? this.scheduler.getPriority(config.operation) };
 
-    // Check rate limiting
-    await this.rateLimiter.consume();
-
-    // Sync clock if enabled and needed
-    if (this.config.features.clockSync && this.clockSync.needsSync()) {
-      await this.syncClock();
+    if (config.signal?.aborted) {
+      throw config.signal.reason;
     }
 
-    // Handle idempotency
+    // Handle idempotency; generated keys are unique and need no bookkeeping
     const idempotencyKey = config.idempotencyKey ?? this.generateIdempotencyKey();
-    if (this.idempotencyKeys.has(idempotencyKey)) {
+    if (config.idempotencyKey && !(await this.idempotencyStore.reserve(idempotencyKey))) {
       throw new ValidationError('Duplicate idempotency key', [], 'idempotencyKey');
     }
 
-    const backoff = new ExponentialBackoff({
-      maxAttempts: config.retries ?? this.config.retries,
-    });
+    const state: Record<string, unknown> = {};
 
-    return retryWithBackoff(
-      () => this.makeRequest<T>(config, idempotencyKey),
-      {
-        backoff,
-        shouldRetry: (error, attempt) => {
-          if (!isRetryableError(error) || attempt >= (config.retries ?? this.config.retries)) {
-            return false;
-          }
-
-          // Don't retry POST/PUT/PATCH requests unless explicitly configured
-          const isIdempotent = ['GET', 'HEAD', 'OPTIONS'].includes(config.method ?? 'GET');
-          return isIdempotent || Boolean(config.idempotencyKey);
-        },
-        onRetry: (error, attempt, delay) => {
-          console.warn(
-            `Request retry ${attempt} after ${delay}ms delay:`,
-            error instanceof Error ? error.message : String(error)
-          );
-        },
+    try {
+      return await this.requestWithSessionReplay<T>(config, idempotencyKey, state);
+    } catch (error) {
+      // Nothing reached the server, so the key may be used again
+      if (config.idempotencyKey && !state.sent) {
+        await this.idempotencyStore.delete(idempotencyKey);
       }
-    );
+      throw error;
+    }
+  }
+
+  /**
+   * Add a middleware to the request pipeline, either as a middleware object
+   * with an optional position or as `use(beforeRequest, afterResponse, onError)`.
+   *
+   * Middlewares are appended after the built-in `resilience`, `rateLimit`,
+   * `clockSync` and `auth` middlewares unless a position is given.
+   *
+   * @returns Function that removes the middleware
+   */
+  use(
+    middlewareOrHook?: Middleware | BeforeRequestHook,
+    afterResponseOrPosition?: AfterResponseHook | MiddlewarePosition,
+    onError?: ErrorHook
+  ): () => void {
+    if (typeof middlewareOrHook === 'object') {
+      return this.middleware.use(
+        middlewareOrHook,
+        afterResponseOrPosition as MiddlewarePosition | undefined
+      );
+    }
+
+    return this.middleware.use({
+      beforeRequest: middlewareOrHook,
+      afterResponse: afterResponseOrPosition as AfterResponseHook | undefined,
+      onError,
+    });
+  }
+
+  /**
+   * Get the request middleware chain
+   */
+  getMiddleware(): MiddlewareChain {
+    return this.middleware;
   }
 
   /**
    * GET request
    */
-  async get<T>(url: string, params?: Record<string, unknown>): Promise<ApiResponse<T>> {
+  async get<T>(
+    url: string,
+    params?: Record<string, unknown>,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T>> {
     return this.request<T>({
       method: 'GET',
       url,
       params,
+      ...options,
     });
   }
 
   /**
    * POST request
    */
-  async post<T>(
-    url: string,
-    data?: unknown,
-    options?: { idempotencyKey?: string }
-  ): Promise<ApiResponse<T>> {
+  async post<T>(url: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>({
       method: 'POST',
       url,
       data,
-      idempotencyKey: options?.idempotencyKey,
+      ...options,
     });
   }
 
   /**
    * PUT request
    */
-  async put<T>(
-    url: string,
-    data?: unknown,
-    options?: { idempotencyKey?: string }
-  ): Promise<ApiResponse<T>> {
+  async put<T>(url: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>({
       method: 'PUT',
       url,
       data,
-      idempotencyKey: options?.idempotencyKey,
+      ...options,
     });
   }
 
   /**
    * DELETE request
    */
-  async delete<T>(url: string): Promise<ApiResponse<T>> {
+  async delete<T>(url: string, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>({
       method: 'DELETE',
       url,
+      ...options,
     });
   }
 
   /**
    * PATCH request
    */
-  async patch<T>(
-    url: string,
-    data?: unknown,
-    options?: { idempotencyKey?: string }
-  ): Promise<ApiResponse<T>> {
+  async patch<T>(url: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>({
       method: 'PATCH',
       url,
       data,
-      idempotencyKey: options?.idempotencyKey,
+      ...options,
     });
   }
 
@@ -200,6 +343,59 @@ export class HttpClient {
     return this.rateLimiter.getStatus();
   }
 
+  /**
+   * Get circuit breaker and adaptive rate limit manager, to observe its events
+   */
+  getResilience(): ResilienceManager {
+    return this.resilience;
+  }
+
+  /**
+   * Get circuit breaker states and adaptive rate multiplier
+   */
+  getResilienceStatus(): ReturnType<ResilienceManager['getStatus']> {
+    return this.resilience.getStatus();
+  }
+
+  /**
+   * Resolve a registered endpoint to a request path or URL,
+   * honoring explicit URLs and endpoint template overrides
+   */
+  resolveEndpoint(name: EndpointName, params?: EndpointParams): string {
+    return this.router.resolve(name, params);
+  }
+
+  /**
+   * Record the features negotiated with the server
+   */
+  setNegotiatedFeatures(negotiated: NegotiatedFeatures): void {
+    this.negotiated = negotiated;
+  }
+
+  /**
+   * Check if the server supports an optional feature.
+   * All features are assumed available until negotiated.
+   */
+  supportsFeature(feature: ApiFeature): boolean {
+    return this.negotiated?.features.has(feature) ?? true;
+  }
+
+  /**
+   * @throws FeatureNotSupportedError if negotiation found the feature unsupported
+   */
+  requireFeature(feature: ApiFeature): void {
+    if (!this.supportsFeature(feature)) {
+      throw new FeatureNotSupportedError(feature, this.negotiated?.version);
+    }
+  }
+
+  /**
+   * Get number of requests waiting for rate limit capacity, per priority
+   */
+  getSchedulerStats(): ReturnType<RequestScheduler['getStats']> {
+    return this.scheduler.getStats();
+  }
+
   /**
    * Get clock synchronization status
    */
@@ -212,7 +408,8 @@ export class HttpClient {
    */
   async syncClock(): Promise<void> {
     await this.clockSync.sync(async () => {
-      const response = await this.makeRawRequest(this.config.endpoints.time, 'GET');
+      const url = this.resolveEndpoint('system.getServerTime');
+      const response = await this.makeRawRequest(url, 'GET');
       const data = (await response.json()) as { timestamp: number };
       return data.timestamp;
     });
@@ -222,13 +419,18 @@ export class HttpClient {
    * Update session token
    */
   setSessionToken(token: string): void {
-    this.sessionToken = token;
+    if (this.session) {
+      this.session.setToken(token);
+    } else {
+      this.sessionToken = token;
+    }
   }
 
   /**
    * Clear session token
    */
   clearSessionToken(): void {
+    this.session?.invalidate();
     this.sessionToken = undefined;
   }
   
@@ -236,16 +438,153 @@ export class HttpClient {
    * Get current session token
    */
   getSessionToken(): string | undefined {
+    return this.session?.getToken() ?? this.sessionToken;
+  }
+
+  /**
+   * Log in with credentials if there is no valid session yet.
+   * Resolves immediately for other authentication types.
+   */
+  async ensureSession(): Promise<string | undefined> {
+    if (this.session) {
+      return this.session.ensureSession();
+    }
+
     return this.sessionToken;
   }
 
   /**
-   * Make the actual HTTP request
+   * Get session manager for credentials auth, to observe session events
+   */
+  getSessionManager(): SessionManager | undefined {
+    return this.session;
+  }
+
+  /**
+   * Get session lifecycle status
+   */
+  getSessionStatus(): ReturnType<SessionManager['getStatus']> | undefined {
+    return this.session?.getStatus();
+  }
+
+  /**
+   * End the current session on the server and clear it locally.
+   * The local session is cleared even if the logout request fails.
+   */
+  async logout(): Promise<void> {
+    const sessionToken = this.getSessionToken();
+
+    try {
+      if (sessionToken) {
+        const logoutUrl = this.resolveEndpoint('auth.logout');
+        const headers: Record<string, string> = {};
+        await this.addAuthHeaders(headers, { method: 'POST', url: logoutUrl });
+
+        await this.makeRawRequest(logoutUrl, 'POST', undefined, headers);
+      }
+    } finally {
+      this.clearSessionToken();
+    }
+  }
+
+  /**
+   * Destroy client and cleanup resources
+   */
+  destroy(): void {
+    this.scheduler.clear();
+    this.session?.destroy();
+    if (this.ownsTransport) {
+      this.transport.destroy?.();
+    }
+  }
+
+  /**
+   * Send request, logging in again and replaying once if the session was rejected
+   */
+  private async requestWithSessionReplay<T>(
+    config: RequestConfig,
+    idempotencyKey: string,
+    state: Record<string, unknown>
+  ): Promise<ApiResponse<T>> {
+    try {
+      return await this.requestWithRetry<T>(config, idempotencyKey, state);
+    } catch (error) {
+      if (!this.session || !isAuthError(error) || config.signal?.aborted) {
+        throw error;
+      }
+
+      // Session expired or was revoked server-side: log in again and replay once
+      await this.session.refresh(state.sessionToken as string | undefined);
+      return this.requestWithRetry<T>(config, idempotencyKey, state);
+    }
+  }
+
+  /**
+   * Send request with retry logic
    */
-  private async makeRequest<T>(
+  private async requestWithRetry<T>(
     config: RequestConfig,
-    idempotencyKey: string
+    idempotencyKey: string,
+    state: Record<string, unknown>
   ): Promise<ApiResponse<T>> {
+    const backoff = new ExponentialBackoff({
+      maxAttempts: config.retries ?? this.config.retries,
+    });
+    let attempt = 0;
+
+    return retryWithBackoff(
+      () =>
+        this.runMiddleware<T>({
+          request: { ...config },
+          headers: this.buildHeaders(config, idempotencyKey),
+          idempotencyKey,
+          attempt: ++attempt,
+          state,
+        }),
+      {
+        backoff,
+        signal: config.signal,
+        shouldRetry: (error, attempt) => {
+          if (!isRetryableError(error) || attempt >= (config.retries ?? this.config.retries)) {
+            return false;
+          }
+
+          // Don't retry POST/PUT/PATCH requests unless explicitly configured
+          const isIdempotent = ['GET', 'HEAD', 'OPTIONS'].includes(config.method ?? 'GET');
+          return isIdempotent || Boolean(config.idempotencyKey);
+        },
+        onRetry: (error, attempt, delay) => {
+          this.logger.warn('Retrying request', {
+            method: config.method,
+            url: config.url,
+            attempt,
+            delay,
+            error,
+          });
+        },
+      }
+    );
+  }
+
+  /**
+   * Send one attempt through the middleware chain
+   */
+  private async runMiddleware<T>(context: MiddlewareContext): Promise<ApiResponse<T>> {
+    try {
+      await this.middleware.runBeforeRequest(context);
+      const response = await this.makeRequest<T>(context);
+      return await this.middleware.runAfterResponse(response, context);
+    } catch (error) {
+      return this.middleware.runOnError<T>(error as Error, context);
+    }
+  }
+
+  /**
+   * Make the actual HTTP request
+   */
+  private async makeRequest<T>(context: MiddlewareContext): Promise<ApiResponse<T>> {
+    const { request: config, headers } = context;
+
     // Ensure the path is appended correctly to baseUrl
     const fullUrl = config.url.startsWith('http') 
       ? config.url 
@@ -261,12 +600,12 @@ export class HttpClient {
       });
     }
 
-    const headers = await this.buildHeaders(config, idempotencyKey);
-    
+    const timeout = config.timeout ?? this.config.timeout;
+    const abort = this.createAttemptSignal(timeout, config.signal);
     const requestConfig: RequestInit = {
       method: config.method ?? 'GET',
       headers,
-      signal: AbortSignal.timeout(config.timeout ?? this.config.timeout),
+      signal: abort.signal,
     };
 
     // Add body for non-GET requests
@@ -275,20 +614,30 @@ export class HttpClient {
     }
 
     try {
-      const response = await fetch(url.toString(), requestConfig);
-      
-      // Update rate limiter from headers
-      this.rateLimiter.updateFromHeaders(this.headersToRecord(response.headers));
+      context.state.sent = true;
+      const response = await this.transport.request(url.toString(), requestConfig);
       
-      // Mark idempotency key as used
-      this.idempotencyKeys.add(idempotencyKey);
+      context.response = {
+        status: response.status,
+        headers: this.headersToRecord(response.headers),
+      };
       
       return await this.handleResponse<T>(response);
     } catch (error) {
+      // Errors mapped from the response are already typed
+      if (error instanceof DXError) {
+        throw error;
+      }
+
+      // Cancelled by the caller: surface the abort reason, never retried
+      if (config.signal?.aborted) {
+        throw config.signal.reason;
+      }
+
       if (error instanceof Error && error.name === 'TimeoutError') {
         throw new TimeoutError(
           'Request timeout',
-          config.timeout ?? this.config.timeout,
+          timeout,
           { operation: `${config.method ?? 'GET'} ${config.url}` }
         );
       }
@@ -297,23 +646,52 @@ export class HttpClient {
         cause: error as Error,
         details: { url: url.toString(), method: config.method },
       });
+    } finally {
+      abort.cleanup();
     }
   }
 
+  /**
+   * Create the abort signal for one attempt, firing on the attempt timeout
+   * or when the caller's signal aborts
+   */
+  private createAttemptSignal(
+    timeout: number,
+    signal?: AbortSignal
+  ): { signal: AbortSignal; cleanup: () => void } {
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(signal?.reason);
+    const timer = setTimeout(
+      () => controller.abort(new DOMException('The operation timed out', 'TimeoutError')),
+      timeout
+    );
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    return {
+      signal: controller.signal,
+      cleanup: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
   /**
    * Make raw HTTP request without SDK features
    */
   private async makeRawRequest(
     path: string,
     method: HTTPMethod = 'GET',
-    body?: unknown
+    body?: unknown,
+    extraHeaders: Record<string, string> = {}
   ): Promise<Response> {
     // Ensure the path is appended correctly to baseUrl
     const fullUrl = path.startsWith('http') 
       ? path 
       : `${this.config.baseUrl}${path.startsWith('/') ? path : '/' + path}`;
     
-    console.log(`Making request to: ${fullUrl}`);
+    this.logger.debug('Sending request', { method, url: fullUrl });
     
     const options: RequestInit = {
       method,
@@ -322,20 +700,25 @@ export class HttpClient {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
         'User-Agent': 'TradingDashboard/1.0',
+        ...extraHeaders,
       },
     };
     
     if (body) {
       options.body = JSON.stringify(body);
-      console.log('Request body:', options.body);
     }
     
-    const response = await fetch(fullUrl, options);
-    console.log(`Response status: ${response.status}`);
+    const response = await this.transport.request(fullUrl, options);
+    this.logger.debug('Received response', { method, url: fullUrl, status: response.status });
 
     if (!response.ok) {
       const text = await response.text();
-      console.log('Error response:', text.substring(0, 500));
+      this.logger.warn('Request failed', {
+        method,
+        url: fullUrl,
+        status: response.status,
+        body: text.substring(0, 500),
+      });
       throw new NetworkError(`HTTP ${response.status}: ${response.statusText}`, {
         statusCode: response.status,
       });
@@ -388,27 +771,14 @@ export class HttpClient {
   /**
    * Build request headers
    */
-  private async buildHeaders(
-    config: RequestConfig,
-    idempotencyKey: string
-  ): Promise<Record<string, string>> {
-    const headers: Record<string, string> = {
+  private buildHeaders(config: RequestConfig, idempotencyKey: string): Record<string, string> {
+    return {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       'User-Agent': 'DXtrade-SDK/1.0.0',
       'X-Idempotency-Key': idempotencyKey,
       ...config.headers,
     };
-
-    // Add authentication headers
-    await this.addAuthHeaders(headers, config);
-
-    // Add timestamp if clock sync is enabled
-    if (this.clockSync.getStatus().enabled) {
-      headers['X-Timestamp'] = this.timestampGenerator.generate().toString();
-    }
-
-    return headers;
   }
 
   /**
@@ -437,14 +807,16 @@ export class HttpClient {
         await this.addHmacAuthHeaders(headers, config, auth);
         break;
 
-      case 'credentials':
+      case 'credentials': {
         // After login, use sessionToken for all requests
-        if (this.sessionToken) {
-          headers['X-Auth-Token'] = this.sessionToken;
-          headers['Authorization'] = `DXAPI ${this.sessionToken}`;
+        const sessionToken = this.getSessionToken();
+        if (sessionToken) {
+          headers['X-Auth-Token'] = sessionToken;
+          headers['Authorization'] = `DXAPI ${sessionToken}`;
         }
         // Don't throw error if no session token - might be logging in
         break;
+      }
     }
   }
 
@@ -479,21 +851,12 @@ export class HttpClient {
     headers['X-Signature'] = signature;
   }
 
-  /**
-   * Initialize authentication
-   */
-  private async initializeAuth(): Promise<void> {
-    if (this.config.auth.type === 'credentials') {
-      await this.loginWithCredentials(this.config.auth);
-    }
-  }
-
   /**
    * Login with username/password credentials
    */
   private async loginWithCredentials(
     auth: Extract<AuthConfig, { type: 'credentials' }>
-  ): Promise<void> {
+  ): Promise<SessionLoginResult> {
     const loginData = {
       username: auth.username,
       password: auth.password,
@@ -501,14 +864,13 @@ export class HttpClient {
     };
 
     try {
-      // Use explicit login URL if available, otherwise fall back to endpoint path
-      const loginUrl = this.config.urls?.login || this.config.endpoints.login;
-      console.log(`Request body: ${JSON.stringify(loginData)}`);
-      
+      const loginUrl = this.resolveEndpoint('auth.login');
+      this.logger.debug('Logging in', { username: auth.username, domain: loginData.domain });
+
       const response = await this.makeRawRequest(loginUrl, 'POST', loginData);
       const data = (await response.json()) as { 
         sessionToken: string;
-        timeout?: number;
+        timeout?: number | string;
         accounts?: unknown[];
         expiresIn?: number;
       };
@@ -517,8 +879,12 @@ export class HttpClient {
         throw new Error('No sessionToken in login response');
       }
       
-      this.sessionToken = data.sessionToken;
-      console.log('Login successful, session token received:', this.sessionToken.substring(0, 20) + '...');
+      this.logger.info('Logged in', { username: auth.username });
+
+      return {
+        token: data.sessionToken,
+        timeout: parseSessionTimeout(data.timeout) ?? parseSessionTimeout(data.expiresIn),
+      };
     } catch (error) {
       throw new AuthError('Failed to authenticate with credentials', {
         cause: error as Error,
@@ -526,6 +892,26 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Extend the current session, returning the new session lifetime if reported
+   */
+  private async pingSession(token: string): Promise<number | undefined> {
+    const pingUrl = this.resolveEndpoint('auth.ping');
+
+    const response = await this.makeRawRequest(pingUrl, 'POST', undefined, {
+      'Authorization': `DXAPI ${token}`,
+      'X-Auth-Token': token,
+    });
+
+    // Ping responses may have an empty body
+    const data = (await response.json().catch(() => ({}))) as {
+      timeout?: number | string;
+      expiresIn?: number;
+    };
+
+    return parseSessionTimeout(data.timeout) ?? parseSessionTimeout(data.expiresIn);
+  }
+
   /**
    * Get default base URL for environment
    */
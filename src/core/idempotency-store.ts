@@ -0,0 +1,334 @@
+import { createHash, randomUUID } from 'crypto';
+import { link, mkdir, readFile, readdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Storage for idempotency keys that have already been sent
+ */
+export interface IdempotencyStore {
+  /**
+   * Record a key before its request is sent.
+   * Resolves `false` if the key is already recorded and has not expired.
+   */
+  reserve(key: string): Promise<boolean>;
+  /** Check if a key is recorded and has not expired */
+  has(key: string): Promise<boolean>;
+  /** Forget a key, e.g. when its request never reached the server */
+  delete(key: string): Promise<void>;
+  /** Forget all keys */
+  clear(): Promise<void>;
+}
+
+/**
+ * Default time-to-live for idempotency keys (24 hours)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Check if a value implements the IdempotencyStore interface
+ */
+export function isIdempotencyStore(value: unknown): value is IdempotencyStore {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return ['reserve', 'has', 'delete', 'clear'].every(
+    method => typeof candidate[method] === 'function'
+  );
+}
+
+/**
+ * In-memory idempotency store options
+ */
+export interface MemoryIdempotencyStoreOptions {
+  /** Key lifetime in milliseconds */
+  ttl?: number;
+  /** Maximum number of keys kept; least recently used keys are evicted first */
+  maxSize?: number;
+}
+
+/**
+ * In-memory LRU idempotency store with TTL eviction
+ *
+ * Keys are lost when the process exits; use FileIdempotencyStore when
+ * retries must be safe across restarts.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly ttl: number;
+  private readonly maxSize: number;
+  // Map preserves insertion order, oldest first
+  private readonly keys = new Map<string, number>();
+
+  constructor(options: MemoryIdempotencyStoreOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_IDEMPOTENCY_TTL;
+    this.maxSize = options.maxSize ?? 10000;
+  }
+
+  async reserve(key: string): Promise<boolean> {
+    if (this.isActive(key)) {
+      return false;
+    }
+
+    this.keys.set(key, Date.now() + this.ttl);
+    this.evict();
+    return true;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.isActive(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.keys.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.keys.clear();
+  }
+
+  /**
+   * Get number of stored keys
+   */
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Check key and mark it as recently used
+   */
+  private isActive(key: string): boolean {
+    const expiresAt = this.keys.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+
+    this.keys.delete(key);
+    if (expiresAt <= Date.now()) {
+      return false;
+    }
+
+    this.keys.set(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * Drop expired keys and keys beyond the size limit
+   */
+  private evict(): void {
+    const now = Date.now();
+
+    for (const [key, expiresAt] of this.keys) {
+      if (this.keys.size <= this.maxSize && expiresAt > now) {
+        break;
+      }
+      this.keys.delete(key);
+    }
+  }
+}
+
+/**
+ * File-backed idempotency store options
+ */
+export interface FileIdempotencyStoreOptions {
+  /** Directory holding one file per key */
+  directory: string;
+  /** Key lifetime in milliseconds */
+  ttl?: number;
+  /** How often expired keys are removed from disk, in milliseconds */
+  pruneInterval?: number;
+}
+
+/**
+ * File-backed idempotency store
+ *
+ * Each key is stored as its own file, written to a temporary file first and
+ * then linked into place, so several processes sharing the directory never
+ * reserve the same key twice and keys survive restarts.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly directory: string;
+  private readonly ttl: number;
+  private readonly pruneInterval: number;
+  private ready?: Promise<void>;
+  private lastPrune = 0;
+
+  constructor(options: FileIdempotencyStoreOptions) {
+    this.directory = options.directory;
+    this.ttl = options.ttl ?? DEFAULT_IDEMPOTENCY_TTL;
+    this.pruneInterval = options.pruneInterval ?? 60 * 60 * 1000;
+  }
+
+  async reserve(key: string): Promise<boolean> {
+    await this.ensureDirectory();
+    await this.pruneIfDue();
+
+    const path = this.pathFor(key);
+
+    if (await this.createExclusive(path)) {
+      return true;
+    }
+
+    // Take over an expired reservation; a concurrent winner makes this fail
+    if ((await this.readExpiry(path)) <= Date.now() && (await this.removeExpired(path))) {
+      return this.createExclusive(path);
+    }
+
+    return false;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.readExpiry(this.pathFor(key))) > Date.now();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(this.pathFor(key));
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all((await this.listFiles()).map(file => this.remove(file)));
+  }
+
+  /**
+   * Remove expired keys from disk
+   */
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const file of await this.listFiles()) {
+      if ((await this.readExpiry(file)) <= now && (await this.removeExpired(file))) {
+        removed++;
+      }
+    }
+
+    this.lastPrune = now;
+    return removed;
+  }
+
+  /**
+   * Create the store directory once
+   */
+  private ensureDirectory(): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+
+  /**
+   * Prune expired keys when the prune interval has elapsed
+   */
+  private async pruneIfDue(): Promise<void> {
+    if (Date.now() - this.lastPrune >= this.pruneInterval) {
+      await this.prune();
+    }
+  }
+
+  /**
+   * Create key file, failing if it already exists. The expiry is written
+   * before the file appears, so other processes never see it empty.
+   */
+  private async createExclusive(path: string): Promise<boolean> {
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temporary, String(Date.now() + this.ttl), { flag: 'wx' });
+
+    try {
+      await link(temporary, path);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await this.remove(temporary);
+    }
+  }
+
+  /**
+   * Remove a key file found expired. The file is renamed aside first, so a
+   * reservation created since the expiry was read is put back rather than
+   * deleted. Resolves whether the key is free.
+   */
+  private async removeExpired(path: string): Promise<boolean> {
+    const tombstone = `${path}.${randomUUID()}.tmp`;
+    try {
+      await rename(path, tombstone);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+
+    try {
+      if ((await this.readExpiry(tombstone)) <= Date.now()) {
+        return true;
+      }
+      await link(tombstone, path).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      });
+      return false;
+    } finally {
+      await this.remove(tombstone);
+    }
+  }
+
+  /**
+   * Read key expiry, treating missing files as expired. Files without a
+   * valid expiry count as active for one TTL from their last change.
+   */
+  private async readExpiry(path: string): Promise<number> {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      content = '';
+    }
+
+    const expiresAt = content.trim() === '' ? NaN : Number(content);
+    if (Number.isFinite(expiresAt)) {
+      return expiresAt;
+    }
+
+    try {
+      return (await stat(path)).mtimeMs + this.ttl;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Delete a key file if present
+   */
+  private async remove(path: string): Promise<void> {
+    await unlink(path).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * List key files
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files.filter(file => file.endsWith('.key')).map(file => join(this.directory, file));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Map a key to a safe file name
+   */
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.key`);
+  }
+}
@@ -0,0 +1,327 @@
+import { MarketDataError } from '../errors/index.js';
+import type { CallOptions } from '../types/common.js';
+import type { Instrument, InstrumentType } from '../types/trading.js';
+import type { InstrumentSpec, InstrumentsApi } from '../rest/instruments.js';
+import { TradingCalendar } from '../utils/trading-calendar.js';
+
+/**
+ * Instrument catalog options
+ */
+export interface InstrumentCatalogOptions {
+  /** How long the instrument list, specs and calendars are cached, in milliseconds */
+  ttl?: number;
+  /** Extra names for symbols, e.g. `{ GOLD: 'XAUUSD' }` */
+  aliases?: Record<string, string>;
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+  refreshing?: boolean;
+}
+
+/**
+ * Lookup key for user input: upper case without separators, so `eur/usd`,
+ * `EUR.USD` and `EURUSD` share a key
+ */
+export function symbolKey(input: string): string {
+  return input.replace(/[/._\-\s]/g, '').toUpperCase();
+}
+
+/**
+ * Cached, indexed view of the broker's instruments
+ *
+ * Loads every instrument once and resolves symbols given as `eurusd`,
+ * `EUR/USD`, an alias or the broker's own spelling to the canonical symbol.
+ * After the TTL, the list, specs and calendars are refreshed in the
+ * background while the cached values keep being served, so callers such as
+ * order placement only wait for data that was never loaded. Shared by order
+ * validation, quote subscriptions and currency conversion so all of them
+ * agree on symbol names.
+ */
+export class InstrumentCatalog {
+  private readonly ttl: number;
+  private readonly aliases = new Map<string, string>();
+  private instruments = new Map<string, Instrument>();
+  private keys = new Map<string, string>();
+  private readonly specs = new Map<string, CacheEntry<InstrumentSpec>>();
+  private readonly calendars = new Map<string, CacheEntry<TradingCalendar>>();
+  private loadedAt?: number;
+  private loading?: Promise<void>;
+
+  constructor(
+    private readonly api: Pick<
+      InstrumentsApi,
+      'iterateInstruments' | 'getInstrumentSpec' | 'getMarketHours'
+    >,
+    options: InstrumentCatalogOptions = {}
+  ) {
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+    Object.entries(options.aliases ?? {}).forEach(([alias, symbol]) =>
+      this.addAlias(alias, symbol)
+    );
+  }
+
+  /**
+   * Check if the instrument list has been loaded
+   */
+  isLoaded(): boolean {
+    return this.loadedAt !== undefined;
+  }
+
+  /**
+   * Load all instruments, replacing the current list once loading succeeds.
+   * Concurrent calls share one request.
+   */
+  load(callOptions?: CallOptions): Promise<void> {
+    this.loading ??= this.fetchAll(callOptions).finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Load instruments if they were never loaded. Once the TTL has passed they
+   * are reloaded in the background and the current list stays in use.
+   */
+  async ensureLoaded(callOptions?: CallOptions): Promise<void> {
+    if (this.loadedAt === undefined) {
+      await this.load(callOptions);
+    } else if (Date.now() - this.loadedAt >= this.ttl) {
+      // A failed refresh keeps the current list and is retried on the next call
+      this.load().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Register an alias for a symbol
+   */
+  addAlias(alias: string, symbol: string): void {
+    this.aliases.set(symbolKey(alias), symbol);
+  }
+
+  /**
+   * Get the canonical symbol for user input, or undefined if unknown.
+   * Uses the instruments loaded so far and never fetches.
+   */
+  normalize(input: string): string | undefined {
+    if (this.instruments.has(input)) {
+      return input;
+    }
+
+    const key = symbolKey(input);
+    const alias = this.aliases.get(key);
+    if (alias !== undefined) {
+      return this.instruments.has(alias) ? alias : this.keys.get(symbolKey(alias));
+    }
+    return this.keys.get(key);
+  }
+
+  /**
+   * Get the canonical symbol for user input, loading instruments if needed
+   *
+   * @throws MarketDataError if no instrument matches
+   */
+  async resolve(input: string, callOptions?: CallOptions): Promise<string> {
+    await this.ensureLoaded(callOptions);
+
+    let symbol = this.normalize(input);
+    if (symbol === undefined && this.loading) {
+      // The instrument may have been listed since the last load
+      await this.loading.catch(() => undefined);
+      symbol = this.normalize(input);
+    }
+    if (symbol === undefined) {
+      throw new MarketDataError(`Unknown instrument: ${input}`, { symbol: input });
+    }
+    return symbol;
+  }
+
+  /**
+   * Get a loaded instrument by any accepted spelling of its symbol
+   */
+  get(input: string): Instrument | undefined {
+    const symbol = this.normalize(input);
+    return symbol === undefined ? undefined : this.instruments.get(symbol);
+  }
+
+  /**
+   * Get an instrument, loading instruments if needed
+   *
+   * @throws MarketDataError if no instrument matches
+   */
+  async getInstrument(input: string, callOptions?: CallOptions): Promise<Instrument> {
+    const symbol = await this.resolve(input, callOptions);
+    return this.instruments.get(symbol) as Instrument;
+  }
+
+  /**
+   * Get the trading specification of an instrument, cached for the TTL
+   *
+   * @throws MarketDataError if no instrument matches
+   */
+  async getInstrumentSpec(input: string, callOptions?: CallOptions): Promise<InstrumentSpec> {
+    const symbol = await this.resolve(input, callOptions);
+    return this.cached(this.specs, symbol, () => this.api.getInstrumentSpec(symbol, callOptions));
+  }
+
+  /**
+   * Cache a known spec, e.g. one received with an order
+   */
+  setInstrumentSpec(spec: InstrumentSpec): void {
+    this.specs.set(spec.symbol, {
+      value: Promise.resolve(spec),
+      expiresAt: Date.now() + this.ttl,
+    });
+  }
+
+  /**
+   * Drop cached specs, for one symbol or all
+   */
+  clearInstrumentSpecs(input?: string): void {
+    if (input === undefined) {
+      this.specs.clear();
+    } else {
+      this.specs.delete(this.normalize(input) ?? input);
+    }
+  }
+
+  /**
+   * Get a local trading calendar built from an instrument's market hours,
+   * cached for the TTL
+   *
+   * @throws MarketDataError if no instrument matches
+   */
+  async getTradingCalendar(input: string, callOptions?: CallOptions): Promise<TradingCalendar> {
+    const symbol = await this.resolve(input, callOptions);
+    return this.cached(this.calendars, symbol, async () => {
+      return new TradingCalendar(await this.api.getMarketHours(symbol, callOptions));
+    });
+  }
+
+  /**
+   * Get all loaded instruments
+   */
+  list(): Instrument[] {
+    return [...this.instruments.values()];
+  }
+
+  /**
+   * Get loaded instruments of a type
+   */
+  findByType(type: InstrumentType): Instrument[] {
+    return this.list().filter(instrument => instrument.type === type);
+  }
+
+  /**
+   * Get loaded instruments that have an asset as base or quote, or either
+   */
+  findByAsset(asset: string, role?: 'base' | 'quote'): Instrument[] {
+    const wanted = asset.toUpperCase();
+    return this.list().filter(
+      ({ baseAsset, quoteAsset }) =>
+        (role !== 'quote' && baseAsset.toUpperCase() === wanted) ||
+        (role !== 'base' && quoteAsset.toUpperCase() === wanted)
+    );
+  }
+
+  /**
+   * Get the loaded instrument quoting `baseAsset` in `quoteAsset`
+   */
+  findPair(baseAsset: string, quoteAsset: string): Instrument | undefined {
+    return this.findByAsset(baseAsset, 'base').find(
+      instrument => instrument.quoteAsset.toUpperCase() === quoteAsset.toUpperCase()
+    );
+  }
+
+  /**
+   * Drop loaded instruments, cached specs and calendars; aliases are kept
+   */
+  clear(): void {
+    this.instruments = new Map();
+    this.keys = new Map();
+    this.specs.clear();
+    this.calendars.clear();
+    this.loadedAt = undefined;
+  }
+
+  /**
+   * Get a cached value, fetching it if missing. Expired values are returned
+   * while a fresh one is fetched in the background.
+   */
+  private cached<T>(
+    cache: Map<string, CacheEntry<T>>,
+    symbol: string,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    const entry = cache.get(symbol);
+    if (entry) {
+      if (entry.expiresAt <= Date.now() && !entry.refreshing) {
+        this.refresh(cache, symbol, entry, fetch);
+      }
+      return entry.value;
+    }
+
+    const value = fetch();
+    const created: CacheEntry<T> = { value, expiresAt: Date.now() + this.ttl };
+    cache.set(symbol, created);
+    // Don't cache failures, but keep an entry that has replaced this one since
+    value.catch(() => {
+      if (cache.get(symbol) === created) {
+        cache.delete(symbol);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Replace an expired entry once its fresh value has loaded; on failure the
+   * expired value is kept and the next lookup tries again
+   */
+  private refresh<T>(
+    cache: Map<string, CacheEntry<T>>,
+    symbol: string,
+    entry: CacheEntry<T>,
+    fetch: () => Promise<T>
+  ): void {
+    entry.refreshing = true;
+    fetch().then(
+      value => {
+        if (cache.get(symbol) === entry) {
+          cache.set(symbol, { value: Promise.resolve(value), expiresAt: Date.now() + this.ttl });
+        }
+      },
+      () => {
+        entry.refreshing = false;
+      }
+    );
+  }
+
+  /**
+   * Fetch every instrument page and rebuild the indexes
+   */
+  private async fetchAll(callOptions?: CallOptions): Promise<void> {
+    const instruments = new Map<string, Instrument>();
+    for await (const instrument of this.api.iterateInstruments({ limit: 1000 }, {}, callOptions)) {
+      instruments.set(instrument.symbol, instrument);
+    }
+
+    const keys = new Map<string, string>();
+    for (const symbol of instruments.keys()) {
+      if (!keys.has(symbolKey(symbol))) {
+        keys.set(symbolKey(symbol), symbol);
+      }
+    }
+    // Base and quote asset spell the pair when the broker decorates its symbols
+    for (const { symbol, baseAsset, quoteAsset } of instruments.values()) {
+      const key = symbolKey(baseAsset + quoteAsset);
+      if (!keys.has(key)) {
+        keys.set(key, symbol);
+      }
+    }
+
+    this.instruments = instruments;
+    this.keys = keys;
+    this.loadedAt = Date.now();
+  }
+}
@@ -0,0 +1,244 @@
+import { ConfigError } from '../errors/index.js';
+import type { ApiResponse, RequestConfig } from '../types/common.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { RequestScheduler } from './request-scheduler.js';
+import type { ClockSynchronizer, TimestampGenerator } from '../utils/clock-sync.js';
+import type { SessionManager } from './session-manager.js';
+
+/**
+ * Per-attempt request context passed through the middleware chain
+ */
+export interface MiddlewareContext {
+  /** Request being sent; middlewares may change url, params, data or method */
+  request: RequestConfig;
+  /** Outgoing headers */
+  headers: Record<string, string>;
+  idempotencyKey: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** State shared between middlewares for all attempts of one request */
+  state: Record<string, unknown>;
+  /** Raw response metadata, set once a response has been received */
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+  };
+}
+
+/**
+ * Runs before the request is sent
+ */
+export type BeforeRequestHook = (context: MiddlewareContext) => void | Promise<void>;
+
+/**
+ * Runs after a successful response; may return a replacement response
+ */
+export type AfterResponseHook = (
+  response: ApiResponse<unknown>,
+  context: MiddlewareContext
+) => ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+
+/**
+ * Runs when the request fails; may return a response to recover or throw a different error
+ */
+export type ErrorHook = (
+  error: Error,
+  context: MiddlewareContext
+) => ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+
+/**
+ * HTTP client middleware
+ */
+export interface Middleware {
+  /** Name used to position other middlewares relative to this one */
+  name?: string;
+  beforeRequest?: BeforeRequestHook;
+  afterResponse?: AfterResponseHook;
+  onError?: ErrorHook;
+}
+
+/**
+ * Where to insert a middleware, relative to a named middleware
+ */
+export interface MiddlewarePosition {
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Ordered middleware chain
+ *
+ * `beforeRequest` hooks run in insertion order, `afterResponse` and
+ * `onError` hooks run in reverse order so each middleware wraps the ones
+ * added after it.
+ */
+export class MiddlewareChain {
+  private readonly middlewares: Middleware[] = [];
+
+  /**
+   * Add a middleware, appending it unless a position is given
+   *
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware, position: MiddlewarePosition = {}): () => void {
+    const anchor = position.before ?? position.after;
+
+    if (anchor === undefined) {
+      this.middlewares.push(middleware);
+    } else {
+      const index = this.middlewares.findIndex(existing => existing.name === anchor);
+      if (index === -1) {
+        throw new ConfigError(`Unknown middleware: ${anchor}`, { middleware: anchor });
+      }
+      this.middlewares.splice(position.before !== undefined ? index : index + 1, 0, middleware);
+    }
+
+    return () => this.remove(middleware);
+  }
+
+  /**
+   * Remove a middleware by reference or name
+   */
+  remove(middleware: Middleware | string): boolean {
+    const index = this.middlewares.findIndex(existing =>
+      typeof middleware === 'string' ? existing.name === middleware : existing === middleware
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.middlewares.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get middleware names in execution order
+   */
+  getNames(): string[] {
+    return this.middlewares.map((middleware, index) => middleware.name ?? `anonymous#${index}`);
+  }
+
+  /**
+   * Run all beforeRequest hooks
+   */
+  async runBeforeRequest(context: MiddlewareContext): Promise<void> {
+    for (const middleware of [...this.middlewares]) {
+      await middleware.beforeRequest?.(context);
+    }
+  }
+
+  /**
+   * Run all afterResponse hooks
+   */
+  async runAfterResponse<T>(
+    response: ApiResponse<T>,
+    context: MiddlewareContext
+  ): Promise<ApiResponse<T>> {
+    let result = response as ApiResponse<unknown>;
+
+    for (const middleware of [...this.middlewares].reverse()) {
+      result = (await middleware.afterResponse?.(result, context)) ?? result;
+    }
+
+    return result as ApiResponse<T>;
+  }
+
+  /**
+   * Run onError hooks until one recovers; rethrows the final error otherwise
+   */
+  async runOnError<T>(error: Error, context: MiddlewareContext): Promise<ApiResponse<T>> {
+    let current = error;
+
+    for (const middleware of [...this.middlewares].reverse()) {
+      if (!middleware.onError) {
+        continue;
+      }
+
+      try {
+        const recovered = await middleware.onError(current, context);
+        if (recovered) {
+          return recovered as ApiResponse<T>;
+        }
+      } catch (replacement) {
+        current = replacement as Error;
+      }
+    }
+
+    throw current;
+  }
+}
+
+/**
+ * Built-in middleware enforcing the client-side rate limit and
+ * honouring rate limit headers returned by the server.
+ * With a scheduler, requests wait for capacity in priority order.
+ */
+export function createRateLimitMiddleware(
+  rateLimiter: RateLimiter,
+  scheduler?: RequestScheduler
+): Middleware {
+  const updateFromResponse = (context: MiddlewareContext): void => {
+    if (context.response) {
+      rateLimiter.updateFromHeaders(context.response.headers);
+    }
+  };
+
+  return {
+    name: 'rateLimit',
+    beforeRequest: context =>
+      scheduler
+        ? scheduler.acquire(context.request.priority, context.request.signal)
+        : rateLimiter.consume(),
+    afterResponse: (_response, context) => updateFromResponse(context),
+    onError: (_error, context) => updateFromResponse(context),
+  };
+}
+
+/**
+ * Built-in middleware keeping the clock in sync with the server and
+ * timestamping requests
+ */
+export function createClockSyncMiddleware(options: {
+  enabled: boolean;
+  clockSync: ClockSynchronizer;
+  timestampGenerator: TimestampGenerator;
+  sync: () => Promise<void>;
+}): Middleware {
+  return {
+    name: 'clockSync',
+    beforeRequest: async context => {
+      if (options.enabled && options.clockSync.needsSync()) {
+        await options.sync();
+      }
+
+      if (options.clockSync.getStatus().enabled) {
+        context.headers['X-Timestamp'] = options.timestampGenerator.generate().toString();
+      }
+    },
+  };
+}
+
+/**
+ * Built-in middleware establishing the session and adding authentication headers.
+ * The session token used is recorded in `state.sessionToken`.
+ */
+export function createAuthMiddleware(options: {
+  session?: SessionManager;
+  applyAuth: (headers: Record<string, string>, request: RequestConfig) => Promise<void>;
+}): Middleware {
+  return {
+    name: 'auth',
+    beforeRequest: async context => {
+      if (options.session) {
+        context.state.sessionToken = await options.session.ensureSession();
+      }
+
+      await options.applyAuth(context.headers, context.request);
+    },
+    afterResponse: () => {
+      // Server-side session timeout is measured from the last request
+      options.session?.touch();
+    },
+  };
+}
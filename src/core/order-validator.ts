@@ -0,0 +1,351 @@
+import { ValidationError } from '../errors/index.js';
+import type { CallOptions } from '../types/common.js';
+import type { OrderRequest, OrderSide } from '../types/trading.js';
+import type { InstrumentSpec } from '../rest/instruments.js';
+import type { InstrumentCatalog } from './instrument-catalog.js';
+import type { BracketOrderRequest, OcoOrderRequest } from '../rest/orders.js';
+
+/**
+ * What to do with quantities and prices that are off the instrument's grid
+ */
+export type OrderValidationMode = 'reject' | 'round';
+
+/**
+ * Order validator options
+ */
+export interface OrderValidatorOptions {
+  /** Reject off-grid values, or round them to the nearest step or tick */
+  mode?: OrderValidationMode;
+  /** Current price used to check stop-loss and take-profit of market orders */
+  referencePrice?: (symbol: string, side: OrderSide) => number | undefined;
+}
+
+/**
+ * Field-level validation failure
+ */
+export interface OrderFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Collects field errors and applies rounding while an order is checked
+ */
+class OrderCheck {
+  readonly errors: OrderFieldError[] = [];
+
+  constructor(
+    private readonly spec: InstrumentSpec,
+    private readonly mode: OrderValidationMode
+  ) {}
+
+  fail(field: string, message: string): void {
+    this.errors.push({ field, message });
+  }
+
+  require(field: string, value: number | undefined, orderType: string): void {
+    if (value === undefined) {
+      this.fail(field, `${field} is required for ${orderType} orders`);
+    }
+  }
+
+  quantity(field: string, value: number): number {
+    const { minSize, maxSize, stepSize } = this.spec;
+    const quantity = this.toGrid(field, value, stepSize, 'step size', 0);
+
+    if (quantity < minSize) {
+      this.fail(field, `${field} ${quantity} is below the minimum size ${minSize}`);
+    } else if (quantity > maxSize) {
+      this.fail(field, `${field} ${quantity} exceeds the maximum size ${maxSize}`);
+    }
+    return quantity;
+  }
+
+  price<T extends number | undefined>(field: string, value: T): T {
+    if (value === undefined) {
+      return value;
+    }
+    return this.toGrid(field, value, this.spec.tickSize, 'tick size', this.spec.digits) as T;
+  }
+
+  /**
+   * Check that protective prices sit on the correct side of the entry price
+   */
+  protection(
+    side: OrderSide,
+    entry: number | undefined,
+    stopLoss?: number,
+    takeProfit?: number
+  ): void {
+    const below = side === 'BUY' ? 'below' : 'above';
+    const above = side === 'BUY' ? 'above' : 'below';
+    const isBelow = (a: number, b: number): boolean => (side === 'BUY' ? a < b : a > b);
+
+    if (entry !== undefined) {
+      if (stopLoss !== undefined && !isBelow(stopLoss, entry)) {
+        this.fail('stopLoss', `stopLoss must be ${below} the entry price ${entry} for ${side}`);
+      }
+      if (takeProfit !== undefined && !isBelow(entry, takeProfit)) {
+        this.fail('takeProfit', `takeProfit must be ${above} the entry price ${entry} for ${side}`);
+      }
+    } else if (
+      stopLoss !== undefined &&
+      takeProfit !== undefined &&
+      !isBelow(stopLoss, takeProfit)
+    ) {
+      this.fail('stopLoss', `stopLoss must be ${below} takeProfit for ${side}`);
+    }
+  }
+
+  /**
+   * Check a value is a multiple of an increment, rounding it in `round` mode
+   */
+  private toGrid(
+    field: string,
+    value: number,
+    increment: number,
+    name: string,
+    digits: number
+  ): number {
+    if (!(increment > 0)) {
+      return value;
+    }
+
+    const steps = value / increment;
+    if (Math.abs(steps - Math.round(steps)) < 1e-8) {
+      return value;
+    }
+
+    if (this.mode === 'round') {
+      const decimals = Math.max(decimalPlaces(increment), digits);
+      return Number((Math.round(steps) * increment).toFixed(decimals));
+    }
+
+    this.fail(field, `${field} ${value} is not a multiple of the ${name} ${increment}`);
+    return value;
+  }
+}
+
+/**
+ * Count decimal places of a number, e.g. 0.001 -> 3
+ */
+function decimalPlaces(value: number): number {
+  const [mantissa = '', exponent] = value.toString().split('e-');
+  const decimals = mantissa.split('.')[1]?.length ?? 0;
+  return decimals + (exponent ? Number(exponent) : 0);
+}
+
+/**
+ * Pre-trade order validation against instrument specifications
+ *
+ * Checks quantities against min/max/step size, prices against tick size,
+ * required prices per order type and the side of stop-loss and take-profit,
+ * so invalid orders fail locally instead of being rejected by the server.
+ * Specs come from the instrument catalog's cache.
+ */
+export class OrderValidator {
+  private readonly mode: OrderValidationMode;
+
+  constructor(
+    private readonly catalog: Pick<
+      InstrumentCatalog,
+      'getInstrumentSpec' | 'setInstrumentSpec' | 'clearInstrumentSpecs'
+    >,
+    private readonly options: OrderValidatorOptions = {}
+  ) {
+    this.mode = options.mode ?? 'reject';
+  }
+
+  /**
+   * Get the spec of a symbol from the catalog
+   */
+  getSpec(symbol: string, callOptions?: CallOptions): Promise<InstrumentSpec> {
+    return this.catalog.getInstrumentSpec(symbol, callOptions);
+  }
+
+  /**
+   * Prime the catalog with a known spec
+   */
+  setSpec(spec: InstrumentSpec): void {
+    this.catalog.setInstrumentSpec(spec);
+  }
+
+  /**
+   * Drop cached specs, for one symbol or all
+   */
+  clearCache(symbol?: string): void {
+    this.catalog.clearInstrumentSpecs(symbol);
+  }
+
+  /**
+   * Validate an order against its instrument spec
+   *
+   * @returns the order, rounded to the instrument's grid in `round` mode
+   * @throws ValidationError with one entry per invalid field
+   */
+  async validateOrder(request: OrderRequest, callOptions?: CallOptions): Promise<OrderRequest> {
+    const spec = await this.getSpec(request.symbol, callOptions);
+    const check = this.createCheck(spec);
+    const { type } = request;
+
+    if (type === 'LIMIT' || type === 'STOP_LIMIT') {
+      check.require('price', request.price, type);
+    }
+    if (type === 'STOP' || type === 'STOP_LIMIT') {
+      check.require('stopPrice', request.stopPrice, type);
+    }
+    if (
+      type === 'TRAILING_STOP' &&
+      request.trailingAmount === undefined &&
+      request.trailingPercent === undefined
+    ) {
+      check.fail(
+        'trailingAmount',
+        'trailingAmount or trailingPercent is required for TRAILING_STOP'
+      );
+    }
+
+    const order: OrderRequest = {
+      ...request,
+      quantity: check.quantity('quantity', request.quantity),
+      price: check.price('price', request.price),
+      stopPrice: check.price('stopPrice', request.stopPrice),
+      stopLoss: check.price('stopLoss', request.stopLoss),
+      takeProfit: check.price('takeProfit', request.takeProfit),
+      trailingAmount: check.price('trailingAmount', request.trailingAmount),
+    };
+
+    const entry =
+      type === 'LIMIT' || type === 'STOP_LIMIT'
+        ? order.price
+        : type === 'STOP'
+          ? order.stopPrice
+          : this.options.referencePrice?.(order.symbol, order.side);
+    check.protection(order.side, entry, order.stopLoss, order.takeProfit);
+
+    return this.finish(check, order);
+  }
+
+  /**
+   * Validate an OCO order against its instrument spec
+   *
+   * @throws ValidationError with one entry per invalid field
+   */
+  async validateOcoOrder(
+    request: OcoOrderRequest,
+    callOptions?: CallOptions
+  ): Promise<OcoOrderRequest> {
+    const spec = await this.getSpec(request.symbol, callOptions);
+    const check = this.createCheck(spec);
+    const { primaryOrder, secondaryOrder } = request;
+
+    check.require('primaryOrder.price', primaryOrder.price, primaryOrder.type);
+    if (primaryOrder.type === 'STOP_LIMIT') {
+      check.require('primaryOrder.stopPrice', primaryOrder.stopPrice, primaryOrder.type);
+    }
+    if (secondaryOrder.type === 'STOP_LIMIT') {
+      check.require('secondaryOrder.price', secondaryOrder.price, secondaryOrder.type);
+    }
+    check.require('secondaryOrder.stopPrice', secondaryOrder.stopPrice, secondaryOrder.type);
+
+    const order: OcoOrderRequest = {
+      ...request,
+      quantity: check.quantity('quantity', request.quantity),
+      primaryOrder: {
+        ...primaryOrder,
+        price: check.price('primaryOrder.price', primaryOrder.price),
+        stopPrice: check.price('primaryOrder.stopPrice', primaryOrder.stopPrice),
+      },
+      secondaryOrder: {
+        ...secondaryOrder,
+        price: check.price('secondaryOrder.price', secondaryOrder.price),
+        stopPrice: check.price('secondaryOrder.stopPrice', secondaryOrder.stopPrice),
+      },
+    };
+
+    // The limit leg rests on the favourable side of the market, the stop leg on the other
+    const limit = order.primaryOrder.price;
+    const stop = order.secondaryOrder.stopPrice;
+    if (
+      limit !== undefined &&
+      stop !== undefined &&
+      (order.side === 'BUY' ? limit >= stop : limit <= stop)
+    ) {
+      const relation = order.side === 'BUY' ? 'above' : 'below';
+      check.fail(
+        'secondaryOrder.stopPrice',
+        `secondaryOrder.stopPrice must be ${relation} primaryOrder.price ${limit} for ${order.side}`
+      );
+    }
+
+    return this.finish(check, order);
+  }
+
+  /**
+   * Validate a bracket order against its instrument spec
+   *
+   * @throws ValidationError with one entry per invalid field
+   */
+  async validateBracketOrder(
+    request: BracketOrderRequest,
+    callOptions?: CallOptions
+  ): Promise<BracketOrderRequest> {
+    const spec = await this.getSpec(request.symbol, callOptions);
+    const check = this.createCheck(spec);
+    const { entryOrder } = request;
+
+    if (entryOrder.type === 'LIMIT') {
+      check.require('entryOrder.price', entryOrder.price, entryOrder.type);
+    }
+    if (entryOrder.type === 'STOP') {
+      check.require('entryOrder.stopPrice', entryOrder.stopPrice, entryOrder.type);
+    }
+
+    const order: BracketOrderRequest = {
+      ...request,
+      quantity: check.quantity('quantity', request.quantity),
+      entryOrder: {
+        ...entryOrder,
+        price: check.price('entryOrder.price', entryOrder.price),
+        stopPrice: check.price('entryOrder.stopPrice', entryOrder.stopPrice),
+      },
+      stopLoss: check.price('stopLoss', request.stopLoss),
+      takeProfit: check.price('takeProfit', request.takeProfit),
+    };
+
+    const entry =
+      entryOrder.type === 'LIMIT'
+        ? order.entryOrder.price
+        : entryOrder.type === 'STOP'
+          ? order.entryOrder.stopPrice
+          : this.options.referencePrice?.(order.symbol, order.side);
+    check.protection(order.side, entry, order.stopLoss, order.takeProfit);
+
+    return this.finish(check, order);
+  }
+
+  /**
+   * Start checking an order, rejecting untradable instruments up front
+   */
+  private createCheck(spec: InstrumentSpec): OrderCheck {
+    const check = new OrderCheck(spec, this.mode);
+    if (!spec.tradable) {
+      check.fail('symbol', `${spec.symbol} is not tradable`);
+    }
+    return check;
+  }
+
+  /**
+   * Throw collected field errors, or return the checked order
+   */
+  private finish<T extends { symbol: string }>(check: OrderCheck, order: T): T {
+    if (check.errors.length > 0) {
+      throw new ValidationError(
+        `Order for ${order.symbol} failed pre-trade validation`,
+        check.errors,
+        check.errors[0]?.field
+      );
+    }
+    return order;
+  }
+}
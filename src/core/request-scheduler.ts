@@ -0,0 +1,216 @@
+import { RateLimitError } from '../errors/index.js';
+import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { RequestPriority } from '../types/common.js';
+
+/**
+ * Priority classes, highest first
+ */
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['critical', 'normal', 'background'];
+
+/**
+ * Built-in priorities of REST API methods; unlisted methods are `normal`
+ */
+export const DEFAULT_OPERATION_PRIORITIES: Readonly<Record<string, RequestPriority>> = {
+  'orders.placeOrder': 'critical',
+  'orders.placeOcoOrder': 'critical',
+  'orders.placeBracketOrder': 'critical',
+  'orders.modifyOrder': 'critical',
+  'orders.cancelOrder': 'critical',
+  'orders.cancelOrders': 'critical',
+  'orders.cancelAllOrders': 'critical',
+  'positions.modifyPosition': 'critical',
+  'positions.closePosition': 'critical',
+  'positions.closePositions': 'critical',
+  'positions.closeAllPositions': 'critical',
+  'accounts.getAccountHistory': 'background',
+  'accounts.getEquityCurve': 'background',
+  'instruments.getHistoricalData': 'background',
+  'instruments.getTicks': 'background',
+};
+
+/**
+ * Request scheduler options
+ */
+export interface RequestSchedulerOptions {
+  /** Fraction of the rate limit only critical requests may use */
+  reservedCapacity?: number;
+  /** Longest time a request may wait for capacity, in milliseconds */
+  maxWait?: number;
+  /** Priority per API method, e.g. `{ 'instruments.getQuotes': 'critical' }` */
+  priorities?: Record<string, RequestPriority>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Priority-aware request scheduler on top of the rate limiter
+ *
+ * Requests wait for capacity instead of failing, and are released
+ * critical first, then normal, then background. Part of the rate limit is
+ * reserved for critical requests so a background download can never delay
+ * a cancel or close. A server `Retry-After` pauses every class.
+ */
+export class RequestScheduler {
+  private readonly reservedCapacity: number;
+  private readonly maxWait: number;
+  private readonly priorities: Record<string, RequestPriority>;
+  private readonly queues: Record<RequestPriority, Waiter[]> = {
+    critical: [],
+    normal: [],
+    background: [],
+  };
+  private drainTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly rateLimiter: RateLimiter,
+    options: RequestSchedulerOptions = {}
+  ) {
+    this.reservedCapacity = options.reservedCapacity ?? 0.2;
+    this.maxWait = options.maxWait ?? 30000;
+    this.priorities = { ...DEFAULT_OPERATION_PRIORITIES, ...options.priorities };
+  }
+
+  /**
+   * Get the priority of an API method, e.g. `orders.cancelOrder`
+   */
+  getPriority(operation?: string): RequestPriority {
+    return (operation && this.priorities[operation]) || 'normal';
+  }
+
+  /**
+   * Wait until a request of the given priority may be sent and consume a token
+   *
+   * @throws RateLimitError if capacity is not available within `maxWait`
+   */
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const delay = this.getDelay(priority);
+    if (delay > this.maxWait) {
+      return Promise.reject(this.createTimeoutError(delay));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const queue = this.queues[priority];
+      const waiter: Waiter = { resolve, reject, signal };
+      const dequeue = (error: Error): void => {
+        queue.splice(queue.indexOf(waiter), 1);
+        this.release(waiter);
+        reject(error);
+      };
+
+      waiter.timer = setTimeout(
+        () => dequeue(this.createTimeoutError(this.getDelay(priority))),
+        this.maxWait
+      );
+      waiter.onAbort = () => dequeue(signal?.reason);
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+
+      queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Get number of queued requests per priority
+   */
+  getStats(): Record<RequestPriority, number> {
+    return {
+      critical: this.queues.critical.length,
+      normal: this.queues.normal.length,
+      background: this.queues.background.length,
+    };
+  }
+
+  /**
+   * Reject all queued requests
+   */
+  clear(error: Error = new RateLimitError('Request scheduler cleared')): void {
+    clearTimeout(this.drainTimer);
+    this.drainTimer = undefined;
+
+    for (const priority of REQUEST_PRIORITIES) {
+      for (const waiter of this.queues[priority].splice(0)) {
+        this.release(waiter);
+        waiter.reject(error);
+      }
+    }
+  }
+
+  /**
+   * Release queued requests in priority order while capacity allows,
+   * then wait for the next token to free up
+   */
+  private drain(): void {
+    clearTimeout(this.drainTimer);
+    this.drainTimer = undefined;
+
+    for (;;) {
+      const priority = REQUEST_PRIORITIES.find(candidate => this.queues[candidate].length > 0);
+      if (!priority) {
+        return;
+      }
+
+      const delay = this.getDelay(priority);
+      if (delay > 0) {
+        this.drainTimer = setTimeout(() => this.drain(), delay);
+        return;
+      }
+
+      const waiter = this.queues[priority].shift() as Waiter;
+      this.release(waiter);
+      this.rateLimiter.consume().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /**
+   * Stop a waiter's timeout and abort listener
+   */
+  private release(waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    if (waiter.onAbort) {
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+    }
+  }
+
+  /**
+   * Get time until a request of the given priority may be sent, in milliseconds
+   */
+  private getDelay(priority: RequestPriority): number {
+    // Server asked us to back off: applies to every priority
+    const retryAfter = this.rateLimiter.getRetryAfter();
+    if (retryAfter > 0) {
+      return retryAfter;
+    }
+
+    const status = this.rateLimiter.getStatus();
+    const reserved =
+      priority === 'critical'
+        ? 0
+        : Math.min(status.limit - 1, Math.floor(status.limit * this.reservedCapacity));
+
+    return status.remaining > reserved ? 0 : Math.max(1, status.retryAfter ?? 1);
+  }
+
+  /**
+   * Create the error for a request that could not be scheduled in time
+   */
+  private createTimeoutError(retryAfter: number): RateLimitError {
+    const status = this.rateLimiter.getStatus();
+
+    return new RateLimitError('Rate limit exceeded', {
+      retryAfter,
+      limit: status.limit,
+      remaining: status.remaining,
+      resetTime: status.resetTime,
+    });
+  }
+}
@@ -0,0 +1,179 @@
+import { EventEmitter } from 'events';
+import { CircuitOpenError, NetworkError, TimeoutError } from '../errors/index.js';
+import { CircuitBreaker } from '../utils/backoff.js';
+import type { CircuitState } from '../utils/backoff.js';
+import type { AdaptiveRateLimiter } from '../utils/rate-limiter.js';
+import type { Middleware, MiddlewareContext } from './middleware.js';
+
+/**
+ * Endpoint groups with independent circuit breakers
+ */
+export type EndpointGroup = 'trading' | 'marketData' | 'account' | 'system';
+
+const ENDPOINT_GROUP_PATTERNS: Array<[EndpointGroup, RegExp]> = [
+  ['trading', /\/(orders|positions|trades)(\/|$)/],
+  ['marketData', /\/(quotes|candles|instruments|marketdata|conversion-?rates)(\/|$)/i],
+  ['account', /\/(accounts?|portfolio|balance|metrics|history)(\/|$)/],
+];
+
+/**
+ * Get the endpoint group of a request URL or path.
+ * Account-scoped trading paths such as `/accounts/{id}/orders` count as trading.
+ */
+export function getEndpointGroup(url: string): EndpointGroup {
+  const path = url.split('?')[0] ?? url;
+
+  for (const [group, pattern] of ENDPOINT_GROUP_PATTERNS) {
+    if (pattern.test(path)) {
+      return group;
+    }
+  }
+
+  return 'system';
+}
+
+/**
+ * Check if a failed attempt indicates the server is struggling: a 429 or 5xx
+ * response, or a transport failure without any response
+ */
+export function isServerFailure(error: Error, context: MiddlewareContext): boolean {
+  if (context.response) {
+    return context.response.status === 429 || context.response.status >= 500;
+  }
+
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * Circuit breaker settings, shared by all endpoint groups
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time an open circuit rejects requests before allowing a trial, in milliseconds */
+  recoveryTimeout: number;
+  /** Successful trials needed to close a half-open circuit */
+  successThreshold: number;
+}
+
+/**
+ * Resilience events - parameter tuple format
+ */
+export type ResilienceEventMap = {
+  circuitOpen: [group: EndpointGroup, retryAfter: number];
+  circuitHalfOpen: [group: EndpointGroup];
+  circuitClose: [group: EndpointGroup];
+  rateMultiplierChange: [multiplier: number, previous: number];
+};
+
+/**
+ * Circuit breakers per endpoint group plus adaptive throttling fed by
+ * request outcomes
+ *
+ * An open circuit rejects requests to its group locally with a
+ * CircuitOpenError, so retries stop reaching a broker that is already
+ * failing. Only server-side failures count; validation and auth errors
+ * never open a circuit.
+ */
+export class ResilienceManager extends EventEmitter<ResilienceEventMap> {
+  private readonly breakers = new Map<EndpointGroup, CircuitBreaker>();
+
+  constructor(
+    private readonly options: {
+      circuitBreaker?: CircuitBreakerOptions;
+      rateLimiter?: AdaptiveRateLimiter;
+    } = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Get the circuit breaker of an endpoint group, if circuit breaking is enabled
+   */
+  getBreaker(group: EndpointGroup): CircuitBreaker | undefined {
+    const settings = this.options.circuitBreaker;
+    if (!settings) {
+      return undefined;
+    }
+
+    let breaker = this.breakers.get(group);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        settings.failureThreshold,
+        settings.recoveryTimeout,
+        settings.successThreshold
+      );
+      breaker.on('stateChange', state => this.onStateChange(group, state));
+      this.breakers.set(group, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Get circuit states per endpoint group and the adaptive rate multiplier
+   */
+  getStatus(): {
+    circuits: Partial<Record<EndpointGroup, ReturnType<CircuitBreaker['getStats']>>>;
+    rateMultiplier?: number;
+  } {
+    const circuits: Partial<Record<EndpointGroup, ReturnType<CircuitBreaker['getStats']>>> = {};
+    this.breakers.forEach((breaker, group) => {
+      circuits[group] = breaker.getStats();
+    });
+
+    return {
+      circuits,
+      rateMultiplier: this.options.rateLimiter?.getMultiplier(),
+    };
+  }
+
+  /**
+   * Close all circuits
+   */
+  reset(): void {
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+
+  /**
+   * Create the middleware that applies circuit breaking and records outcomes
+   */
+  createMiddleware(): Middleware {
+    return {
+      name: 'resilience',
+      beforeRequest: context => {
+        const group = getEndpointGroup(context.request.url);
+        const breaker = this.getBreaker(group);
+
+        if (breaker && !breaker.canExecute()) {
+          throw new CircuitOpenError(group, breaker.getRetryAfter());
+        }
+      },
+      afterResponse: (_response, context) => {
+        this.getBreaker(getEndpointGroup(context.request.url))?.recordSuccess();
+        this.options.rateLimiter?.recordSuccess();
+      },
+      onError: (error, context) => {
+        if (!isServerFailure(error, context)) {
+          return;
+        }
+
+        this.getBreaker(getEndpointGroup(context.request.url))?.recordFailure();
+        this.options.rateLimiter?.recordError();
+      },
+    };
+  }
+
+  /**
+   * Re-emit breaker transitions with their endpoint group
+   */
+  private onStateChange(group: EndpointGroup, state: CircuitState): void {
+    if (state === 'OPEN') {
+      this.emit('circuitOpen', group, this.breakers.get(group)?.getRetryAfter() ?? 0);
+    } else if (state === 'HALF_OPEN') {
+      this.emit('circuitHalfOpen', group);
+    } else {
+      this.emit('circuitClose', group);
+    }
+  }
+}
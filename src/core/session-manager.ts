@@ -0,0 +1,298 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Result of a successful login
+ */
+export interface SessionLoginResult {
+  token: string;
+  /** Session lifetime in milliseconds, when reported by the server */
+  timeout?: number;
+}
+
+/**
+ * Session manager options
+ */
+export interface SessionManagerOptions {
+  /** Perform a fresh login and return the new session */
+  login: () => Promise<SessionLoginResult>;
+  /** Extend the current session, returning the new lifetime in milliseconds if known */
+  ping?: (token: string) => Promise<number | undefined>;
+  /** Proactively ping (or log in again) before the session expires */
+  keepAlive?: boolean;
+  /** How long before expiry the session is refreshed, in milliseconds */
+  refreshMargin?: number;
+  /** Session lifetime assumed when the server does not report one, in milliseconds */
+  defaultTimeout?: number;
+}
+
+/**
+ * Session events - parameter tuple format
+ */
+export type SessionEventMap = {
+  loggedIn: [expiresAt: number];
+  refreshed: [expiresAt: number];
+  refreshFailed: [error: Error];
+  expired: [];
+};
+
+/**
+ * Parse a session timeout as reported by a DXtrade login or ping response.
+ * Numbers are treated as seconds, strings may be plain seconds or `HH:MM:SS`.
+ */
+export function parseSessionTimeout(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return value * 1000;
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+
+    if (/^\d+$/.test(trimmed)) {
+      return parseSessionTimeout(parseInt(trimmed, 10));
+    }
+
+    const match = /^(\d+):(\d{2}):(\d{2})$/.exec(trimmed);
+    if (match) {
+      const [, hours, minutes, seconds] = match;
+      return parseSessionTimeout(
+        Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+      );
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Session lifecycle manager for credentials authentication
+ *
+ * Logs in lazily before the first request, tracks the inactivity timeout
+ * reported by the server, keeps the session alive ahead of expiry and
+ * deduplicates concurrent logins.
+ */
+export class SessionManager extends EventEmitter<SessionEventMap> {
+  private readonly options: Required<Omit<SessionManagerOptions, 'ping'>> &
+    Pick<SessionManagerOptions, 'ping'>;
+  private token?: string;
+  private timeout: number;
+  private expiresAt = 0;
+  private loginPromise?: Promise<string>;
+  private keepAliveTimer?: NodeJS.Timeout;
+  private isDestroyed = false;
+
+  constructor(options: SessionManagerOptions) {
+    super();
+
+    this.options = {
+      login: options.login,
+      ping: options.ping,
+      keepAlive: options.keepAlive ?? true,
+      refreshMargin: options.refreshMargin ?? 60000,
+      defaultTimeout: options.defaultTimeout ?? 1800000,
+    };
+    this.timeout = this.options.defaultTimeout;
+  }
+
+  /**
+   * Get a valid session token, logging in first if needed
+   */
+  async ensureSession(): Promise<string> {
+    if (this.token && !this.isExpiring()) {
+      return this.token;
+    }
+
+    return this.login();
+  }
+
+  /**
+   * Log in again, replacing the current session.
+   *
+   * When `staleToken` is given and the session has already been replaced
+   * since that token was issued, the current session is returned instead.
+   */
+  async refresh(staleToken?: string): Promise<string> {
+    if (staleToken && this.token && this.token !== staleToken) {
+      return this.token;
+    }
+
+    this.token = undefined;
+    return this.login();
+  }
+
+  /**
+   * Record request activity, which extends the server-side inactivity timeout
+   */
+  touch(): void {
+    if (this.token) {
+      this.expiresAt = Date.now() + this.timeout;
+    }
+  }
+
+  /**
+   * Use an externally obtained session token
+   */
+  setToken(token: string, timeout?: number): void {
+    this.applySession({ token, timeout });
+  }
+
+  /**
+   * Get current session token, if any
+   */
+  getToken(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Drop the current session without contacting the server
+   */
+  invalidate(): void {
+    this.token = undefined;
+    this.expiresAt = 0;
+    this.stopKeepAlive();
+  }
+
+  /**
+   * Get session status
+   */
+  getStatus(): {
+    authenticated: boolean;
+    expiresAt?: number;
+    timeToExpiry?: number;
+    timeout: number;
+    keepAlive: boolean;
+  } {
+    const authenticated = Boolean(this.token);
+
+    return {
+      authenticated,
+      expiresAt: authenticated ? this.expiresAt : undefined,
+      timeToExpiry: authenticated ? Math.max(0, this.expiresAt - Date.now()) : undefined,
+      timeout: this.timeout,
+      keepAlive: this.options.keepAlive,
+    };
+  }
+
+  /**
+   * Destroy session manager and cleanup resources
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+    this.invalidate();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Log in, sharing a single in-flight login between concurrent callers
+   */
+  private login(): Promise<string> {
+    if (!this.loginPromise) {
+      this.loginPromise = this.performLogin().finally(() => {
+        this.loginPromise = undefined;
+      });
+    }
+
+    return this.loginPromise;
+  }
+
+  /**
+   * Perform the actual login
+   */
+  private async performLogin(): Promise<string> {
+    const result = await this.options.login();
+    this.applySession(result);
+    this.emit('loggedIn', this.expiresAt);
+    return result.token;
+  }
+
+  /**
+   * Store a new session and schedule keep-alive
+   */
+  private applySession(result: SessionLoginResult): void {
+    this.token = result.token;
+    this.timeout = result.timeout ?? this.options.defaultTimeout;
+    this.expiresAt = Date.now() + this.timeout;
+    this.scheduleKeepAlive();
+  }
+
+  /**
+   * Check if the session is expired or about to expire
+   */
+  private isExpiring(): boolean {
+    return Date.now() >= this.expiresAt - this.options.refreshMargin;
+  }
+
+  /**
+   * Schedule the next keep-alive check
+   */
+  private scheduleKeepAlive(): void {
+    this.stopKeepAlive();
+
+    if (!this.options.keepAlive || this.isDestroyed || !this.token) {
+      return;
+    }
+
+    const delay = Math.max(0, this.expiresAt - this.options.refreshMargin - Date.now());
+
+    this.keepAliveTimer = setTimeout(() => {
+      this.keepAliveTimer = undefined;
+      void this.keepAlive();
+    }, delay);
+
+    // A pending keep-alive must not hold the process open on its own
+    this.keepAliveTimer.unref?.();
+  }
+
+  /**
+   * Extend the session before it expires, falling back to a fresh login
+   */
+  private async keepAlive(): Promise<void> {
+    const token = this.token;
+    if (!token || this.isDestroyed) {
+      return;
+    }
+
+    // Request activity may have pushed expiry further out since scheduling
+    if (!this.isExpiring()) {
+      this.scheduleKeepAlive();
+      return;
+    }
+
+    if (this.options.ping) {
+      try {
+        const timeout = await this.options.ping(token);
+
+        // Session replaced while the ping was in flight
+        if (this.token !== token) {
+          return;
+        }
+
+        this.timeout = timeout ?? this.timeout;
+        this.expiresAt = Date.now() + this.timeout;
+        this.emit('refreshed', this.expiresAt);
+        this.scheduleKeepAlive();
+        return;
+      } catch (error) {
+        this.emit('refreshFailed', error as Error);
+      }
+    }
+
+    try {
+      await this.refresh(token);
+      this.emit('refreshed', this.expiresAt);
+    } catch (error) {
+      this.emit('refreshFailed', error as Error);
+      this.invalidate();
+      this.emit('expired');
+    }
+  }
+
+  /**
+   * Stop keep-alive timer
+   */
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearTimeout(this.keepAliveTimer);
+      this.keepAliveTimer = undefined;
+    }
+  }
+}
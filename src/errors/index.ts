@@ -321,6 +321,79 @@ export class ClockSyncError extends DXError {
   }
 }
 
+/**
+ * Request rejected locally because the circuit breaker for its endpoint group is open
+ */
+export class CircuitOpenError extends DXError {
+  public readonly group: string;
+  public readonly retryAfter: number;
+
+  constructor(group: string, retryAfter: number) {
+    super(`Circuit breaker for ${group} endpoints is open`, {
+      code: 'CIRCUIT_OPEN',
+      details: { group, retryAfter },
+    });
+    this.group = group;
+    this.retryAfter = retryAfter;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      group: this.group,
+      retryAfter: this.retryAfter,
+    };
+  }
+}
+
+/**
+ * Server's API version does not support an optional feature
+ */
+export class FeatureNotSupportedError extends DXError {
+  public readonly feature: string;
+  public readonly version?: string;
+
+  constructor(feature: string, version?: string) {
+    super(
+      `API feature '${feature}' is not supported by the server` +
+        (version ? ` (API version ${version})` : ''),
+      { code: 'FEATURE_NOT_SUPPORTED', details: { feature, version } }
+    );
+    this.feature = feature;
+    this.version = version;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      feature: this.feature,
+      version: this.version,
+    };
+  }
+}
+
+/**
+ * Stream consumer fell behind and the stream's buffer filled up
+ */
+export class StreamOverflowError extends DXError {
+  public readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Stream buffer of ${bufferSize} items overflowed`, {
+      code: 'STREAM_OVERFLOW',
+      details: { bufferSize },
+    });
+    this.bufferSize = bufferSize;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      bufferSize: this.bufferSize,
+    };
+  }
+}
+
 /**
  * Error factory for creating specific error types based on HTTP status codes
  */
@@ -398,6 +471,18 @@ export function isWebSocketError(error: unknown): error is WebSocketError {
   return error instanceof WebSocketError;
 }
 
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return error instanceof CircuitOpenError;
+}
+
+export function isStreamOverflowError(error: unknown): error is StreamOverflowError {
+  return error instanceof StreamOverflowError;
+}
+
+export function isFeatureNotSupportedError(error: unknown): error is FeatureNotSupportedError {
+  return error instanceof FeatureNotSupportedError;
+}
+
 export function isRetryableError(error: unknown): boolean {
   if (isNetworkError(error)) {
     return error.retryable;
@@ -19,6 +19,9 @@ export {
   createLiveClient,
   createRestOnlyClient,
   type DXTradeClientConfig,
+  type ShutdownOptions,
+  type ShutdownResult,
+  type ShutdownHookOptions,
 } from './client.js';
 
 // Configuration helpers
@@ -26,17 +29,133 @@ export { loadConfigFromEnv, createConfigWithEnv, getWebSocketUrl } from './confi
 
 // Core HTTP client
 export { HttpClient } from './core/http-client.js';
+export { SessionManager, parseSessionTimeout } from './core/session-manager.js';
+export type {
+  SessionLoginResult,
+  SessionManagerOptions,
+  SessionEventMap,
+} from './core/session-manager.js';
+export {
+  MiddlewareChain,
+  createAuthMiddleware,
+  createClockSyncMiddleware,
+  createRateLimitMiddleware,
+} from './core/middleware.js';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewarePosition,
+  BeforeRequestHook,
+  AfterResponseHook,
+  ErrorHook,
+} from './core/middleware.js';
+export {
+  FetchTransport,
+  NodeTransport,
+  createNodeTransport,
+  resolveTransport,
+} from './core/transport.js';
+export type {
+  Transport,
+  TransportOption,
+  FetchLike,
+  NodeTransportOptions,
+} from './core/transport.js';
+export {
+  MemoryIdempotencyStore,
+  FileIdempotencyStore,
+  DEFAULT_IDEMPOTENCY_TTL,
+} from './core/idempotency-store.js';
+export type {
+  IdempotencyStore,
+  MemoryIdempotencyStoreOptions,
+  FileIdempotencyStoreOptions,
+} from './core/idempotency-store.js';
+export { ResilienceManager, getEndpointGroup, isServerFailure } from './core/resilience.js';
+export {
+  RequestScheduler,
+  REQUEST_PRIORITIES,
+  DEFAULT_OPERATION_PRIORITIES,
+} from './core/request-scheduler.js';
+export type { RequestSchedulerOptions } from './core/request-scheduler.js';
+export { OrderValidator } from './core/order-validator.js';
+export { InstrumentCatalog, symbolKey } from './core/instrument-catalog.js';
+export type { InstrumentCatalogOptions } from './core/instrument-catalog.js';
+export { TradingCalendar } from './utils/trading-calendar.js';
+export type { MarketStatus, TradingSession } from './utils/trading-calendar.js';
+export { CandleDownloader, TIMEFRAME_DURATIONS, findGaps } from './utils/candle-downloader.js';
+export type {
+  Timeframe,
+  HistoricalBar,
+  TimeRange,
+  CandleCheckpoint,
+  CandleChunkProgress,
+  CandleDownloadOptions,
+  CandleDownloadResult,
+} from './utils/candle-downloader.js';
+export {
+  BarAggregator,
+  ticksToBars,
+  resampleBars,
+  resampleHistoricalData,
+} from './utils/bar-aggregator.js';
+export type {
+  PriceSource,
+  BarType,
+  PriceTick,
+  BarAggregatorOptions,
+  BarAggregatorEventMap,
+} from './utils/bar-aggregator.js';
+export {
+  getMarginRate,
+  calculateMargin,
+  calculatePipValue,
+  calculatePriceMoveValue,
+  calculateProtectionValue,
+  calculatePositionSize,
+} from './utils/trading-calculators.js';
+export type {
+  CalculatorOptions,
+  MarginResult,
+  PipValueResult,
+  PositionSizeResult,
+  ProtectionValueResult,
+} from './utils/trading-calculators.js';
+export type {
+  OrderValidatorOptions,
+  OrderValidationMode,
+  OrderFieldError,
+} from './core/order-validator.js';
+export type {
+  EndpointGroup,
+  CircuitBreakerOptions,
+  ResilienceEventMap,
+} from './core/resilience.js';
+export { EndpointRouter, ENDPOINTS, isEndpointName } from './core/endpoints.js';
+export type { EndpointName, EndpointParams } from './core/endpoints.js';
 
 // REST API modules
 export { AccountsApi } from './rest/accounts.js';
 export { InstrumentsApi } from './rest/instruments.js';
 export { OrdersApi } from './rest/orders.js';
 export { PositionsApi } from './rest/positions.js';
+export { TradesApi } from './rest/trades.js';
+export { ConversionRatesApi } from './rest/conversion-rates.js';
+export {
+  SystemApi,
+  negotiateFeatures,
+  API_FEATURES,
+  SUPPORTED_API_VERSION,
+} from './rest/system.js';
 
 // WebSocket client
 export { PushClient } from './websocket/push-client.js';
 export { ConnectionManager } from './websocket/connection-manager.js';
 export { DXTradeStreamManager, createDXTradeStreamManager } from './websocket/dxtrade-stream-manager.js';
+export { SubscriptionRegistry } from './websocket/subscription-registry.js';
+export { PushStreams } from './websocket/push-streams.js';
+export { OrderBookManager } from './websocket/order-book-manager.js';
+export { AsyncStream } from './utils/async-stream.js';
 
 // Type definitions
 export type {
@@ -46,6 +165,9 @@ export type {
   SDKConfig,
   HTTPMethod,
   RequestConfig,
+  RequestOptions,
+  RequestPriority,
+  CallOptions,
   ApiResponse,
   BackoffConfig,
   ClockSync,
@@ -104,6 +226,7 @@ export type {
   DXTradeStreamCallbacks,
   DXTradeConnectionStatus,
   DXTradeTestResult,
+  SymbolSubscriptionChange,
   PingRequestMessage,
   PingResponseMessage,
   MarketDataSubscriptionRequest,
@@ -150,12 +273,47 @@ export type {
   PortfolioSummary,
 } from './rest/positions.js';
 
+export type { TradeQuery, TradeWithOrder, TradeJoinOptions } from './rest/trades.js';
+
+export type { ConversionRate, ConversionRateQuery } from './rest/conversion-rates.js';
+
+export type {
+  ServerTime,
+  MaintenanceWindow,
+  SystemStatus,
+  ApiVersion,
+  ApiFeature,
+  NegotiatedFeatures,
+} from './rest/system.js';
+
 // WebSocket specific types
 export type {
   MarketDataConfig,
   BackfillConfig,
   PushClientConfig,
 } from './websocket/push-client.js';
+export type { SubscriptionHandle } from './websocket/subscription-registry.js';
+export type {
+  QuoteUpdate,
+  OrderBookUpdate,
+  TradeUpdate,
+  OrderUpdate,
+  PositionUpdate,
+  AccountUpdate,
+  AccountStreamOptions,
+} from './websocket/push-streams.js';
+export type {
+  OrderBookManagerOptions,
+  OrderBookManagerEventMap,
+  OrderBookResyncReason,
+  OrderBookFill,
+} from './websocket/order-book-manager.js';
+export type {
+  OverflowPolicy,
+  AsyncStreamOptions,
+  AsyncStreamSink,
+  AsyncStreamSource,
+} from './utils/async-stream.js';
 
 // Error classes
 export {
@@ -170,6 +328,9 @@ export {
   MarketDataError,
   TimeoutError,
   ClockSyncError,
+  CircuitOpenError,
+  StreamOverflowError,
+  FeatureNotSupportedError,
   ErrorFactory,
   // Type guards
   isNetworkError,
@@ -178,18 +339,39 @@ export {
   isValidationError,
   isTradingError,
   isWebSocketError,
+  isCircuitOpenError,
+  isStreamOverflowError,
+  isFeatureNotSupportedError,
   isRetryableError,
 } from './errors/index.js';
 
 // Utility classes
 export { RateLimiter, AdaptiveRateLimiter } from './utils/rate-limiter.js';
+export type { AdaptiveRateLimiterOptions } from './utils/rate-limiter.js';
 export {
   ExponentialBackoff,
   DecorrelatedJitterBackoff,
   CircuitBreaker,
   retryWithBackoff,
 } from './utils/backoff.js';
+export type { CircuitState, CircuitBreakerEventMap } from './utils/backoff.js';
 export { ClockSynchronizer, TimestampGenerator, TimestampUtils } from './utils/clock-sync.js';
+export { paginate } from './utils/pagination.js';
+export { CurrencyConverter, parseCurrencyPair } from './utils/currency-converter.js';
+export type { CurrencyConverterOptions, ConvertedPnl } from './utils/currency-converter.js';
+export type { Page, PaginationInfo, PaginateOptions } from './utils/pagination.js';
+export {
+  ConsoleLogger,
+  SilentLogger,
+  RedactingLogger,
+  createLogger,
+  redact,
+  REDACTED,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+  type ConsoleLoggerOptions,
+} from './utils/logger.js';
 
 // Version information
 export const VERSION = '1.0.0';
@@ -1,7 +1,9 @@
 import type { HttpClient } from '../core/http-client.js';
 import type { Account } from '../types/trading.js';
-import type { ApiResponse } from '../types/common.js';
+import type { ApiResponse, CallOptions } from '../types/common.js';
 import { AccountSchema } from '../types/trading.js';
+import { paginate } from '../utils/pagination.js';
+import type { PaginateOptions } from '../utils/pagination.js';
 import { z } from 'zod';
 
 /**
@@ -84,8 +86,13 @@ export class AccountsApi {
   /**
    * Get all accounts for the authenticated user
    */
-  async getAccounts(): Promise<Account[]> {
-    const response = await this.httpClient.get<Account[]>('/accounts');
+  async getAccounts(callOptions?: CallOptions): Promise<Account[]> {
+    const url = this.httpClient.resolveEndpoint('accounts.getAccounts');
+
+    const response = await this.httpClient.get<Account[]>(url, undefined, {
+      ...callOptions,
+      operation: 'accounts.getAccounts',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve accounts');
@@ -99,8 +106,13 @@ export class AccountsApi {
   /**
    * Get account by ID
    */
-  async getAccount(accountId: string): Promise<Account> {
-    const response = await this.httpClient.get<Account>(`/accounts/${accountId}`);
+  async getAccount(accountId: string, callOptions?: CallOptions): Promise<Account> {
+    const url = this.httpClient.resolveEndpoint('accounts.getAccount', { accountId });
+
+    const response = await this.httpClient.get<Account>(url, undefined, {
+      ...callOptions,
+      operation: 'accounts.getAccount',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve account');
@@ -114,8 +126,13 @@ export class AccountsApi {
   /**
    * Get account balance information
    */
-  async getAccountBalance(accountId: string): Promise<AccountBalance> {
-    const response = await this.httpClient.get<AccountBalance>(`/accounts/${accountId}/balance`);
+  async getAccountBalance(accountId: string, callOptions?: CallOptions): Promise<AccountBalance> {
+    const url = this.httpClient.resolveEndpoint('accounts.getAccountBalance', { accountId });
+
+    const response = await this.httpClient.get<AccountBalance>(url, undefined, {
+      ...callOptions,
+      operation: 'accounts.getAccountBalance',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve account balance');
@@ -129,8 +146,13 @@ export class AccountsApi {
   /**
    * Get account summary with aggregated information
    */
-  async getAccountSummary(accountId: string): Promise<AccountSummary> {
-    const response = await this.httpClient.get<AccountSummary>(`/accounts/${accountId}/summary`);
+  async getAccountSummary(accountId: string, callOptions?: CallOptions): Promise<AccountSummary> {
+    const url = this.httpClient.resolveEndpoint('accounts.getAccountSummary', { accountId });
+
+    const response = await this.httpClient.get<AccountSummary>(url, undefined, {
+      ...callOptions,
+      operation: 'accounts.getAccountSummary',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve account summary');
@@ -145,7 +167,8 @@ export class AccountsApi {
    * Get account transaction history
    */
   async getAccountHistory(
-    query: AccountHistoryQuery = {}
+    query: AccountHistoryQuery = {},
+    callOptions?: CallOptions
   ): Promise<{
     entries: AccountHistoryEntry[];
     pagination?: {
@@ -158,6 +181,8 @@ export class AccountsApi {
     // Validate query parameters
     const validatedQuery = AccountHistoryQuerySchema.parse(query);
     
+    const url = this.httpClient.resolveEndpoint('accounts.getAccountHistory');
+
     const response = await this.httpClient.get<{
       entries: AccountHistoryEntry[];
       pagination?: {
@@ -166,7 +191,10 @@ export class AccountsApi {
         total: number;
         totalPages: number;
       };
-    }>('/accounts/history', validatedQuery);
+    }>(url, validatedQuery, {
+      ...callOptions,
+      operation: 'accounts.getAccountHistory',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve account history');
@@ -186,6 +214,25 @@ export class AccountsApi {
     return validatedData;
   }
 
+  /**
+   * Iterate all account history entries matching a query, fetching pages lazily.
+   * `query.page` sets the first page.
+   */
+  iterateAccountHistory(
+    query: Partial<AccountHistoryQuery> = {},
+    options: PaginateOptions = {},
+    callOptions?: CallOptions
+  ): AsyncGenerator<AccountHistoryEntry, void, undefined> {
+    return paginate(
+      async page => {
+        const result = await this.getAccountHistory({ ...query, page }, callOptions);
+        return { items: result.entries, pagination: result.pagination };
+      },
+      query.page,
+      options
+    );
+  }
+
   /**
    * Get account equity curve data
    */
@@ -195,7 +242,8 @@ export class AccountsApi {
       fromDate?: number;
       toDate?: number;
       interval?: 'MINUTE' | 'HOUR' | 'DAY';
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<Array<{ timestamp: number; equity: number; balance: number }>> {
     const params = {
       fromDate: options.fromDate,
@@ -203,11 +251,16 @@ export class AccountsApi {
       interval: options.interval,
     };
 
+    const url = this.httpClient.resolveEndpoint('accounts.getEquityCurve', { accountId });
+
     const response = await this.httpClient.get<Array<{ 
       timestamp: number; 
       equity: number; 
       balance: number;
-    }>>(`/accounts/${accountId}/equity-curve`, params);
+    }>>(url, params, {
+      ...callOptions,
+      operation: 'accounts.getEquityCurve',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve equity curve');
@@ -231,7 +284,8 @@ export class AccountsApi {
     options: {
       fromDate?: number;
       toDate?: number;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<{
     totalTrades: number;
     winningTrades: number;
@@ -252,6 +306,8 @@ export class AccountsApi {
       toDate: options.toDate,
     };
 
+    const url = this.httpClient.resolveEndpoint('accounts.getAccountStatistics', { accountId });
+
     const response = await this.httpClient.get<{
       totalTrades: number;
       winningTrades: number;
@@ -266,7 +322,10 @@ export class AccountsApi {
       totalProfit: number;
       totalCommission: number;
       totalSwap: number;
-    }>(`/accounts/${accountId}/statistics`, params);
+    }>(url, params, {
+      ...callOptions,
+      operation: 'accounts.getAccountStatistics',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve account statistics');
@@ -299,7 +358,8 @@ export class AccountsApi {
     accountId: string,
     symbol: string,
     volume: number,
-    side: 'BUY' | 'SELL'
+    side: 'BUY' | 'SELL',
+    callOptions?: CallOptions
   ): Promise<{
     marginRequired: number;
     marginCurrency: string;
@@ -313,13 +373,20 @@ export class AccountsApi {
       side,
     };
 
+    const url = this.httpClient.resolveEndpoint('accounts.calculateMarginRequirement', {
+      accountId,
+    });
+
     const response = await this.httpClient.get<{
       marginRequired: number;
       marginCurrency: string;
       marginRate: number;
       availableMargin: number;
       marginLevel: number;
-    }>(`/accounts/${accountId}/margin-requirement`, params);
+    }>(url, params, {
+      ...callOptions,
+      operation: 'accounts.calculateMarginRequirement',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to calculate margin requirement');
@@ -340,7 +407,12 @@ export class AccountsApi {
   /**
    * Get account information - simplified for DXtrade API
    */
-  async getInfo(): Promise<ApiResponse<Account>> {
-    return this.httpClient.get<Account>('/accounts');
+  async getInfo(callOptions?: CallOptions): Promise<ApiResponse<Account>> {
+    const url = this.httpClient.resolveEndpoint('accounts.getInfo');
+
+    return this.httpClient.get<Account>(url, undefined, {
+      ...callOptions,
+      operation: 'accounts.getInfo',
+    });
   }
 }
\ No newline at end of file
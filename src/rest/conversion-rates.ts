@@ -0,0 +1,83 @@
+import type { HttpClient } from '../core/http-client.js';
+import type { CallOptions } from '../types/common.js';
+import { MarketDataError } from '../errors/index.js';
+import { z } from 'zod';
+
+/**
+ * Currency conversion rate: 1 unit of `fromCurrency` is worth `rate` units of `toCurrency`
+ */
+export const ConversionRateSchema = z.object({
+  fromCurrency: z.string(),
+  toCurrency: z.string(),
+  rate: z.number().positive(),
+  timestamp: z.number().optional(),
+});
+
+export type ConversionRate = z.infer<typeof ConversionRateSchema>;
+
+/**
+ * Conversion rate query
+ */
+export const ConversionRateQuerySchema = z.object({
+  fromCurrency: z.string().optional(),
+  toCurrency: z.string().optional(),
+});
+
+export type ConversionRateQuery = z.infer<typeof ConversionRateQuerySchema>;
+
+/**
+ * Conversion rates REST API client
+ */
+export class ConversionRatesApi {
+  constructor(private readonly httpClient: HttpClient) {}
+
+  /**
+   * Get conversion rates, optionally limited to a source or target currency
+   */
+  async getConversionRates(
+    query: ConversionRateQuery = {},
+    callOptions?: CallOptions
+  ): Promise<ConversionRate[]> {
+    this.httpClient.requireFeature('conversionRates');
+
+    // Validate query parameters
+    const validatedQuery = ConversionRateQuerySchema.parse(query);
+
+    const url = this.httpClient.resolveEndpoint('conversionRates.getConversionRates');
+
+    const response = await this.httpClient.get<ConversionRate[]>(url, validatedQuery, {
+      ...callOptions,
+      operation: 'conversionRates.getConversionRates',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve conversion rates');
+    }
+
+    // Validate response data
+    const validatedData = z.array(ConversionRateSchema).parse(response.data);
+    return validatedData;
+  }
+
+  /**
+   * Get the conversion rate between two currencies
+   */
+  async getConversionRate(
+    fromCurrency: string,
+    toCurrency: string,
+    callOptions?: CallOptions
+  ): Promise<ConversionRate> {
+    const rates = await this.getConversionRates({ fromCurrency, toCurrency }, callOptions);
+    const rate = rates.find(
+      candidate => candidate.fromCurrency === fromCurrency && candidate.toCurrency === toCurrency
+    );
+
+    if (!rate) {
+      throw new MarketDataError(`No conversion rate from ${fromCurrency} to ${toCurrency}`, {
+        details: { fromCurrency, toCurrency },
+      });
+    }
+
+    return rate;
+  }
+}
@@ -6,6 +6,9 @@ export { AccountsApi } from './accounts.js';
 export { InstrumentsApi } from './instruments.js';
 export { OrdersApi } from './orders.js';
 export { PositionsApi } from './positions.js';
+export { TradesApi } from './trades.js';
+export { ConversionRatesApi } from './conversion-rates.js';
+export { SystemApi, negotiateFeatures, API_FEATURES, SUPPORTED_API_VERSION } from './system.js';
 
 // Re-export types from each module
 export type {
@@ -38,4 +41,24 @@ export type {
   PositionStatistics,
   PositionRisk,
   PortfolioSummary,
-} from './positions.js';
\ No newline at end of file
+} from './positions.js';
+
+export type {
+  TradeQuery,
+  TradeWithOrder,
+  TradeJoinOptions,
+} from './trades.js';
+
+export type {
+  ConversionRate,
+  ConversionRateQuery,
+} from './conversion-rates.js';
+
+export type {
+  ServerTime,
+  MaintenanceWindow,
+  SystemStatus,
+  ApiVersion,
+  ApiFeature,
+  NegotiatedFeatures,
+} from './system.js';
@@ -1,6 +1,11 @@
 import type { HttpClient } from '../core/http-client.js';
 import type { Instrument, Quote, InstrumentType } from '../types/trading.js';
+import type { CallOptions } from '../types/common.js';
 import { InstrumentSchema, QuoteSchema } from '../types/trading.js';
+import { paginate } from '../utils/pagination.js';
+import { CandleDownloader } from '../utils/candle-downloader.js';
+import type { CandleDownloadOptions, CandleDownloadResult } from '../utils/candle-downloader.js';
+import type { PaginateOptions } from '../utils/pagination.js';
 import { z } from 'zod';
 
 /**
@@ -106,7 +111,10 @@ export class InstrumentsApi {
   /**
    * Get all available instruments with optional filtering
    */
-  async getInstruments(filter: InstrumentFilter = { limit: 100 }): Promise<{
+  async getInstruments(
+    filter: InstrumentFilter = { limit: 100 },
+    callOptions?: CallOptions
+  ): Promise<{
     instruments: Instrument[];
     pagination?: {
       page: number;
@@ -118,6 +126,8 @@ export class InstrumentsApi {
     // Validate filter parameters
     const validatedFilter = InstrumentFilterSchema.parse(filter);
     
+    const url = this.httpClient.resolveEndpoint('instruments.getInstruments');
+
     const response = await this.httpClient.get<{
       instruments: Instrument[];
       pagination?: {
@@ -126,7 +136,10 @@ export class InstrumentsApi {
         total: number;
         totalPages: number;
       };
-    }>('/instruments', validatedFilter);
+    }>(url, validatedFilter, {
+      ...callOptions,
+      operation: 'instruments.getInstruments',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve instruments');
@@ -146,11 +159,35 @@ export class InstrumentsApi {
     return validatedData;
   }
 
+  /**
+   * Iterate all instruments matching a query, fetching pages lazily.
+   * `query.page` sets the first page.
+   */
+  iterateInstruments(
+    query: Partial<InstrumentFilter> = {},
+    options: PaginateOptions = {},
+    callOptions?: CallOptions
+  ): AsyncGenerator<Instrument, void, undefined> {
+    return paginate(
+      async page => {
+        const result = await this.getInstruments({ limit: 100, ...query, page }, callOptions);
+        return { items: result.instruments, pagination: result.pagination };
+      },
+      query.page,
+      options
+    );
+  }
+
   /**
    * Get instrument by symbol
    */
-  async getInstrument(symbol: string): Promise<Instrument> {
-    const response = await this.httpClient.get<Instrument>(`/instruments/${symbol}`);
+  async getInstrument(symbol: string, callOptions?: CallOptions): Promise<Instrument> {
+    const url = this.httpClient.resolveEndpoint('instruments.getInstrument', { symbol });
+
+    const response = await this.httpClient.get<Instrument>(url, undefined, {
+      ...callOptions,
+      operation: 'instruments.getInstrument',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve instrument');
@@ -164,8 +201,13 @@ export class InstrumentsApi {
   /**
    * Get detailed instrument specification including trading conditions
    */
-  async getInstrumentSpec(symbol: string): Promise<InstrumentSpec> {
-    const response = await this.httpClient.get<InstrumentSpec>(`/instruments/${symbol}/specification`);
+  async getInstrumentSpec(symbol: string, callOptions?: CallOptions): Promise<InstrumentSpec> {
+    const url = this.httpClient.resolveEndpoint('instruments.getInstrumentSpec', { symbol });
+
+    const response = await this.httpClient.get<InstrumentSpec>(url, undefined, {
+      ...callOptions,
+      operation: 'instruments.getInstrumentSpec',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve instrument specification');
@@ -179,8 +221,13 @@ export class InstrumentsApi {
   /**
    * Get current quote for instrument
    */
-  async getQuote(symbol: string): Promise<Quote> {
-    const response = await this.httpClient.get<Quote>(`/instruments/${symbol}/quote`);
+  async getQuote(symbol: string, callOptions?: CallOptions): Promise<Quote> {
+    const url = this.httpClient.resolveEndpoint('instruments.getQuote', { symbol });
+
+    const response = await this.httpClient.get<Quote>(url, undefined, {
+      ...callOptions,
+      operation: 'instruments.getQuote',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve quote');
@@ -194,7 +241,7 @@ export class InstrumentsApi {
   /**
    * Get quotes for multiple instruments
    */
-  async getQuotes(symbols: string[]): Promise<Quote[]> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<Quote[]> {
     if (symbols.length === 0) {
       return [];
     }
@@ -207,7 +254,12 @@ export class InstrumentsApi {
       symbols: symbols.join(','),
     };
 
-    const response = await this.httpClient.get<Quote[]>('/quotes', params);
+    const url = this.httpClient.resolveEndpoint('instruments.getQuotes');
+
+    const response = await this.httpClient.get<Quote[]>(url, params, {
+      ...callOptions,
+      operation: 'instruments.getQuotes',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve quotes');
@@ -221,8 +273,13 @@ export class InstrumentsApi {
   /**
    * Get market hours for instrument
    */
-  async getMarketHours(symbol: string): Promise<MarketHours> {
-    const response = await this.httpClient.get<MarketHours>(`/instruments/${symbol}/market-hours`);
+  async getMarketHours(symbol: string, callOptions?: CallOptions): Promise<MarketHours> {
+    const url = this.httpClient.resolveEndpoint('instruments.getMarketHours', { symbol });
+
+    const response = await this.httpClient.get<MarketHours>(url, undefined, {
+      ...callOptions,
+      operation: 'instruments.getMarketHours',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve market hours');
@@ -243,7 +300,8 @@ export class InstrumentsApi {
       fromDate?: number;
       toDate?: number;
       limit?: number;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<HistoricalData> {
     const params = {
       timeframe: options.timeframe,
@@ -252,9 +310,12 @@ export class InstrumentsApi {
       limit: options.limit,
     };
 
+    const url = this.httpClient.resolveEndpoint('instruments.getHistoricalData', { symbol });
+
     const response = await this.httpClient.get<HistoricalData>(
-      `/instruments/${symbol}/history`,
-      params
+      url,
+      params,
+      { ...callOptions, operation: 'instruments.getHistoricalData' }
     );
     
     if (!response.success || !response.data) {
@@ -266,12 +327,27 @@ export class InstrumentsApi {
     return validatedData;
   }
 
+  /**
+   * Download historical data for a long range in chunks, with gap detection
+   * and resume support
+   */
+  async downloadHistoricalData(
+    symbol: string,
+    options: CandleDownloadOptions
+  ): Promise<CandleDownloadResult> {
+    return new CandleDownloader(this).download(symbol, options);
+  }
+
   /**
    * Get price statistics for instrument
    */
-  async getPriceStatistics(symbol: string): Promise<PriceStatistics> {
+  async getPriceStatistics(symbol: string, callOptions?: CallOptions): Promise<PriceStatistics> {
+    const url = this.httpClient.resolveEndpoint('instruments.getPriceStatistics', { symbol });
+
     const response = await this.httpClient.get<PriceStatistics>(
-      `/instruments/${symbol}/statistics`
+      url,
+      undefined,
+      { ...callOptions, operation: 'instruments.getPriceStatistics' }
     );
     
     if (!response.success || !response.data) {
@@ -291,7 +367,8 @@ export class InstrumentsApi {
     options: {
       type?: InstrumentType;
       limit?: number;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<Instrument[]> {
     if (!query.trim()) {
       throw new Error('Search query cannot be empty');
@@ -303,7 +380,12 @@ export class InstrumentsApi {
       limit: Math.min(options.limit ?? 50, 100),
     };
 
-    const response = await this.httpClient.get<Instrument[]>('/instruments/search', params);
+    const url = this.httpClient.resolveEndpoint('instruments.searchInstruments');
+
+    const response = await this.httpClient.get<Instrument[]>(url, params, {
+      ...callOptions,
+      operation: 'instruments.searchInstruments',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to search instruments');
@@ -317,25 +399,35 @@ export class InstrumentsApi {
   /**
    * Get instruments by type
    */
-  async getInstrumentsByType(type: InstrumentType): Promise<Instrument[]> {
-    return this.getInstruments({ type, limit: 100 }).then(result => result.instruments);
+  async getInstrumentsByType(
+    type: InstrumentType,
+    callOptions?: CallOptions
+  ): Promise<Instrument[]> {
+    return this.getInstruments({ type, limit: 100 }, callOptions).then(
+      result => result.instruments
+    );
   }
 
   /**
    * Check if market is open for instrument
    */
-  async isMarketOpen(symbol: string): Promise<{
+  async isMarketOpen(symbol: string, callOptions?: CallOptions): Promise<{
     isOpen: boolean;
     nextOpen?: number;
     nextClose?: number;
     currentSession?: string;
   }> {
+    const url = this.httpClient.resolveEndpoint('instruments.isMarketOpen', { symbol });
+
     const response = await this.httpClient.get<{
       isOpen: boolean;
       nextOpen?: number;
       nextClose?: number;
       currentSession?: string;
-    }>(`/instruments/${symbol}/market-status`);
+    }>(url, undefined, {
+      ...callOptions,
+      operation: 'instruments.isMarketOpen',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve market status');
@@ -361,7 +453,8 @@ export class InstrumentsApi {
       fromTimestamp?: number;
       toTimestamp?: number;
       limit?: number;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<Array<{
     timestamp: number;
     bid: number;
@@ -374,12 +467,17 @@ export class InstrumentsApi {
       limit: Math.min(options.limit ?? 1000, 10000),
     };
 
+    const url = this.httpClient.resolveEndpoint('instruments.getTicks', { symbol });
+
     const response = await this.httpClient.get<Array<{
       timestamp: number;
       bid: number;
       ask: number;
       volume?: number;
-    }>>(`/instruments/${symbol}/ticks`, params);
+    }>>(url, params, {
+      ...callOptions,
+      operation: 'instruments.getTicks',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve tick data');
@@ -4,8 +4,12 @@ import type {
   OrderRequest,
   OrderSide,
 } from '../types/trading.js';
+import type { CallOptions } from '../types/common.js';
 import { OrderSchema, OrderRequestSchema } from '../types/trading.js';
 import { TradingError } from '../errors/index.js';
+import { paginate } from '../utils/pagination.js';
+import type { OrderValidator } from '../core/order-validator.js';
+import type { PaginateOptions } from '../utils/pagination.js';
 import { z } from 'zod';
 
 /**
@@ -110,19 +114,33 @@ export type OrderExecution = z.infer<typeof OrderExecutionSchema>;
  * Orders REST API client
  */
 export class OrdersApi {
-  constructor(private readonly httpClient: HttpClient) {}
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly validator?: OrderValidator
+  ) {}
 
   /**
    * Place a new order
    */
-  async placeOrder(request: OrderRequest, accountId?: string): Promise<Order> {
-    // Validate request
-    const validatedRequest = OrderRequestSchema.parse(request);
+  async placeOrder(
+    request: OrderRequest,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Order> {
+    // Validate request, then check it against the instrument spec
+    const parsedRequest = OrderRequestSchema.parse(request);
+    const validatedRequest = this.validator
+      ? await this.validator.validateOrder(parsedRequest, { signal: callOptions?.signal })
+      : parsedRequest;
     
-    const url = accountId ? `/accounts/${accountId}/orders` : '/orders';
+    const url = this.httpClient.resolveEndpoint('orders.placeOrder', { accountId });
     
     const response = await this.httpClient.post<Order>(url, validatedRequest, {
-      idempotencyKey: request.clientOrderId,
+      ...callOptions,
+      idempotencyKey:
+        callOptions?.idempotencyKey ??
+        this.orderIdempotencyKey('order', request.clientOrderId, accountId),
+      operation: 'orders.placeOrder',
     });
     
     if (!response.success || !response.data) {
@@ -143,22 +161,35 @@ export class OrdersApi {
   /**
    * Place OCO (One-Cancels-Other) order
    */
-  async placeOcoOrder(request: OcoOrderRequest, accountId?: string): Promise<{
+  async placeOcoOrder(
+    request: OcoOrderRequest,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<{
     primaryOrder: Order;
     secondaryOrder: Order;
     ocoGroup: string;
   }> {
-    // Validate request
-    const validatedRequest = OcoOrderRequestSchema.parse(request);
+    this.httpClient.requireFeature('ocoOrders');
+
+    // Validate request, then check it against the instrument spec
+    const parsedRequest = OcoOrderRequestSchema.parse(request);
+    const validatedRequest = this.validator
+      ? await this.validator.validateOcoOrder(parsedRequest, { signal: callOptions?.signal })
+      : parsedRequest;
     
-    const url = accountId ? `/accounts/${accountId}/orders/oco` : '/orders/oco';
+    const url = this.httpClient.resolveEndpoint('orders.placeOcoOrder', { accountId });
     
     const response = await this.httpClient.post<{
       primaryOrder: Order;
       secondaryOrder: Order;
       ocoGroup: string;
     }>(url, validatedRequest, {
-      idempotencyKey: request.clientOrderId,
+      ...callOptions,
+      idempotencyKey:
+        callOptions?.idempotencyKey ??
+        this.orderIdempotencyKey('oco', request.clientOrderId, accountId),
+      operation: 'orders.placeOcoOrder',
     });
     
     if (!response.success || !response.data) {
@@ -184,16 +215,25 @@ export class OrdersApi {
   /**
    * Place bracket order (entry + stop loss + take profit)
    */
-  async placeBracketOrder(request: BracketOrderRequest, accountId?: string): Promise<{
+  async placeBracketOrder(
+    request: BracketOrderRequest,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<{
     entryOrder: Order;
     stopLossOrder: Order;
     takeProfitOrder: Order;
     bracketGroup: string;
   }> {
-    // Validate request
-    const validatedRequest = BracketOrderRequestSchema.parse(request);
+    this.httpClient.requireFeature('bracketOrders');
+
+    // Validate request, then check it against the instrument spec
+    const parsedRequest = BracketOrderRequestSchema.parse(request);
+    const validatedRequest = this.validator
+      ? await this.validator.validateBracketOrder(parsedRequest, { signal: callOptions?.signal })
+      : parsedRequest;
     
-    const url = accountId ? `/accounts/${accountId}/orders/bracket` : '/orders/bracket';
+    const url = this.httpClient.resolveEndpoint('orders.placeBracketOrder', { accountId });
     
     const response = await this.httpClient.post<{
       entryOrder: Order;
@@ -201,7 +241,11 @@ export class OrdersApi {
       takeProfitOrder: Order;
       bracketGroup: string;
     }>(url, validatedRequest, {
-      idempotencyKey: request.clientOrderId,
+      ...callOptions,
+      idempotencyKey:
+        callOptions?.idempotencyKey ??
+        this.orderIdempotencyKey('bracket', request.clientOrderId, accountId),
+      operation: 'orders.placeBracketOrder',
     });
     
     if (!response.success || !response.data) {
@@ -228,10 +272,13 @@ export class OrdersApi {
   /**
    * Get order by ID
    */
-  async getOrder(orderId: string, accountId?: string): Promise<Order> {
-    const url = accountId ? `/accounts/${accountId}/orders/${orderId}` : `/orders/${orderId}`;
+  async getOrder(orderId: string, accountId?: string, callOptions?: CallOptions): Promise<Order> {
+    const url = this.httpClient.resolveEndpoint('orders.getOrder', { accountId, orderId });
     
-    const response = await this.httpClient.get<Order>(url);
+    const response = await this.httpClient.get<Order>(url, undefined, {
+      ...callOptions,
+      operation: 'orders.getOrder',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve order');
@@ -245,7 +292,7 @@ export class OrdersApi {
   /**
    * Get orders with optional filtering
    */
-  async getOrders(query: OrderQuery = { limit: 100 }): Promise<{
+  async getOrders(query: OrderQuery = { limit: 100 }, callOptions?: CallOptions): Promise<{
     orders: Order[];
     pagination?: {
       page: number;
@@ -257,7 +304,7 @@ export class OrdersApi {
     // Validate query parameters
     const validatedQuery = OrderQuerySchema.parse(query);
     
-    const url = query.accountId ? `/accounts/${query.accountId}/orders` : '/orders';
+    const url = this.httpClient.resolveEndpoint('orders.getOrders', { accountId: query.accountId });
     
     // Remove accountId from query params as it's in the URL
     const { accountId, ...params } = validatedQuery;
@@ -270,7 +317,10 @@ export class OrdersApi {
         total: number;
         totalPages: number;
       };
-    }>(url, params);
+    }>(url, params, {
+      ...callOptions,
+      operation: 'orders.getOrders',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve orders');
@@ -290,15 +340,30 @@ export class OrdersApi {
     return validatedData;
   }
 
+  /**
+   * Iterate all orders matching a query, fetching pages lazily.
+   * `query.page` sets the first page.
+   */
+  iterateOrders(
+    query: Partial<OrderQuery> = {},
+    options: PaginateOptions = {},
+    callOptions?: CallOptions
+  ): AsyncGenerator<Order, void, undefined> {
+    return paginate(
+      async page => {
+        const result = await this.getOrders({ limit: 100, ...query, page }, callOptions);
+        return { items: result.orders, pagination: result.pagination };
+      },
+      query.page,
+      options
+    );
+  }
+
   /**
    * Get pending orders
    */
-  async getPendingOrders(accountId?: string): Promise<Order[]> {
-    const result = await this.getOrders({
-      accountId,
-      status: 'PENDING',
-      limit: 100,
-    });
+  async getPendingOrders(accountId?: string, callOptions?: CallOptions): Promise<Order[]> {
+    const result = await this.getOrders({ accountId, status: 'PENDING', limit: 100 }, callOptions);
     
     return result.orders;
   }
@@ -314,7 +379,8 @@ export class OrdersApi {
       toDate?: number;
       page?: number;
       limit?: number;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<{
     orders: Order[];
     pagination?: {
@@ -324,26 +390,32 @@ export class OrdersApi {
       totalPages: number;
     };
   }> {
-    return this.getOrders({
-      ...options,
-      status: 'FILLED',
-      limit: options.limit ?? 100,
-    });
+    return this.getOrders(
+      { ...options, status: 'FILLED', limit: options.limit ?? 100 },
+      callOptions
+    );
   }
 
   /**
    * Modify existing order
    */
-  async modifyOrder(modification: OrderModification, accountId?: string): Promise<Order> {
+  async modifyOrder(
+    modification: OrderModification,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Order> {
     // Validate modification request
     const validatedModification = OrderModificationSchema.parse(modification);
     
-    const url = accountId 
-      ? `/accounts/${accountId}/orders/${modification.orderId}`
-      : `/orders/${modification.orderId}`;
+    const url = this.httpClient.resolveEndpoint('orders.modifyOrder', {
+      accountId,
+      orderId: modification.orderId,
+    });
     
     const response = await this.httpClient.put<Order>(url, validatedModification, {
-      idempotencyKey: `modify-${modification.orderId}-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `modify-${modification.orderId}-${Date.now()}`,
+      operation: 'orders.modifyOrder',
     });
     
     if (!response.success || !response.data) {
@@ -364,13 +436,17 @@ export class OrdersApi {
   /**
    * Cancel order by ID
    */
-  async cancelOrder(orderId: string, accountId?: string): Promise<Order> {
-    const url = accountId 
-      ? `/accounts/${accountId}/orders/${orderId}/cancel`
-      : `/orders/${orderId}/cancel`;
+  async cancelOrder(
+    orderId: string,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Order> {
+    const url = this.httpClient.resolveEndpoint('orders.cancelOrder', { accountId, orderId });
     
     const response = await this.httpClient.post<Order>(url, {}, {
-      idempotencyKey: `cancel-${orderId}-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `cancel-${orderId}-${Date.now()}`,
+      operation: 'orders.cancelOrder',
     });
     
     if (!response.success || !response.data) {
@@ -393,7 +469,8 @@ export class OrdersApi {
    */
   async cancelOrders(
     orderIds: string[],
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<{
     cancelled: Order[];
     failed: Array<{ orderId: string; error: string }>;
@@ -406,13 +483,15 @@ export class OrdersApi {
       throw new Error('Too many orders to cancel (max 100)');
     }
 
-    const url = accountId ? `/accounts/${accountId}/orders/cancel-multiple` : '/orders/cancel-multiple';
+    const url = this.httpClient.resolveEndpoint('orders.cancelOrders', { accountId });
     
     const response = await this.httpClient.post<{
       cancelled: Order[];
       failed: Array<{ orderId: string; error: string }>;
     }>(url, { orderIds }, {
-      idempotencyKey: `cancel-multiple-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `cancel-multiple-${Date.now()}`,
+      operation: 'orders.cancelOrders',
     });
     
     if (!response.success || !response.data) {
@@ -444,14 +523,15 @@ export class OrdersApi {
       accountId?: string;
       symbol?: string;
       side?: OrderSide;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<{
     cancelled: Order[];
     failed: Array<{ orderId: string; error: string }>;
   }> {
-    const url = options.accountId 
-      ? `/accounts/${options.accountId}/orders/cancel-all`
-      : '/orders/cancel-all';
+    const url = this.httpClient.resolveEndpoint('orders.cancelAllOrders', {
+      accountId: options.accountId,
+    });
     
     const params = {
       symbol: options.symbol,
@@ -462,7 +542,9 @@ export class OrdersApi {
       cancelled: Order[];
       failed: Array<{ orderId: string; error: string }>;
     }>(url, params, {
-      idempotencyKey: `cancel-all-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `cancel-all-${Date.now()}`,
+      operation: 'orders.cancelAllOrders',
     });
     
     if (!response.success || !response.data) {
@@ -492,13 +574,18 @@ export class OrdersApi {
    */
   async getOrderExecutions(
     orderId: string,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<OrderExecution[]> {
-    const url = accountId 
-      ? `/accounts/${accountId}/orders/${orderId}/executions`
-      : `/orders/${orderId}/executions`;
+    const url = this.httpClient.resolveEndpoint('orders.getOrderExecutions', {
+      accountId,
+      orderId,
+    });
     
-    const response = await this.httpClient.get<OrderExecution[]>(url);
+    const response = await this.httpClient.get<OrderExecution[]>(url, undefined, {
+      ...callOptions,
+      operation: 'orders.getOrderExecutions',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve order executions');
@@ -512,23 +599,32 @@ export class OrdersApi {
   /**
    * Estimate order (dry run without placing)
    */
-  async estimateOrder(request: OrderRequest, accountId?: string): Promise<{
+  async estimateOrder(
+    request: OrderRequest,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<{
     estimatedPrice: number;
     estimatedCommission: number;
     marginRequired: number;
     estimatedSlippage?: number;
   }> {
+    this.httpClient.requireFeature('orderEstimates');
+
     // Validate request
     const validatedRequest = OrderRequestSchema.parse(request);
     
-    const url = accountId ? `/accounts/${accountId}/orders/estimate` : '/orders/estimate';
+    const url = this.httpClient.resolveEndpoint('orders.estimateOrder', { accountId });
     
     const response = await this.httpClient.post<{
       estimatedPrice: number;
       estimatedCommission: number;
       marginRequired: number;
       estimatedSlippage?: number;
-    }>(url, validatedRequest);
+    }>(url, validatedRequest, {
+      ...callOptions,
+      operation: 'orders.estimateOrder',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to estimate order');
@@ -544,4 +640,16 @@ export class OrdersApi {
 
     return validatedData;
   }
-}
\ No newline at end of file
+
+  /**
+   * Derive a stable idempotency key from the client order ID so the same
+   * logical order is never submitted twice, even across restarts
+   */
+  private orderIdempotencyKey(
+    kind: 'order' | 'oco' | 'bracket',
+    clientOrderId?: string,
+    accountId?: string
+  ): string | undefined {
+    return clientOrderId ? `${kind}:${accountId ?? 'default'}:${clientOrderId}` : undefined;
+  }
+}
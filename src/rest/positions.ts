@@ -1,7 +1,10 @@
 import type { HttpClient } from '../core/http-client.js';
 import type { Position, PositionSide } from '../types/trading.js';
+import type { CallOptions } from '../types/common.js';
 import { PositionSchema } from '../types/trading.js';
 import { TradingError } from '../errors/index.js';
+import { paginate } from '../utils/pagination.js';
+import type { PaginateOptions } from '../utils/pagination.js';
 import { z } from 'zod';
 
 /**
@@ -113,7 +116,7 @@ export class PositionsApi {
   /**
    * Get all positions with optional filtering
    */
-  async getPositions(query: PositionQuery = { limit: 100 }): Promise<{
+  async getPositions(query: PositionQuery = { limit: 100 }, callOptions?: CallOptions): Promise<{
     positions: Position[];
     pagination?: {
       page: number;
@@ -125,7 +128,9 @@ export class PositionsApi {
     // Validate query parameters
     const validatedQuery = PositionQuerySchema.parse(query);
     
-    const url = query.accountId ? `/accounts/${query.accountId}/positions` : '/positions';
+    const url = this.httpClient.resolveEndpoint('positions.getPositions', {
+      accountId: query.accountId,
+    });
     
     // Remove accountId from query params as it's in the URL
     const { accountId, ...params } = validatedQuery;
@@ -138,7 +143,10 @@ export class PositionsApi {
         total: number;
         totalPages: number;
       };
-    }>(url, params);
+    }>(url, params, {
+      ...callOptions,
+      operation: 'positions.getPositions',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve positions');
@@ -158,15 +166,39 @@ export class PositionsApi {
     return validatedData;
   }
 
+  /**
+   * Iterate all positions matching a query, fetching pages lazily.
+   * `query.page` sets the first page.
+   */
+  iteratePositions(
+    query: Partial<PositionQuery> = {},
+    options: PaginateOptions = {},
+    callOptions?: CallOptions
+  ): AsyncGenerator<Position, void, undefined> {
+    return paginate(
+      async page => {
+        const result = await this.getPositions({ limit: 100, ...query, page }, callOptions);
+        return { items: result.positions, pagination: result.pagination };
+      },
+      query.page,
+      options
+    );
+  }
+
   /**
    * Get position by ID
    */
-  async getPosition(positionId: string, accountId?: string): Promise<Position> {
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${positionId}`
-      : `/positions/${positionId}`;
+  async getPosition(
+    positionId: string,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Position> {
+    const url = this.httpClient.resolveEndpoint('positions.getPosition', { accountId, positionId });
     
-    const response = await this.httpClient.get<Position>(url);
+    const response = await this.httpClient.get<Position>(url, undefined, {
+      ...callOptions,
+      operation: 'positions.getPosition',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve position');
@@ -180,12 +212,12 @@ export class PositionsApi {
   /**
    * Get positions for specific symbol
    */
-  async getPositionsBySymbol(symbol: string, accountId?: string): Promise<Position[]> {
-    const result = await this.getPositions({
-      accountId,
-      symbol,
-      limit: 100,
-    });
+  async getPositionsBySymbol(
+    symbol: string,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Position[]> {
+    const result = await this.getPositions({ accountId, symbol, limit: 100 }, callOptions);
     
     return result.positions;
   }
@@ -193,8 +225,8 @@ export class PositionsApi {
   /**
    * Get open positions only
    */
-  async getOpenPositions(accountId?: string): Promise<Position[]> {
-    const result = await this.getPositions({ accountId, limit: 100 });
+  async getOpenPositions(accountId?: string, callOptions?: CallOptions): Promise<Position[]> {
+    const result = await this.getPositions({ accountId, limit: 100 }, callOptions);
     
     // Filter positions with non-zero size
     return result.positions.filter(position => position.size !== 0);
@@ -205,17 +237,23 @@ export class PositionsApi {
    */
   async modifyPosition(
     modification: PositionModification,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<Position> {
     // Validate modification request
     const validatedModification = PositionModificationSchema.parse(modification);
     
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${modification.positionId}`
-      : `/positions/${modification.positionId}`;
+    const url = this.httpClient.resolveEndpoint('positions.modifyPosition', {
+      accountId,
+      positionId: modification.positionId,
+    });
     
     const response = await this.httpClient.put<Position>(url, validatedModification, {
-      idempotencyKey: `modify-position-${modification.positionId}-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey:
+        callOptions?.idempotencyKey ??
+        `modify-position-${modification.positionId}-${Date.now()}`,
+      operation: 'positions.modifyPosition',
     });
     
     if (!response.success || !response.data) {
@@ -237,7 +275,8 @@ export class PositionsApi {
    */
   async closePosition(
     request: PositionCloseRequest,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<{
     position: Position;
     orderId?: string;
@@ -245,15 +284,20 @@ export class PositionsApi {
     // Validate close request
     const validatedRequest = PositionCloseRequestSchema.parse(request);
     
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${request.positionId}/close`
-      : `/positions/${request.positionId}/close`;
+    const url = this.httpClient.resolveEndpoint('positions.closePosition', {
+      accountId,
+      positionId: request.positionId,
+    });
     
     const response = await this.httpClient.post<{
       position: Position;
       orderId?: string;
     }>(url, validatedRequest, {
-      idempotencyKey: `close-position-${request.positionId}-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey:
+        callOptions?.idempotencyKey ??
+        `close-position-${request.positionId}-${Date.now()}`,
+      operation: 'positions.closePosition',
     });
     
     if (!response.success || !response.data) {
@@ -279,7 +323,8 @@ export class PositionsApi {
    */
   async closePositions(
     positionIds: string[],
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<{
     closed: Array<{ position: Position; orderId?: string }>;
     failed: Array<{ positionId: string; error: string }>;
@@ -292,15 +337,15 @@ export class PositionsApi {
       throw new Error('Too many positions to close (max 100)');
     }
 
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/close-multiple`
-      : '/positions/close-multiple';
+    const url = this.httpClient.resolveEndpoint('positions.closePositions', { accountId });
     
     const response = await this.httpClient.post<{
       closed: Array<{ position: Position; orderId?: string }>;
       failed: Array<{ positionId: string; error: string }>;
     }>(url, { positionIds }, {
-      idempotencyKey: `close-multiple-positions-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `close-multiple-positions-${Date.now()}`,
+      operation: 'positions.closePositions',
     });
     
     if (!response.success || !response.data) {
@@ -335,14 +380,15 @@ export class PositionsApi {
       accountId?: string;
       symbol?: string;
       side?: PositionSide;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<{
     closed: Array<{ position: Position; orderId?: string }>;
     failed: Array<{ positionId: string; error: string }>;
   }> {
-    const url = options.accountId 
-      ? `/accounts/${options.accountId}/positions/close-all`
-      : '/positions/close-all';
+    const url = this.httpClient.resolveEndpoint('positions.closeAllPositions', {
+      accountId: options.accountId,
+    });
     
     const params = {
       symbol: options.symbol,
@@ -353,7 +399,9 @@ export class PositionsApi {
       closed: Array<{ position: Position; orderId?: string }>;
       failed: Array<{ positionId: string; error: string }>;
     }>(url, params, {
-      idempotencyKey: `close-all-positions-${Date.now()}`,
+      ...callOptions,
+      idempotencyKey: callOptions?.idempotencyKey ?? `close-all-positions-${Date.now()}`,
+      operation: 'positions.closeAllPositions',
     });
     
     if (!response.success || !response.data) {
@@ -386,13 +434,18 @@ export class PositionsApi {
    */
   async getPositionStatistics(
     positionId: string,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<PositionStatistics> {
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${positionId}/statistics`
-      : `/positions/${positionId}/statistics`;
+    const url = this.httpClient.resolveEndpoint('positions.getPositionStatistics', {
+      accountId,
+      positionId,
+    });
     
-    const response = await this.httpClient.get<PositionStatistics>(url);
+    const response = await this.httpClient.get<PositionStatistics>(url, undefined, {
+      ...callOptions,
+      operation: 'positions.getPositionStatistics',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve position statistics');
@@ -408,13 +461,18 @@ export class PositionsApi {
    */
   async getPositionRisk(
     positionId: string,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<PositionRisk> {
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${positionId}/risk`
-      : `/positions/${positionId}/risk`;
+    const url = this.httpClient.resolveEndpoint('positions.getPositionRisk', {
+      accountId,
+      positionId,
+    });
     
-    const response = await this.httpClient.get<PositionRisk>(url);
+    const response = await this.httpClient.get<PositionRisk>(url, undefined, {
+      ...callOptions,
+      operation: 'positions.getPositionRisk',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve position risk');
@@ -428,12 +486,16 @@ export class PositionsApi {
   /**
    * Get portfolio summary
    */
-  async getPortfolioSummary(accountId?: string): Promise<PortfolioSummary> {
-    const url = accountId 
-      ? `/accounts/${accountId}/portfolio/summary`
-      : '/portfolio/summary';
+  async getPortfolioSummary(
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<PortfolioSummary> {
+    const url = this.httpClient.resolveEndpoint('positions.getPortfolioSummary', { accountId });
     
-    const response = await this.httpClient.get<PortfolioSummary>(url);
+    const response = await this.httpClient.get<PortfolioSummary>(url, undefined, {
+      ...callOptions,
+      operation: 'positions.getPortfolioSummary',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve portfolio summary');
@@ -449,7 +511,8 @@ export class PositionsApi {
    */
   async getNetPosition(
     symbol: string,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<{
     symbol: string;
     netSize: number;
@@ -459,9 +522,7 @@ export class PositionsApi {
     totalMargin: number;
     positionCount: number;
   }> {
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${symbol}/net`
-      : `/positions/${symbol}/net`;
+    const url = this.httpClient.resolveEndpoint('positions.getNetPosition', { accountId, symbol });
     
     const response = await this.httpClient.get<{
       symbol: string;
@@ -471,7 +532,10 @@ export class PositionsApi {
       totalUnrealizedPnl: number;
       totalMargin: number;
       positionCount: number;
-    }>(url);
+    }>(url, undefined, {
+      ...callOptions,
+      operation: 'positions.getNetPosition',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to retrieve net position');
@@ -499,7 +563,8 @@ export class PositionsApi {
     riskAmount: number,
     entryPrice: number,
     stopLossPrice: number,
-    accountId?: string
+    accountId?: string,
+    callOptions?: CallOptions
   ): Promise<{
     positionSize: number;
     marginRequired: number;
@@ -511,15 +576,19 @@ export class PositionsApi {
       stopLossPrice,
     };
 
-    const url = accountId 
-      ? `/accounts/${accountId}/positions/${symbol}/calculate-size`
-      : `/positions/${symbol}/calculate-size`;
+    const url = this.httpClient.resolveEndpoint('positions.calculatePositionSize', {
+      accountId,
+      symbol,
+    });
     
     const response = await this.httpClient.get<{
       positionSize: number;
       marginRequired: number;
       riskReward?: number;
-    }>(url, params);
+    }>(url, params, {
+      ...callOptions,
+      operation: 'positions.calculatePositionSize',
+    });
     
     if (!response.success || !response.data) {
       throw new Error(response.message ?? 'Failed to calculate position size');
@@ -0,0 +1,204 @@
+import type { HttpClient } from '../core/http-client.js';
+import type { CallOptions } from '../types/common.js';
+import { z } from 'zod';
+
+/**
+ * Server time
+ */
+export const ServerTimeSchema = z.object({
+  timestamp: z.number(),
+});
+
+export type ServerTime = z.infer<typeof ServerTimeSchema>;
+
+/**
+ * Scheduled maintenance window
+ */
+export const MaintenanceWindowSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  description: z.string().optional(),
+  /** Affected services, e.g. `trading`; all services when omitted */
+  services: z.array(z.string()).optional(),
+});
+
+export type MaintenanceWindow = z.infer<typeof MaintenanceWindowSchema>;
+
+/**
+ * Platform status
+ */
+export const SystemStatusSchema = z.object({
+  status: z.enum(['OPERATIONAL', 'DEGRADED', 'MAINTENANCE', 'DOWN']),
+  message: z.string().optional(),
+  maintenanceWindows: z.array(MaintenanceWindowSchema).default([]),
+  timestamp: z.number().optional(),
+});
+
+export type SystemStatus = z.infer<typeof SystemStatusSchema>;
+
+/**
+ * API version information
+ */
+export const ApiVersionSchema = z.object({
+  version: z.string(),
+  build: z.string().optional(),
+  /** Optional features the server supports; all known features when omitted */
+  features: z.array(z.string()).optional(),
+});
+
+export type ApiVersion = z.infer<typeof ApiVersionSchema>;
+
+/**
+ * Optional API features the SDK can use
+ */
+export const API_FEATURES = [
+  'trades',
+  'conversionRates',
+  'ocoOrders',
+  'bracketOrders',
+  'orderEstimates',
+  'serverTime',
+] as const;
+
+export type ApiFeature = (typeof API_FEATURES)[number];
+
+/**
+ * Major API version this SDK is written against
+ */
+export const SUPPORTED_API_VERSION = 1;
+
+/**
+ * Outcome of version negotiation
+ */
+export interface NegotiatedFeatures {
+  version: string;
+  /** False if the server's major version differs from SUPPORTED_API_VERSION */
+  compatible: boolean;
+  features: Set<ApiFeature>;
+}
+
+/**
+ * Derive usable features from the version reported by the server
+ */
+export function negotiateFeatures(version: ApiVersion): NegotiatedFeatures {
+  const major = Number.parseInt(version.version.replace(/^v/i, ''), 10);
+  const reported = version.features;
+
+  return {
+    version: version.version,
+    compatible: major === SUPPORTED_API_VERSION,
+    features: new Set(
+      API_FEATURES.filter(feature => !reported || reported.includes(feature))
+    ),
+  };
+}
+
+/**
+ * System REST API client
+ */
+export class SystemApi {
+  constructor(private readonly httpClient: HttpClient) {}
+
+  /**
+   * Get server time in milliseconds since the epoch
+   */
+  async getServerTime(callOptions?: CallOptions): Promise<number> {
+    this.httpClient.requireFeature('serverTime');
+    const url = this.httpClient.resolveEndpoint('system.getServerTime');
+
+    const response = await this.httpClient.get<ServerTime>(url, undefined, {
+      ...callOptions,
+      operation: 'system.getServerTime',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve server time');
+    }
+
+    // Validate response data
+    const validatedData = ServerTimeSchema.parse(response.data);
+    return validatedData.timestamp;
+  }
+
+  /**
+   * Get platform status including scheduled maintenance windows
+   */
+  async getStatus(callOptions?: CallOptions): Promise<SystemStatus> {
+    const url = this.httpClient.resolveEndpoint('system.getStatus');
+
+    const response = await this.httpClient.get<SystemStatus>(url, undefined, {
+      ...callOptions,
+      operation: 'system.getStatus',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve system status');
+    }
+
+    // Validate response data
+    const validatedData = SystemStatusSchema.parse(response.data);
+    return validatedData;
+  }
+
+  /**
+   * Get API version information
+   */
+  async getVersion(callOptions?: CallOptions): Promise<ApiVersion> {
+    const url = this.httpClient.resolveEndpoint('system.getVersion');
+
+    const response = await this.httpClient.get<ApiVersion>(url, undefined, {
+      ...callOptions,
+      operation: 'system.getVersion',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve API version');
+    }
+
+    // Validate response data
+    const validatedData = ApiVersionSchema.parse(response.data);
+    return validatedData;
+  }
+
+  /**
+   * Get maintenance windows that have not ended yet, earliest first
+   */
+  async getMaintenanceWindows(
+    service?: string,
+    callOptions?: CallOptions
+  ): Promise<MaintenanceWindow[]> {
+    const status = await this.getStatus(callOptions);
+    const now = Date.now();
+
+    return status.maintenanceWindows
+      .filter(window => window.end > now && affectsService(window, service))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Check if a service is, or within `lookahead` milliseconds will be, under maintenance
+   */
+  async isUnderMaintenance(
+    options: { service?: string; lookahead?: number } = {},
+    callOptions?: CallOptions
+  ): Promise<boolean> {
+    const status = await this.getStatus(callOptions);
+    if (status.status === 'MAINTENANCE') {
+      return true;
+    }
+
+    const now = Date.now();
+    const until = now + (options.lookahead ?? 0);
+
+    return status.maintenanceWindows.some(
+      window => window.start <= until && window.end > now && affectsService(window, options.service)
+    );
+  }
+}
+
+/**
+ * Check if a maintenance window affects a service
+ */
+function affectsService(window: MaintenanceWindow, service?: string): boolean {
+  return !service || !window.services || window.services.includes(service);
+}
@@ -0,0 +1,229 @@
+import type { HttpClient } from '../core/http-client.js';
+import type { Order, Trade } from '../types/trading.js';
+import type { CallOptions } from '../types/common.js';
+import { TradeSchema } from '../types/trading.js';
+import { OrdersApi } from './orders.js';
+import { paginate } from '../utils/pagination.js';
+import type { PaginateOptions } from '../utils/pagination.js';
+import { isNetworkError } from '../errors/index.js';
+import { z } from 'zod';
+
+/**
+ * Trade query filters
+ */
+export const TradeQuerySchema = z.object({
+  accountId: z.string().optional(),
+  symbol: z.string().optional(),
+  orderId: z.string().optional(),
+  positionId: z.string().optional(),
+  side: z.enum(['BUY', 'SELL']).optional(),
+  fromDate: z.number().optional(),
+  toDate: z.number().optional(),
+  page: z.number().min(1).optional(),
+  limit: z.number().min(1).max(1000).default(100),
+});
+
+export type TradeQuery = z.infer<typeof TradeQuerySchema>;
+
+/**
+ * Trade joined with the order that produced it
+ */
+export type TradeWithOrder = Trade & {
+  /** Undefined when the server no longer knows the order */
+  order?: Order;
+};
+
+/**
+ * Options for joining trades with their orders
+ */
+export interface TradeJoinOptions {
+  /** Orders missing from the order pages fetched in parallel, defaults to 4 */
+  concurrency?: number;
+}
+
+/**
+ * Trades REST API client
+ */
+export class TradesApi {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly orders: OrdersApi = new OrdersApi(httpClient)
+  ) {}
+
+  /**
+   * Get trades (fills) with optional filtering
+   */
+  async getTrades(query: TradeQuery = { limit: 100 }, callOptions?: CallOptions): Promise<{
+    trades: Trade[];
+    pagination?: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    this.httpClient.requireFeature('trades');
+
+    // Validate query parameters
+    const validatedQuery = TradeQuerySchema.parse(query);
+
+    // Remove accountId from query params as it's in the URL
+    const { accountId, ...params } = validatedQuery;
+    const url = this.httpClient.resolveEndpoint('trades.getTrades', { accountId });
+
+    const response = await this.httpClient.get<{
+      trades: Trade[];
+      pagination?: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+      };
+    }>(url, params, {
+      ...callOptions,
+      operation: 'trades.getTrades',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve trades');
+    }
+
+    // Validate response data
+    const validatedData = z.object({
+      trades: z.array(TradeSchema),
+      pagination: z.object({
+        page: z.number(),
+        limit: z.number(),
+        total: z.number(),
+        totalPages: z.number(),
+      }).optional(),
+    }).parse(response.data);
+
+    return validatedData;
+  }
+
+  /**
+   * Iterate all trades matching a query, fetching pages lazily.
+   * `query.page` sets the first page.
+   */
+  iterateTrades(
+    query: Partial<TradeQuery> = {},
+    options: PaginateOptions = {},
+    callOptions?: CallOptions
+  ): AsyncGenerator<Trade, void, undefined> {
+    return paginate(
+      async page => {
+        const result = await this.getTrades({ limit: 100, ...query, page }, callOptions);
+        return { items: result.trades, pagination: result.pagination };
+      },
+      query.page,
+      options
+    );
+  }
+
+  /**
+   * Get trade by ID
+   */
+  async getTrade(tradeId: string, accountId?: string, callOptions?: CallOptions): Promise<Trade> {
+    this.httpClient.requireFeature('trades');
+    const url = this.httpClient.resolveEndpoint('trades.getTrade', { accountId, tradeId });
+
+    const response = await this.httpClient.get<Trade>(url, undefined, {
+      ...callOptions,
+      operation: 'trades.getTrade',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message ?? 'Failed to retrieve trade');
+    }
+
+    // Validate response data
+    const validatedData = TradeSchema.parse(response.data);
+    return validatedData;
+  }
+
+  /**
+   * Get all fills of an order
+   */
+  async getTradesByOrder(
+    orderId: string,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Trade[]> {
+    return this.collect({ orderId, accountId }, callOptions);
+  }
+
+  /**
+   * Get all fills that opened, changed or closed a position
+   */
+  async getTradesByPosition(
+    positionId: string,
+    accountId?: string,
+    callOptions?: CallOptions
+  ): Promise<Trade[]> {
+    return this.collect({ positionId, accountId }, callOptions);
+  }
+
+  /**
+   * Get all trades matching a query, each joined with its originating order.
+   *
+   * Orders are read from the order pages of the same account, symbol and
+   * period. Orders placed outside that period are fetched one by one, a few
+   * at a time; orders the server reports as not found are left undefined.
+   */
+  async getTradesWithOrders(
+    query: Partial<TradeQuery> = {},
+    options: TradeJoinOptions = {},
+    callOptions?: CallOptions
+  ): Promise<TradeWithOrder[]> {
+    const trades = await this.collect(query, callOptions);
+    const orderIds = new Set(trades.map(trade => trade.orderId));
+    const orders = new Map<string, Order>();
+
+    if (orderIds.size > 0) {
+      const { accountId, symbol, fromDate, toDate } = query;
+      for await (const order of this.orders.iterateOrders(
+        { accountId, symbol, fromDate, toDate, limit: 1000 },
+        {},
+        callOptions
+      )) {
+        if (orderIds.has(order.id)) {
+          orders.set(order.id, order);
+        }
+      }
+    }
+
+    const missing = [...orderIds].filter(orderId => !orders.has(orderId));
+    const worker = async (): Promise<void> => {
+      for (let orderId = missing.shift(); orderId; orderId = missing.shift()) {
+        const accountId = trades.find(trade => trade.orderId === orderId)?.accountId;
+        try {
+          orders.set(
+            orderId,
+            await this.orders.getOrder(orderId, accountId ?? query.accountId, callOptions)
+          );
+        } catch (error) {
+          if (!isNetworkError(error) || error.statusCode !== 404) {
+            throw error;
+          }
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(options.concurrency ?? 4, missing.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return trades.map(trade => ({ ...trade, order: orders.get(trade.orderId) }));
+  }
+
+  /**
+   * Fetch every page of a trade query
+   */
+  private async collect(query: Partial<TradeQuery>, callOptions?: CallOptions): Promise<Trade[]> {
+    const trades: Trade[] = [];
+    for await (const trade of this.iterateTrades(query, {}, callOptions)) {
+      trades.push(trade);
+    }
+    return trades;
+  }
+}
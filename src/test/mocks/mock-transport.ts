@@ -0,0 +1,49 @@
+import { vi } from 'vitest';
+import { HttpClient } from '../../core/http-client.js';
+import { SDKConfigSchema } from '../../types/common.js';
+import type { SDKConfig } from '../../types/common.js';
+
+/**
+ * Base URL of the broker used by REST tests
+ */
+export const TEST_BASE_URL = 'https://broker.example.com/api';
+
+/**
+ * Create a JSON response
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Mock transport wrapping handler results in a successful API response.
+ * Responses returned by the handler are sent unchanged.
+ */
+export function mockTransport(handler: (url: string, init?: RequestInit) => unknown = () => null) {
+  return vi.fn(async (url: string, init?: RequestInit): Promise<Response> => {
+    const result = await handler(url, init);
+    return result instanceof Response ? result : jsonResponse({ success: true, data: result });
+  });
+}
+
+/**
+ * Create an HttpClient for the test broker without clock sync
+ */
+export function createTestHttpClient(
+  transport: SDKConfig['transport'],
+  config: Partial<SDKConfig> = {}
+): HttpClient {
+  return new HttpClient(
+    SDKConfigSchema.parse({
+      environment: 'demo',
+      auth: { type: 'bearer', token: 'test-token' },
+      baseUrl: TEST_BASE_URL,
+      features: { clockSync: false },
+      transport,
+      ...config,
+    })
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BarAggregator, resampleHistoricalData, ticksToBars } from '../../utils/bar-aggregator.js';
+import { TradingCalendar } from '../../utils/trading-calendar.js';
+import { ValidationError } from '../../errors/index.js';
+
+describe('BarAggregator', () => {
+  const minute = 60 * 1000;
+  const start = Date.UTC(2024, 0, 2);
+
+  it('should build time and tick bars from ticks and emit closed bars', () => {
+    const ticks = [0, 0.5, 1.2, 1.8, 3.1].map((offset, i) => ({
+      timestamp: start + offset * minute,
+      bid: 1.1 + i * 0.001,
+      ask: 1.1002 + i * 0.001,
+    }));
+    const aggregator = new BarAggregator({ bar: { type: 'time', timeframe: 'M1' }, price: 'bid' });
+    const closed = vi.fn();
+    aggregator.on('bar', closed);
+
+    ticks.forEach(tick => aggregator.addTick(tick));
+    expect(closed).toHaveBeenCalledTimes(2);
+    expect(closed.mock.calls[0]?.[0]).toEqual({
+      timestamp: start,
+      open: 1.1,
+      high: 1.101,
+      low: 1.1,
+      close: 1.101,
+      volume: undefined,
+      tickVolume: 2,
+    });
+
+    aggregator.advance(start + 4 * minute);
+    expect(closed).toHaveBeenCalledTimes(3);
+    expect(closed.mock.calls[2]?.[0]).toMatchObject({ timestamp: start + 3 * minute });
+
+    const tickBars = ticksToBars(ticks, { bar: { type: 'tick', ticks: 2 } });
+    expect(tickBars.map(bar => bar.tickVolume)).toEqual([2, 2, 1]);
+    expect(tickBars[0]?.open).toBeCloseTo(1.1001);
+  });
+
+  it('should resample bars aligned to session open', () => {
+    const calendar = new TradingCalendar({
+      symbol: 'EURUSD',
+      timezone: 'America/New_York',
+      sessions: [{ name: 'FX', start: '17:00', end: '17:00', days: [0, 1, 2, 3, 4] }],
+      holidays: [],
+    });
+    // Hourly bars from Tuesday 00:00 to Wednesday 00:00 UTC; the session rolls at 22:00 UTC
+    const bars = Array.from({ length: 24 }, (_, hour) => ({
+      timestamp: start + hour * 60 * minute,
+      open: hour,
+      high: hour + 0.5,
+      low: hour - 0.5,
+      close: hour + 0.25,
+      volume: 10,
+    }));
+
+    const daily = resampleHistoricalData({ symbol: 'EURUSD', timeframe: 'H1', bars }, 'D1', calendar);
+
+    expect(daily.timeframe).toBe('D1');
+    expect(daily.bars).toEqual([
+      {
+        timestamp: start - 2 * 60 * minute,
+        open: 0,
+        high: 21.5,
+        low: -0.5,
+        close: 21.25,
+        volume: 220,
+      },
+      {
+        timestamp: start + 22 * 60 * minute,
+        open: 22,
+        high: 23.5,
+        low: 21.5,
+        close: 23.25,
+        volume: 20,
+      },
+    ]);
+    expect(() => resampleHistoricalData(daily, 'H1')).toThrow(ValidationError);
+  });
+});
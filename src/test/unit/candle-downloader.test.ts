@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CandleDownloader } from '../../utils/candle-downloader.js';
+import { NetworkError, ValidationError } from '../../errors/index.js';
+
+describe('CandleDownloader', () => {
+  const minute = 60 * 1000;
+  const start = Date.UTC(2024, 0, 2);
+  const createInstruments = (missing: number[] = []) => ({
+    // Like many servers, returns bars up to and including toDate
+    getHistoricalData: vi.fn(
+      async (symbol: string, options: { fromDate: number; toDate: number }) => {
+        const bars = [];
+        for (let timestamp = options.fromDate; timestamp <= options.toDate; timestamp += minute) {
+          if (!missing.includes(timestamp)) {
+            bars.push({ timestamp, open: 1, high: 1, low: 1, close: 1 });
+          }
+        }
+        return { symbol, timeframe: 'M1', bars };
+      }
+    ),
+  });
+
+  it('should download in chunks, dedupe overlaps, retry and report gaps', async () => {
+    const instruments = createInstruments([start + 7 * minute]);
+    instruments.getHistoricalData.mockRejectedValueOnce(new NetworkError('reset'));
+    const onChunk = vi.fn();
+
+    const result = await new CandleDownloader(instruments).download('EURUSD', {
+      timeframe: 'M1',
+      from: start,
+      to: start + 12 * minute,
+      chunkSize: 5,
+      concurrency: 1,
+      retryDelay: 0,
+      onChunk,
+    });
+
+    expect(result.bars.map(bar => (bar.timestamp - start) / minute)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 8, 9, 10, 11,
+    ]);
+    expect(result.gaps).toEqual([{ from: start + 7 * minute, to: start + 8 * minute }]);
+    expect(result.failed).toEqual([]);
+    expect(instruments.getHistoricalData).toHaveBeenCalledTimes(4);
+    expect(onChunk).toHaveBeenLastCalledWith(
+      expect.objectContaining({ completedChunks: 3, totalChunks: 3 })
+    );
+  });
+
+  it('should resume from a checkpoint', async () => {
+    const instruments = createInstruments();
+    const downloader = new CandleDownloader(instruments);
+    const options = { timeframe: 'M1' as const, from: start, to: start + 10 * minute, chunkSize: 5 };
+    const checkpoint = {
+      symbol: 'EURUSD',
+      timeframe: 'M1' as const,
+      completed: [{ from: start, to: start + 5 * minute }],
+      gaps: [],
+    };
+
+    const result = await downloader.download('EURUSD', { ...options, checkpoint });
+
+    expect(instruments.getHistoricalData).toHaveBeenCalledTimes(1);
+    expect(result.bars).toHaveLength(5);
+    expect(result.checkpoint.completed).toHaveLength(2);
+    await expect(downloader.download('GBPUSD', { ...options, checkpoint })).rejects.toThrow(
+      ValidationError
+    );
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { DXTradeClient, createDemoClient, createLiveClient } from '../../client.js';
 import { MockWebSocketServer, MockFetch, MockHttpResponse } from '../mocks/mock-server.js';
+import { jsonResponse } from '../mocks/mock-transport.js';
 import type { DXTradeClientConfig } from '../../client.js';
 
 // Mock global fetch
@@ -69,6 +70,9 @@ describe('DXTradeClient', () => {
       expect(client.instruments).toBeDefined();
       expect(client.orders).toBeDefined();
       expect(client.positions).toBeDefined();
+      expect(client.trades).toBeDefined();
+      expect(client.conversionRates).toBeDefined();
+      expect(client.system).toBeDefined();
       expect(client.push).toBeDefined();
     });
 
@@ -144,8 +148,15 @@ describe('DXTradeClient', () => {
 
   describe('health check', () => {
     it('should perform comprehensive health check', async () => {
-      // Mock health endpoint
-      mockFetch.mockResponse('/health', new MockHttpResponse(200, { status: 'ok' }));
+      // Mock platform status endpoint
+      mockFetch.mockResponse(
+        '/status',
+        new MockHttpResponse(
+          200,
+          { success: true, data: { status: 'OPERATIONAL' } },
+          { 'content-type': 'application/json' }
+        )
+      );
 
       const health = await client.healthCheck();
 
@@ -160,8 +171,46 @@ describe('DXTradeClient', () => {
       }
     });
 
+    const createRestClient = (handler: (path: string) => Response) =>
+      new DXTradeClient({
+        ...config,
+        features: { clockSync: false, websocket: false, autoReconnect: false },
+        transport: async url => handler(new URL(url).pathname),
+      });
+
+    it('should report unhealthy while the platform is under maintenance', async () => {
+      const restClient = createRestClient(() =>
+        jsonResponse({ success: true, data: { status: 'MAINTENANCE' } })
+      );
+
+      const health = await restClient.healthCheck();
+
+      expect(health.http.healthy).toBe(true);
+      expect(health.platform?.status).toBe('MAINTENANCE');
+      expect(health.overall).toBe(false);
+      restClient.destroy();
+    });
+
+    it('should fall back to the health endpoint without a status endpoint', async () => {
+      const paths: string[] = [];
+      const restClient = createRestClient(path => {
+        paths.push(path);
+        return path.endsWith('/health')
+          ? jsonResponse({ status: 'ok' })
+          : jsonResponse({ error: 'Not found' }, 404);
+      });
+
+      const health = await restClient.healthCheck();
+
+      expect(health.http).toMatchObject({ healthy: true, error: undefined });
+      expect(health.platform).toBeUndefined();
+      expect(health.overall).toBe(true);
+      expect(paths.map(path => path.split('/').pop())).toEqual(['status', 'health']);
+      restClient.destroy();
+    });
+
     it('should handle HTTP health check failure', async () => {
-      mockFetch.mockResponse('/health', new MockHttpResponse(500, { error: 'Server error' }));
+      mockFetch.mockResponse('/status', new MockHttpResponse(500, { error: 'Server error' }));
 
       const health = await client.healthCheck();
 
@@ -228,6 +277,9 @@ describe('DXTradeClient', () => {
       expect(client.instruments).toBeDefined();
       expect(client.orders).toBeDefined();
       expect(client.positions).toBeDefined();
+      expect(client.trades).toBeDefined();
+      expect(client.conversionRates).toBeDefined();
+      expect(client.system).toBeDefined();
     });
 
     it('should have WebSocket client when enabled', () => {
@@ -240,6 +292,9 @@ describe('DXTradeClient', () => {
       expect((client.instruments as any).httpClient).toBe(client.http);
       expect((client.orders as any).httpClient).toBe(client.http);
       expect((client.positions as any).httpClient).toBe(client.http);
+      expect((client.trades as any).httpClient).toBe(client.http);
+      expect((client.conversionRates as any).httpClient).toBe(client.http);
+      expect((client.system as any).httpClient).toBe(client.http);
     });
   });
 
@@ -345,6 +400,76 @@ describe('DXTradeClient', () => {
     });
   });
 
+  describe('logout and shutdown', () => {
+    beforeEach(() => {
+      client.destroy();
+      client = new DXTradeClient({
+        ...config,
+        features: { clockSync: false },
+        enablePushAPI: false,
+      });
+      client.setSessionToken('session-token');
+    });
+
+    it('should cancel orders, close streams and log out on shutdown', async () => {
+      mockFetch.mockResponse('/orders/cancel-all', new MockHttpResponse(200, {
+        cancelled: [],
+        failed: [{ orderId: 'order-1', error: 'Order already filled' }],
+      }, { 'content-type': 'application/json' }));
+      mockFetch.mockResponse('/logout', new MockHttpResponse(200, {}));
+
+      const stream = client.createDXTradeStream();
+      const disconnect = vi.spyOn(stream, 'disconnect');
+
+      const result = await client.shutdown({ cancelOrders: true });
+
+      expect(result.loggedOut).toBe(true);
+      expect(result.closedStreams).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.message).toContain('order-1');
+      expect(disconnect).toHaveBeenCalled();
+      expect(client.http.getSessionToken()).toBeUndefined();
+
+      const urls = mockFetch.getRequestLog().map(request => request.url);
+      expect(urls.findIndex(url => url.includes('/orders/cancel-all'))).toBeLessThan(
+        urls.findIndex(url => url.includes('/logout'))
+      );
+    });
+
+    it('should clear the local session when logout fails', async () => {
+      mockFetch.mockResponse('/logout', new MockHttpResponse(500, { error: 'Server error' }));
+
+      await expect(client.logout()).rejects.toThrow();
+      expect(client.http.getSessionToken()).toBeUndefined();
+    });
+
+    it('should close the push connection and streams on logout', async () => {
+      client.destroy();
+      client = new DXTradeClient({ ...config, features: { clockSync: false } });
+      client.setSessionToken('session-token');
+      mockFetch.mockResponse('/logout', new MockHttpResponse(200, {}));
+
+      const disconnect = vi.spyOn(client.push!, 'disconnect');
+      const close = vi.spyOn(client.stream!, 'close');
+
+      await client.logout();
+
+      expect(disconnect).toHaveBeenCalled();
+      expect(close).toHaveBeenCalled();
+      expect(client.http.getSessionToken()).toBeUndefined();
+    });
+
+    it('should install and remove signal handlers', () => {
+      const before = process.listenerCount('SIGTERM');
+
+      const remove = client.installShutdownHooks({ signals: ['SIGTERM'] });
+      expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+
+      remove();
+      expect(process.listenerCount('SIGTERM')).toBe(before);
+    });
+  });
+
   describe('configuration validation', () => {
     it('should validate WebSocket configuration', () => {
       const invalidConfig = {
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { ConversionRatesApi } from '../../rest/conversion-rates.js';
+import { CurrencyConverter } from '../../utils/currency-converter.js';
+import { MarketDataError } from '../../errors/index.js';
+import {
+  TEST_BASE_URL,
+  createTestHttpClient,
+  jsonResponse,
+  mockTransport,
+} from '../mocks/mock-transport.js';
+
+describe('CurrencyConverter', () => {
+  it('should convert through REST rates, live quotes and cross rates', async () => {
+    const rates = [
+      { fromCurrency: 'GBP', toCurrency: 'USD', rate: 1.25 },
+      { fromCurrency: 'USD', toCurrency: 'CHF', rate: 0.9 },
+    ];
+    const transport = mockTransport(() => rates);
+    const converter = new CurrencyConverter({
+      accountCurrency: 'JPY',
+      ratesApi: new ConversionRatesApi(createTestHttpClient(transport)),
+    });
+
+    await converter.refresh();
+    converter.updateQuote({ symbol: 'USD/JPY', bid: 149.9, ask: 150.1, timestamp: Date.now() });
+
+    expect(transport.mock.calls[0]?.[0]).toBe(`${TEST_BASE_URL}/conversionRates`);
+    expect(converter.convert(100, 'GBP')).toBeCloseTo(18750);
+    expect(converter.convert(150, 'JPY', 'CHF')).toBeCloseTo(0.9);
+    expect(() => converter.convert(1, 'AUD')).toThrow('No conversion rate from AUD to JPY');
+
+    const pnl = converter.convertPositionPnl({
+      id: 'p1',
+      symbol: 'EURCHF',
+      side: 'LONG',
+      size: 1000,
+      entryPrice: 0.95,
+      markPrice: 0.96,
+      unrealizedPnl: 9,
+      realizedPnl: 0,
+      margin: 30,
+      commission: 0,
+      openTime: 1700000000000,
+    });
+    expect(pnl.currency).toBe('JPY');
+    expect(pnl.unrealizedPnl).toBeCloseTo(1500);
+  });
+
+  it('should ignore rates older than the maximum age', () => {
+    const now = Date.now();
+    const converter = new CurrencyConverter({ accountCurrency: 'USD', maxAge: 60_000 });
+    converter.setRate('EUR', 'USD', 1.1, now - 120_000);
+    converter.setRate('GBP', 'EUR', 1.15, now);
+
+    expect(converter.getRate('EUR')).toBeUndefined();
+    // Stale rates are not used as a leg of a cross rate either
+    expect(converter.getRate('GBP')).toBeUndefined();
+    expect(() => converter.convert(1, 'GBP')).toThrow(MarketDataError);
+
+    converter.setRate('EUR', 'USD', 1.2, now);
+    expect(converter.getRate('GBP')).toBeCloseTo(1.38);
+  });
+
+  it('should keep live quotes fresher than refreshed REST rates', async () => {
+    const now = Date.now();
+    let rates = [{ fromCurrency: 'USD', toCurrency: 'JPY', rate: 140, timestamp: now - 60_000 }];
+    const converter = new CurrencyConverter({
+      accountCurrency: 'JPY',
+      ratesApi: new ConversionRatesApi(createTestHttpClient(mockTransport(() => rates))),
+    });
+
+    converter.updateQuote({ symbol: 'USD/JPY', bid: 149.9, ask: 150.1, timestamp: now });
+    await converter.refresh();
+    expect(converter.getRate('USD')).toBe(150);
+    expect(converter.getRate('JPY', 'USD')).toBeCloseTo(1 / 150);
+
+    rates = [{ fromCurrency: 'USD', toCurrency: 'JPY', rate: 151, timestamp: now + 1000 }];
+    await converter.refresh();
+    expect(converter.getRate('USD')).toBe(151);
+  });
+
+  it('should keep known rates when a refresh fails', async () => {
+    const transport = mockTransport(() =>
+      jsonResponse({ success: false, message: 'Rates unavailable' })
+    );
+    const converter = new CurrencyConverter({
+      accountCurrency: 'USD',
+      ratesApi: new ConversionRatesApi(createTestHttpClient(transport)),
+    });
+    converter.setRate('EUR', 'USD', 1.1);
+
+    await expect(converter.refresh()).rejects.toThrow('Rates unavailable');
+    expect(converter.getRate('EUR')).toBe(1.1);
+    await expect(new CurrencyConverter({ accountCurrency: 'USD' }).refresh()).rejects.toThrow(
+      MarketDataError
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { DXTradeStreamManager } from '../../websocket/dxtrade-stream-manager.js';
+import { MarketDataError } from '../../errors/index.js';
+import type { AddressInfo } from 'net';
+
+describe('DXTradeStreamManager', () => {
+  let server: WebSocketServer;
+  let requests: any[];
+  let reject: Set<string>;
+  let streamManager: DXTradeStreamManager;
+
+  beforeEach(async () => {
+    requests = [];
+    reject = new Set();
+    server = new WebSocketServer({ port: 0 });
+    await new Promise(resolve => server.once('listening', resolve));
+
+    server.on('connection', (ws: WebSocket) => {
+      ws.on('message', data => {
+        const request = JSON.parse(data.toString());
+        requests.push(request);
+
+        const failed = request.payload.symbols.some((symbol: string) => reject.has(symbol));
+        ws.send(JSON.stringify({
+          type: 'SubscriptionResponse',
+          requestId: request.requestId,
+          success: !failed,
+          error: failed ? 'Unknown symbol' : undefined,
+        }));
+      });
+    });
+
+    const url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+    streamManager = new DXTradeStreamManager(
+      { environment: 'demo', auth: { type: 'session', token: 'token' } },
+      { marketDataUrl: url, portfolioUrl: url, account: 'default:demo', sessionToken: 'token' },
+      { symbols: ['EUR/USD'], enablePortfolio: false, autoReconnect: false }
+    );
+  });
+
+  afterEach(async () => {
+    streamManager.destroy();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('dynamic symbols', () => {
+    it('should subscribe and unsubscribe only the difference', async () => {
+      await streamManager.connect();
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+      expect(requests[0].payload.symbols).toEqual(['EUR/USD']);
+
+      const change = await streamManager.setSymbols(['EUR/USD', 'GBP/USD', 'USD/JPY']);
+      expect(change).toEqual({ added: ['GBP/USD', 'USD/JPY'], removed: [], acknowledged: true });
+
+      await streamManager.setSymbols(['GBP/USD']);
+      expect(requests.slice(1).map(({ type, payload }) => [type, payload.symbols])).toEqual([
+        ['MarketDataSubscriptionRequest', ['GBP/USD', 'USD/JPY']],
+        ['UnsubscribeRequest', ['EUR/USD', 'USD/JPY']],
+      ]);
+      expect(streamManager.getSymbols()).toEqual(['GBP/USD']);
+    });
+
+    it('should drop symbols the server rejects and queue changes while disconnected', async () => {
+      reject.add('BAD');
+
+      await expect(streamManager.addSymbols(['XAU/USD'])).resolves.toMatchObject({
+        acknowledged: false,
+      });
+      expect(requests).toHaveLength(0);
+
+      await streamManager.connect();
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+      expect(requests[0].payload.symbols).toEqual(['EUR/USD', 'XAU/USD']);
+
+      await expect(streamManager.addSymbols(['BAD'])).rejects.toThrow(MarketDataError);
+      expect(streamManager.getSymbols()).toEqual(['EUR/USD', 'XAU/USD']);
+    });
+
+    it('should keep symbols whose unsubscribe the server rejects', async () => {
+      await streamManager.connect();
+      await streamManager.addSymbols(['XAU/USD']);
+      reject.add('XAU/USD');
+
+      await expect(streamManager.removeSymbols(['XAU/USD'])).rejects.toThrow(MarketDataError);
+      expect(streamManager.getSymbols()).toEqual(['EUR/USD', 'XAU/USD']);
+
+      reject.clear();
+      await expect(streamManager.removeSymbols(['XAU/USD'])).resolves.toMatchObject({
+        removed: ['XAU/USD'],
+        acknowledged: true,
+      });
+    });
+
+    it('should share symbols between handles and the subscription set', async () => {
+      await streamManager.connect();
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+      const handle = streamManager.quotes(['EUR/USD', 'XAU/USD']);
+      await vi.waitFor(() => expect(requests).toHaveLength(2));
+      expect(requests[1].payload.symbols).toEqual(['XAU/USD']);
+
+      await expect(streamManager.removeSymbols(['EUR/USD'])).resolves.toMatchObject({
+        removed: [],
+      });
+      expect(streamManager.getSymbols()).toEqual(['EUR/USD', 'XAU/USD']);
+
+      handle.dispose();
+      await vi.waitFor(() => expect(requests).toHaveLength(3));
+      expect(requests[2]).toMatchObject({
+        type: 'UnsubscribeRequest',
+        payload: { symbols: ['EUR/USD', 'XAU/USD'] },
+      });
+      expect(streamManager.getSymbols()).toEqual([]);
+    });
+
+    it('should iterate quotes for the requested symbols only', async () => {
+      await streamManager.connect();
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+      const iterator = streamManager.streamQuotes('XAU/USD');
+      await vi.waitFor(() => expect(requests).toHaveLength(2));
+
+      const quote = (symbol: string, bid: number) => JSON.stringify({
+        type: 'MarketData',
+        payload: { symbol, bid },
+      });
+      server.clients.forEach(client => {
+        client.send(quote('EUR/USD', 1.1));
+        client.send(quote('XAU/USD', 2400));
+      });
+
+      const { value } = await iterator.next();
+      expect(value?.payload).toEqual({ symbol: 'XAU/USD', bid: 2400 });
+
+      await iterator.return();
+      await vi.waitFor(() => expect(requests).toHaveLength(3));
+      expect(requests[2]).toMatchObject({
+        type: 'UnsubscribeRequest',
+        payload: { symbols: ['XAU/USD'] },
+      });
+    });
+  });
+});
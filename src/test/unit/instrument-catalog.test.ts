@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InstrumentCatalog } from '../../core/instrument-catalog.js';
+import { MarketDataError } from '../../errors/index.js';
+import type { InstrumentSpec, InstrumentsApi } from '../../rest/instruments.js';
+import type { Instrument } from '../../types/trading.js';
+
+describe('InstrumentCatalog', () => {
+  const instrument = (
+    symbol: string,
+    baseAsset: string,
+    quoteAsset: string,
+    type: Instrument['type'] = 'FOREX'
+  ): Instrument => ({
+    symbol,
+    name: symbol,
+    type,
+    baseAsset,
+    quoteAsset,
+    minSize: 1000,
+    maxSize: 1000000,
+    stepSize: 1000,
+    tickSize: 0.00001,
+    digits: 5,
+    tradable: true,
+  });
+  const spec = (symbol: string, maxLeverage = 30): InstrumentSpec => ({
+    ...instrument(symbol, 'EUR', 'USD'),
+    contractSize: 100000,
+    pointValue: 1,
+    hedging: true,
+    maxLeverage,
+  });
+  const createCatalog = () => {
+    const api = {
+      iterateInstruments: vi.fn(async function* () {
+        yield instrument('EURUSD.m', 'EUR', 'USD');
+        yield instrument('XAUUSD', 'XAU', 'USD', 'COMMODITY');
+        yield instrument('EURGBP', 'EUR', 'GBP');
+      }),
+      getInstrumentSpec: vi.fn(async (symbol: string) => spec(symbol)),
+      getMarketHours: vi.fn(async () => {
+        throw new Error('not under test');
+      }),
+    } satisfies Pick<InstrumentsApi, 'iterateInstruments' | 'getInstrumentSpec' | 'getMarketHours'>;
+    const catalog = new InstrumentCatalog(api, { aliases: { GOLD: 'XAUUSD' } });
+    return { catalog, api };
+  };
+
+  it('should normalize symbols, aliases and asset pairs to canonical symbols', async () => {
+    const { catalog, api } = createCatalog();
+    expect(catalog.normalize('EURUSD')).toBeUndefined();
+
+    await Promise.all([catalog.load(), catalog.ensureLoaded()]);
+
+    expect(api.iterateInstruments).toHaveBeenCalledTimes(1);
+    expect(['eurusd', 'EUR/USD', 'EURUSD.m', 'eurusd.m'].map(s => catalog.normalize(s))).toEqual([
+      'EURUSD.m',
+      'EURUSD.m',
+      'EURUSD.m',
+      'EURUSD.m',
+    ]);
+    expect(await catalog.resolve('gold')).toBe('XAUUSD');
+    await expect(catalog.resolve('USDJPY')).rejects.toThrow(MarketDataError);
+    expect(catalog.findByAsset('EUR', 'base').map(({ symbol }) => symbol)).toEqual([
+      'EURUSD.m',
+      'EURGBP',
+    ]);
+    expect(catalog.findByType('COMMODITY').map(({ symbol }) => symbol)).toEqual(['XAUUSD']);
+    expect(catalog.findPair('eur', 'gbp')?.symbol).toBe('EURGBP');
+  });
+
+  it('should cache specs under the canonical symbol', async () => {
+    const { catalog, api } = createCatalog();
+
+    await catalog.getInstrumentSpec('EUR/USD');
+    await catalog.getInstrumentSpec('eurusd');
+
+    expect(api.getInstrumentSpec).toHaveBeenCalledTimes(1);
+    expect(api.getInstrumentSpec).toHaveBeenCalledWith('EURUSD.m', undefined);
+  });
+
+  it('should serve expired data while refreshing it in the background', async () => {
+    const { catalog, api } = createCatalog();
+    await catalog.getInstrumentSpec('EURUSD');
+
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 60 * 1000 });
+    try {
+      let release!: (spec: InstrumentSpec) => void;
+      api.getInstrumentSpec.mockImplementationOnce(
+        () => new Promise(resolve => (release = resolve))
+      );
+
+      // Resolves from the expired cache without waiting for either reload
+      expect(await catalog.getInstrumentSpec('EURUSD')).toEqual(spec('EURUSD.m'));
+      expect(api.iterateInstruments).toHaveBeenCalledTimes(2);
+      expect(api.getInstrumentSpec).toHaveBeenCalledTimes(2);
+
+      release(spec('EURUSD.m', 50));
+      await vi.waitFor(async () =>
+        expect(await catalog.getInstrumentSpec('EURUSD')).toMatchObject({ maxLeverage: 50 })
+      );
+      expect(api.getInstrumentSpec).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
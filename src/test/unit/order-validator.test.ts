@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OrdersApi } from '../../rest/orders.js';
+import type { InstrumentsApi } from '../../rest/instruments.js';
+import { OrderValidator } from '../../core/order-validator.js';
+import { InstrumentCatalog } from '../../core/instrument-catalog.js';
+import { ValidationError } from '../../errors/index.js';
+import { createTestHttpClient, jsonResponse, mockTransport } from '../mocks/mock-transport.js';
+
+describe('OrderValidator', () => {
+  const spec = {
+    symbol: 'EURUSD',
+    name: 'Euro vs US Dollar',
+    type: 'FOREX' as const,
+    baseAsset: 'EUR',
+    quoteAsset: 'USD',
+    minSize: 1000,
+    maxSize: 1000000,
+    stepSize: 1000,
+    tickSize: 0.00001,
+    digits: 5,
+    tradable: true,
+    contractSize: 100000,
+    pointValue: 1,
+    hedging: true,
+    maxLeverage: 30,
+  };
+  const createOrdersApi = (mode: 'reject' | 'round') => {
+    const transport = mockTransport(() =>
+      jsonResponse({ success: false, message: 'not under test' })
+    );
+    const client = createTestHttpClient(transport);
+    const getInstrumentSpec = vi.fn(async () => spec);
+    const api: Pick<InstrumentsApi, 'iterateInstruments' | 'getInstrumentSpec' | 'getMarketHours'> =
+      {
+        iterateInstruments: async function* () {
+          yield spec;
+        },
+        getInstrumentSpec,
+        getMarketHours: async () => {
+          throw new Error('not under test');
+        },
+      };
+    const catalog = new InstrumentCatalog(api);
+    const validator = new OrderValidator(catalog, { mode });
+    return { orders: new OrdersApi(client, validator), transport, getInstrumentSpec };
+  };
+
+  it('should reject invalid orders per field without sending them', async () => {
+    const { orders, transport } = createOrdersApi('reject');
+
+    const error = await orders
+      .placeOrder({
+        symbol: 'EURUSD',
+        side: 'BUY',
+        type: 'LIMIT',
+        quantity: 1500,
+        timeInForce: 'GTC',
+        stopLoss: 1.1,
+        takeProfit: 1.09,
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors.map(({ field }) => field)).toEqual([
+      'price',
+      'quantity',
+      'stopLoss',
+    ]);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('should round bracket orders to the instrument grid', async () => {
+    const { orders, transport, getInstrumentSpec } = createOrdersApi('round');
+    const bracket = {
+      symbol: 'EURUSD',
+      side: 'SELL' as const,
+      quantity: 2400,
+      entryOrder: { type: 'LIMIT' as const, price: 1.123456 },
+      stopLoss: 1.130004,
+      takeProfit: 1.110006,
+      timeInForce: 'GTC' as const,
+    };
+
+    await expect(orders.placeBracketOrder(bracket)).rejects.toThrow('not under test');
+    await expect(orders.placeBracketOrder(bracket)).rejects.toThrow('not under test');
+
+    const body = JSON.parse(transport.mock.calls[0]?.[1]?.body as string);
+    expect(body).toMatchObject({
+      quantity: 2000,
+      entryOrder: { price: 1.12346 },
+      stopLoss: 1.13,
+      takeProfit: 1.11001,
+    });
+    expect(getInstrumentSpec).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require both prices on stop-limit OCO legs', async () => {
+    const { orders, transport } = createOrdersApi('reject');
+    const oco = {
+      symbol: 'EURUSD',
+      side: 'BUY' as const,
+      quantity: 1000,
+      timeInForce: 'GTC' as const,
+    };
+
+    const error = await orders
+      .placeOcoOrder({
+        ...oco,
+        primaryOrder: { type: 'STOP_LIMIT', price: 1.09 },
+        secondaryOrder: { type: 'STOP_LIMIT', stopPrice: 1.11 },
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors.map(({ field }) => field)).toEqual([
+      'primaryOrder.stopPrice',
+      'secondaryOrder.price',
+    ]);
+
+    await expect(
+      orders.placeOcoOrder({
+        ...oco,
+        primaryOrder: { type: 'STOP_LIMIT', price: 1.09, stopPrice: 1.091 },
+        secondaryOrder: { type: 'STOP_LIMIT', price: 1.111, stopPrice: 1.11 },
+      })
+    ).rejects.toThrow('not under test');
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject OCO legs on the wrong side of each other', async () => {
+    const { orders, transport } = createOrdersApi('reject');
+    const legs = {
+      primaryOrder: { type: 'LIMIT' as const, price: 1.11 },
+      secondaryOrder: { type: 'STOP' as const, stopPrice: 1.09 },
+      timeInForce: 'GTC' as const,
+    };
+
+    const error = await orders
+      .placeOcoOrder({ symbol: 'EURUSD', side: 'BUY', quantity: 1000, ...legs })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual([
+      {
+        field: 'secondaryOrder.stopPrice',
+        message: 'secondaryOrder.stopPrice must be above primaryOrder.price 1.11 for BUY',
+      },
+    ]);
+    expect(transport).not.toHaveBeenCalled();
+
+    await expect(
+      orders.placeOcoOrder({ symbol: 'EURUSD', side: 'SELL', quantity: 1000, ...legs })
+    ).rejects.toThrow('not under test');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AccountsApi } from '../../rest/accounts.js';
+import { paginate } from '../../utils/pagination.js';
+import { createTestHttpClient, jsonResponse, mockTransport } from '../mocks/mock-transport.js';
+
+describe('pagination', () => {
+  const createPagedClient = (failPage?: number) => {
+    const transport = mockTransport(url => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      if (page === failPage) {
+        return jsonResponse({ success: false, message: 'History unavailable' });
+      }
+      const entries = [1, 2].map(n => ({
+        id: `${page}-${n}`,
+        accountId: 'ACC1',
+        type: 'TRADE',
+        amount: n,
+        currency: 'USD',
+        timestamp: 1700000000000,
+      }));
+      return { entries, pagination: { page, limit: 2, total: 6, totalPages: 3 } };
+    });
+    return { accounts: new AccountsApi(createTestHttpClient(transport)), transport };
+  };
+
+  it('should fetch every page lazily', async () => {
+    const { accounts, transport } = createPagedClient();
+    const ids: string[] = [];
+
+    for await (const entry of accounts.iterateAccountHistory({ limit: 2 })) {
+      ids.push(entry.id);
+    }
+
+    expect(ids).toEqual(['1-1', '1-2', '2-1', '2-2', '3-1', '3-2']);
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop fetching when the consumer breaks', async () => {
+    const { accounts, transport } = createPagedClient();
+
+    for await (const entry of accounts.iterateAccountHistory({ limit: 2, page: 2 })) {
+      expect(entry.id).toBe('2-1');
+      break;
+    }
+    expect(transport).toHaveBeenCalledTimes(1);
+
+    const prefetching = accounts.iterateAccountHistory({ limit: 2 }, { prefetch: true });
+    await prefetching.next();
+    await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(3));
+    await prefetching.return();
+  });
+
+  it('should stop after the page limit', async () => {
+    const { accounts, transport } = createPagedClient();
+    const ids: string[] = [];
+
+    for await (const entry of accounts.iterateAccountHistory({ limit: 2 }, { maxPages: 2 })) {
+      ids.push(entry.id);
+    }
+
+    expect(ids).toEqual(['1-1', '1-2', '2-1', '2-2']);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject after the items fetched before a failed page', async () => {
+    const { accounts, transport } = createPagedClient(2);
+    const ids: string[] = [];
+
+    await expect(async () => {
+      for await (const entry of accounts.iterateAccountHistory({ limit: 2 })) {
+        ids.push(entry.id);
+      }
+    }).rejects.toThrow('History unavailable');
+
+    expect(ids).toEqual(['1-1', '1-2']);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop fetching pages once the call is aborted', async () => {
+    const { accounts, transport } = createPagedClient();
+    const controller = new AbortController();
+    const iterator = accounts.iterateAccountHistory(
+      { limit: 2 },
+      {},
+      { signal: controller.signal }
+    );
+
+    await iterator.next();
+    await iterator.next();
+    controller.abort(new Error('Stopped'));
+
+    await expect(iterator.next()).rejects.toThrow('Stopped');
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end after a single page without pagination info', async () => {
+    const fetchPage = vi.fn(async () => ({ items: [1, 2] }));
+    const items: number[] = [];
+
+    for await (const item of paginate(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { SystemApi, negotiateFeatures } from '../../rest/system.js';
+import { ConversionRatesApi } from '../../rest/conversion-rates.js';
+import { OrdersApi } from '../../rest/orders.js';
+import { FeatureNotSupportedError } from '../../errors/index.js';
+import { createTestHttpClient, jsonResponse, mockTransport } from '../mocks/mock-transport.js';
+
+describe('SystemApi', () => {
+  it('should detect upcoming maintenance windows per service', async () => {
+    const now = Date.now();
+    const status = {
+      status: 'OPERATIONAL',
+      maintenanceWindows: [
+        { start: now + 60_000, end: now + 120_000, services: ['trading'] },
+        { start: now - 120_000, end: now - 60_000 },
+      ],
+    };
+    const transport = mockTransport(() => status);
+    const system = new SystemApi(
+      createTestHttpClient(transport, { urls: { status: 'https://status.example.com/platform' } })
+    );
+
+    expect(await system.isUnderMaintenance({ service: 'trading' })).toBe(false);
+    expect(await system.isUnderMaintenance({ service: 'trading', lookahead: 90_000 })).toBe(true);
+    expect(await system.isUnderMaintenance({ service: 'marketData', lookahead: 90_000 })).toBe(
+      false
+    );
+    expect(await system.getMaintenanceWindows()).toHaveLength(1);
+    expect(transport.mock.calls[0]?.[0]).toBe('https://status.example.com/platform');
+  });
+
+  it('should reject unavailable or malformed platform status', async () => {
+    const responses = [
+      jsonResponse({ success: false, message: 'Status unavailable' }),
+      jsonResponse({ success: false, message: 'Not found' }, 404),
+      jsonResponse({ success: true, data: { status: 'UNKNOWN', maintenanceWindows: [] } }),
+    ];
+    const system = new SystemApi(createTestHttpClient(mockTransport(() => responses.shift())));
+
+    await expect(system.getStatus()).rejects.toThrow('Status unavailable');
+    await expect(system.getStatus()).rejects.toMatchObject({
+      name: 'NetworkError',
+      statusCode: 404,
+    });
+    await expect(system.isUnderMaintenance()).rejects.toThrow();
+  });
+
+  it('should negotiate features from the reported version', () => {
+    const negotiated = negotiateFeatures({ version: '1.4.2', features: ['trades', 'serverTime'] });
+    expect(negotiated.compatible).toBe(true);
+    expect([...negotiated.features]).toEqual(['trades', 'serverTime']);
+
+    expect(negotiateFeatures({ version: 'v2.0' }).compatible).toBe(false);
+    expect(negotiateFeatures({ version: '1.0' }).features.has('conversionRates')).toBe(true);
+  });
+
+  it('should reject calls to features the server does not support', async () => {
+    const transport = mockTransport();
+    const client = createTestHttpClient(transport);
+    client.setNegotiatedFeatures(negotiateFeatures({ version: '1.2', features: ['trades'] }));
+
+    await expect(new ConversionRatesApi(client).getConversionRates()).rejects.toThrow(
+      FeatureNotSupportedError
+    );
+    await expect(
+      new OrdersApi(client).estimateOrder({
+        symbol: 'EURUSD',
+        side: 'BUY',
+        type: 'MARKET',
+        quantity: 1000,
+        timeInForce: 'GTC',
+      })
+    ).rejects.toThrow("API feature 'orderEstimates' is not supported by the server");
+    expect(transport).not.toHaveBeenCalled();
+    expect(client.supportsFeature('trades')).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { TradesApi } from '../../rest/trades.js';
+import {
+  TEST_BASE_URL,
+  createTestHttpClient,
+  jsonResponse,
+  mockTransport,
+} from '../mocks/mock-transport.js';
+
+describe('TradesApi', () => {
+  const trade = (id: string, orderId: string) => ({
+    id,
+    orderId,
+    accountId: 'ACC1',
+    symbol: 'EURUSD',
+    side: 'BUY',
+    quantity: 1000,
+    price: 1.1,
+    commission: 0.5,
+    timestamp: 1700000000000,
+  });
+  const order = (id: string) => ({
+    id,
+    symbol: 'EURUSD',
+    side: 'BUY',
+    type: 'MARKET',
+    quantity: 2000,
+    status: 'FILLED',
+    timeInForce: 'GTC',
+    filledQuantity: 2000,
+    remainingQuantity: 0,
+    createdAt: 1700000000000,
+  });
+  const createTradesApi = (
+    trades: Array<ReturnType<typeof trade>>,
+    listed: string[],
+    getOrder: (orderId: string) => unknown = order
+  ) => {
+    const transport = mockTransport(url => {
+      const path = new URL(url).pathname;
+      const orderId = /\/orders\/([^/]+)$/.exec(path)?.[1];
+      if (orderId) {
+        return getOrder(orderId);
+      }
+      return path.endsWith('/orders') ? { orders: listed.map(order) } : { trades };
+    });
+    return { trades: new TradesApi(createTestHttpClient(transport)), transport };
+  };
+
+  it('should join trades with orders from the order pages and fetch older orders once', async () => {
+    const { trades, transport } = createTradesApi(
+      [trade('t1', 'o1'), trade('t2', 'o2'), trade('t3', 'o2')],
+      ['o1', 'o9']
+    );
+
+    const joined = await trades.getTradesWithOrders({ accountId: 'ACC1', fromDate: 1700000000000 });
+
+    expect(joined.map(({ id, order }) => [id, order?.id])).toEqual([
+      ['t1', 'o1'],
+      ['t2', 'o2'],
+      ['t3', 'o2'],
+    ]);
+    const urls = transport.mock.calls.map(([url]) => url.split('?')[0]);
+    expect(urls).toEqual([
+      `${TEST_BASE_URL}/accounts/ACC1/trades`,
+      `${TEST_BASE_URL}/accounts/ACC1/orders`,
+      `${TEST_BASE_URL}/accounts/ACC1/orders/o2`,
+    ]);
+    expect(transport.mock.calls[1]?.[0]).toContain('fromDate=1700000000000');
+  });
+
+  it('should bound parallel order fetches and leave unknown orders undefined', async () => {
+    let active = 0;
+    let peak = 0;
+    const { trades, transport } = createTradesApi(
+      ['o1', 'o2', 'o3', 'o4', 'o5'].map((orderId, i) => trade(`t${i}`, orderId)),
+      [],
+      async orderId => {
+        peak = Math.max(peak, ++active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return orderId === 'o3'
+          ? jsonResponse({ success: false, message: 'Order not found' }, 404)
+          : order(orderId);
+      }
+    );
+
+    const joined = await trades.getTradesWithOrders({ accountId: 'ACC1' }, { concurrency: 2 });
+
+    expect(joined.map(({ order }) => order?.id)).toEqual(['o1', 'o2', undefined, 'o4', 'o5']);
+    expect(peak).toBe(2);
+    expect(transport).toHaveBeenCalledTimes(7);
+  });
+
+  it('should stop fetching orders once the call is aborted', async () => {
+    const controller = new AbortController();
+    const { trades, transport } = createTradesApi(
+      ['o1', 'o2', 'o3'].map((orderId, i) => trade(`t${i}`, orderId)),
+      [],
+      orderId => {
+        controller.abort(new Error('Reconciliation cancelled'));
+        return order(orderId);
+      }
+    );
+
+    await expect(
+      trades.getTradesWithOrders(
+        { accountId: 'ACC1' },
+        { concurrency: 1 },
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow('Reconciliation cancelled');
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject when the trades cannot be retrieved', async () => {
+    const transport = mockTransport(() =>
+      jsonResponse({ success: false, message: 'Trade history unavailable' })
+    );
+    const trades = new TradesApi(createTestHttpClient(transport));
+
+    await expect(trades.getTradesWithOrders({ accountId: 'ACC1' })).rejects.toThrow(
+      'Trade history unavailable'
+    );
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMarginRate,
+  calculateMargin,
+  calculatePipValue,
+  calculatePositionSize,
+  calculateProtectionValue,
+} from '../../utils/trading-calculators.js';
+import { CurrencyConverter } from '../../utils/currency-converter.js';
+import { ValidationError } from '../../errors/index.js';
+
+describe('trading calculators', () => {
+  const fxSpec = (symbol: string, quoteAsset: string, digits: number) => ({
+    symbol,
+    name: symbol,
+    type: 'FOREX' as const,
+    baseAsset: symbol.slice(0, 3),
+    quoteAsset,
+    minSize: 1000,
+    maxSize: 1000000,
+    stepSize: 1000,
+    tickSize: 1 / 10 ** digits,
+    digits,
+    tradable: true,
+    contractSize: 100000,
+    pointValue: 100000 / 10 ** digits,
+    hedging: true,
+    maxLeverage: 30,
+  });
+  const eurusd = fxSpec('EURUSD', 'USD', 5);
+
+  it('should calculate margin, pip value and protection amounts', () => {
+    expect(calculateMargin(eurusd, 100000, 1.1, { leverage: 50 })).toEqual({
+      marginRequired: expect.closeTo(3666.67, 2),
+      marginCurrency: 'USD',
+      marginRate: 1 / 30,
+    });
+    expect(calculatePipValue(eurusd, 1, { quantityUnit: 'lots' })).toEqual({
+      pipSize: 0.0001,
+      pipValue: expect.closeTo(10, 8),
+      pointValue: expect.closeTo(1, 8),
+      currency: 'USD',
+    });
+
+    const converter = new CurrencyConverter({ accountCurrency: 'USD' });
+    converter.setRate('USD', 'JPY', 150);
+    const usdjpy = fxSpec('USDJPY', 'JPY', 3);
+    expect(calculatePipValue(usdjpy, 100000, { converter }).pipValue).toBeCloseTo(6.667, 3);
+
+    expect(
+      calculateProtectionValue(eurusd, {
+        side: 'SELL',
+        quantity: 10000,
+        entryPrice: 1.1,
+        stopLoss: 1.105,
+        takeProfit: 1.09,
+      })
+    ).toEqual({
+      stopLossAmount: expect.closeTo(50, 8),
+      takeProfitAmount: expect.closeTo(100, 8),
+      riskReward: expect.closeTo(2, 8),
+      currency: 'USD',
+    });
+  });
+
+  it('should use the instrument margin rate without a leverage bound', () => {
+    const cfd = { ...eurusd, maxLeverage: 0, marginRate: 0.02 };
+
+    expect(getMarginRate(cfd)).toBe(0.02);
+    expect(getMarginRate(cfd, 20)).toBe(0.05);
+    expect(getMarginRate(cfd, 100)).toBe(0.02);
+    expect(getMarginRate({ ...eurusd, maxLeverage: 0 })).toBe(1);
+  });
+
+  it('should size positions to a risk amount', () => {
+    const result = calculatePositionSize(eurusd, 100, 1.1, 1.095);
+
+    expect(result.positionSize).toBe(20000);
+    expect(result.riskAmount).toBeCloseTo(100, 8);
+    expect(result.marginRequired).toBeCloseTo(733.33, 2);
+    expect(calculatePositionSize(eurusd, 1, 1.1, 1.095).positionSize).toBe(0);
+    expect(() => calculatePositionSize(eurusd, 100, 1.1, 1.1)).toThrow(ValidationError);
+  });
+});
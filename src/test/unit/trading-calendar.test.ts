@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { TradingCalendar } from '../../utils/trading-calendar.js';
+
+describe('TradingCalendar', () => {
+  it('should follow DST changes and skip holidays', () => {
+    const calendar = new TradingCalendar({
+      symbol: 'AAPL',
+      timezone: 'America/New_York',
+      sessions: [{ name: 'Regular', start: '09:30', end: '16:00', days: [1, 2, 3, 4, 5] }],
+      holidays: ['2024-03-11'],
+    });
+
+    // Friday before the switch to daylight saving time
+    expect(calendar.getStatus(Date.parse('2024-03-08T15:00:00Z'))).toEqual({
+      isOpen: true,
+      currentSession: 'Regular',
+      nextClose: Date.parse('2024-03-08T21:00:00Z'),
+      nextOpen: Date.parse('2024-03-12T13:30:00Z'),
+      timeToClose: 6 * 60 * 60 * 1000,
+    });
+    expect(calendar.isOpen(Date.parse('2024-03-11T15:00:00Z'))).toBe(false);
+  });
+
+  it('should join back-to-back overnight sessions', () => {
+    const calendar = new TradingCalendar({
+      symbol: 'EURUSD',
+      timezone: 'America/New_York',
+      sessions: [{ name: 'FX', start: '17:00', end: '17:00', days: [0, 1, 2, 3, 4] }],
+      holidays: [],
+    });
+
+    const status = calendar.getStatus(Date.parse('2024-03-06T12:00:00Z'));
+    expect(status.isOpen).toBe(true);
+    expect(status.nextClose).toBe(Date.parse('2024-03-08T22:00:00Z'));
+    expect(status.nextOpen).toBe(Date.parse('2024-03-10T21:00:00Z'));
+    expect(calendar.isOpen(Date.parse('2024-03-09T12:00:00Z'))).toBe(false);
+  });
+});
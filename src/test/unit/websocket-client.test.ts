@@ -1,8 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PushClient } from '../../websocket/push-client.js';
+import { PushStreams } from '../../websocket/push-streams.js';
+import { OrderBookManager } from '../../websocket/order-book-manager.js';
+import { AsyncStream } from '../../utils/async-stream.js';
+import type { AsyncStreamOptions, AsyncStreamSink } from '../../utils/async-stream.js';
 import { MockWebSocketServer } from '../mocks/mock-server.js';
-import { WebSocketError, AuthError } from '../../errors/index.js';
+import {
+  WebSocketError,
+  AuthError,
+  StreamOverflowError,
+  ValidationError,
+  MarketDataError,
+} from '../../errors/index.js';
 import type { PushClientConfig } from '../../websocket/push-client.js';
+import type { SubscriptionRequest, UnsubscriptionRequest } from '../../types/websocket.js';
+import type { WebSocket } from 'ws';
 
 describe('PushClient', () => {
   let mockServer: MockWebSocketServer;
@@ -251,6 +263,96 @@ describe('PushClient', () => {
       await unsubscribed;
     });
 
+    it('should keep shared symbols subscribed until the last handle is disposed', async () => {
+      const sent: Array<[string, string[]]> = [];
+      mockServer.on('subscribe', (_client, _channel, symbols) => sent.push(['subscribe', symbols]));
+      mockServer.on('unsubscribe', (_client, _channel, symbols) => sent.push(['unsubscribe', symbols]));
+
+      const chart = pushClient.quotes('EURUSD');
+      const ticker = pushClient.quotes(['EURUSD', 'GBPUSD']);
+      expect(pushClient.getSubscriberCount('quotes', 'EURUSD')).toBe(2);
+
+      chart.dispose();
+      chart.dispose();
+      expect(pushClient.getSubscriberCount('quotes', 'EURUSD')).toBe(1);
+
+      const unsubscribed = new Promise<void>((resolve) => {
+        pushClient.once('unsubscribed', () => resolve());
+      });
+      ticker.dispose();
+      await unsubscribed;
+
+      expect(sent).toEqual([
+        ['subscribe', ['EURUSD']],
+        ['subscribe', ['GBPUSD']],
+        ['unsubscribe', ['EURUSD', 'GBPUSD']],
+      ]);
+      expect(pushClient.getSubscriptions()).toHaveLength(0);
+    });
+
+    it('should unsubscribe account channels per account', async () => {
+      const sent: Array<SubscriptionRequest | UnsubscriptionRequest> = [];
+      mockServer.on('message', (_client, message) => {
+        if (message.type === 'SUBSCRIBE' || message.type === 'UNSUBSCRIBE') {
+          sent.push(message);
+        }
+      });
+
+      const blotter = pushClient.subscribeToOrders('ACC1');
+      const risk = pushClient.subscribeToOrders('ACC1');
+      const other = pushClient.subscribeToOrders('ACC2');
+      blotter.dispose();
+      risk.dispose();
+
+      await vi.waitFor(() => expect(sent).toHaveLength(3));
+      expect(sent.map(({ type, params }) => [type, params])).toEqual([
+        ['SUBSCRIBE', { accountId: 'ACC1' }],
+        ['SUBSCRIBE', { accountId: 'ACC2' }],
+        ['UNSUBSCRIBE', { accountId: 'ACC1' }],
+      ]);
+      expect(other.disposed).toBe(false);
+      expect(pushClient.getSubscriberCount('orders', 'ACC2')).toBe(1);
+    });
+
+    it('should subscribe to held channels again after a reconnect', async () => {
+      const sent: SubscriptionRequest[] = [];
+      let connection: WebSocket | undefined;
+      mockServer.on('message', (client, message) => {
+        connection = client;
+        if (message.type === 'SUBSCRIBE') {
+          sent.push(message);
+        }
+      });
+
+      pushClient.quotes('EURUSD');
+      pushClient.subscribeToOrderBook({
+        symbols: ['EURUSD', 'GBPUSD'],
+        depth: 5,
+        aggregateLevel: 0,
+        includeStats: false,
+      });
+      pushClient.subscribeToPositions('ACC1');
+      await vi.waitFor(() => expect(sent).toHaveLength(3));
+      sent.length = 0;
+
+      const reconnected = new Promise<void>(resolve => pushClient.once('reconnected', resolve));
+      mockServer.disconnectClient(connection!, 4000, 'Connection lost');
+      await reconnected;
+
+      await vi.waitFor(() => expect(sent).toHaveLength(3));
+      expect(sent.map(({ channel, symbols, params }) => ({ channel, symbols, params }))).toEqual(
+        expect.arrayContaining([
+          { channel: 'quotes', symbols: ['EURUSD'], params: undefined },
+          {
+            channel: 'orderbook',
+            symbols: ['EURUSD', 'GBPUSD'],
+            params: { depth: 5, aggregateLevel: 0 },
+          },
+          { channel: 'positions', symbols: undefined, params: { accountId: 'ACC1' } },
+        ])
+      );
+    });
+
     it('should validate subscription parameters', () => {
       expect(() => {
         pushClient.subscribeToQuotes([]);
@@ -262,6 +364,62 @@ describe('PushClient', () => {
     });
   });
 
+  describe('async streams', () => {
+    it('should iterate quotes and release the subscription when the loop exits', async () => {
+      await pushClient.connect();
+      await new Promise<void>((resolve) => {
+        pushClient.once('authenticated', () => resolve());
+      });
+
+      const unsubscribed = new Promise<string[]>((resolve) => {
+        mockServer.once('unsubscribe', (_client, _channel, symbols) => resolve(symbols));
+      });
+
+      const quotes: string[] = [];
+      for await (const quote of new PushStreams(pushClient).quotes('EURUSD')) {
+        quotes.push(quote.symbol);
+        if (quotes.length === 2) {
+          break;
+        }
+      }
+
+      expect(quotes).toEqual(['EURUSD', 'EURUSD']);
+      expect(pushClient.getSubscriberCount('quotes', 'EURUSD')).toBe(0);
+      expect(await unsubscribed).toEqual(['EURUSD']);
+    });
+
+    it('should conflate order updates per order and skip other accounts', async () => {
+      const stream = new PushStreams(pushClient).orders({
+        accountId: 'ACC1',
+        bufferSize: 2,
+        overflow: 'conflate',
+      });
+      const order = (id: string, accountId: string, filledQuantity: number) => ({
+        id,
+        accountId,
+        symbol: 'EURUSD',
+        status: 'PARTIALLY_FILLED' as const,
+        filledQuantity,
+        remainingQuantity: 1000 - filledQuantity,
+        timestamp: Date.now(),
+      });
+
+      pushClient.emit('order', order('o1', 'ACC1', 100));
+      pushClient.emit('order', order('o2', 'ACC1', 200));
+      pushClient.emit('order', order('o3', 'ACC2', 300));
+      pushClient.emit('order', order('o1', 'ACC1', 400));
+
+      expect(pushClient.getSubscriberCount('orders', 'ACC1')).toBe(1);
+      const updates = [(await stream.next()).value, (await stream.next()).value];
+      expect(updates.map(({ id, filledQuantity }) => [id, filledQuantity])).toEqual([
+        ['o1', 400],
+        ['o2', 200],
+      ]);
+      expect(stream.dropped).toBe(1);
+      stream.close();
+    });
+  });
+
   describe('heartbeat mechanism', () => {
     beforeEach(async () => {
       await pushClient.connect();
@@ -493,4 +651,286 @@ describe('PushClient', () => {
       expect(pushClient.isReady()).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('PushClient update conflation', () => {
+  let pushClient: PushClient;
+
+  const receive = (message: unknown) => (pushClient as any).handleMessage(message);
+  const quote = (symbol: string, bid: number) =>
+    receive({ type: 'QUOTE', data: { symbol, bid, ask: bid + 1, timestamp: bid } });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pushClient = new PushClient({
+      websocket: { url: 'ws://localhost:1' },
+      auth: { type: 'bearer', token: 'test-token' },
+      bufferInterval: 100,
+      conflateUpdates: true,
+      maxBufferSize: 2,
+    } as PushClientConfig);
+    receive({ type: 'AUTH', data: {} });
+  });
+
+  afterEach(() => {
+    pushClient.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should deliver the latest quote per symbol between flushes', () => {
+    const bids: number[] = [];
+    pushClient.on('quote', data => bids.push(data.bid));
+
+    [1, 2, 3].forEach(bid => quote('EURUSD', bid));
+    quote('GBPUSD', 4);
+    vi.advanceTimersByTime(100);
+
+    expect(bids).toEqual([3, 4]);
+    expect(pushClient.getStats()).toMatchObject({ conflatedUpdates: 2, bufferSize: 0 });
+
+    // Trades are never conflated, only capped
+    [1, 2, 3].forEach(id =>
+      receive({
+        type: 'TRADE',
+        data: { id: String(id), symbol: 'EURUSD', price: 1, quantity: 1, side: 'BUY', timestamp: id },
+      })
+    );
+    expect(pushClient.getStats().droppedUpdates).toBe(1);
+  });
+
+  it('should let each listener choose every-tick or conflated delivery', () => {
+    const everyTick: number[] = [];
+    const conflated: number[] = [];
+    pushClient.onMarketData('quote', data => everyTick.push(data.bid));
+    const stop = pushClient.onMarketData('quote', data => conflated.push(data.bid), {
+      delivery: 'conflated',
+    });
+
+    [1, 2, 3].forEach(bid => quote('EURUSD', bid));
+    expect(everyTick).toEqual([1, 2, 3]);
+    expect(conflated).toEqual([]);
+
+    vi.advanceTimersByTime(100);
+    expect(conflated).toEqual([3]);
+
+    stop();
+    quote('EURUSD', 5);
+    vi.advanceTimersByTime(100);
+    expect(conflated).toEqual([3]);
+    expect(everyTick).toEqual([1, 2, 3, 5]);
+  });
+
+  it('should never conflate order book updates', () => {
+    const sequences: number[] = [];
+    pushClient.on('orderbook', data => sequences.push(data.sequence ?? 0));
+
+    [1, 2].forEach(sequence =>
+      receive({
+        type: 'ORDER_BOOK',
+        data: { symbol: 'EURUSD', bids: [], asks: [], timestamp: 1, sequence, snapshot: false },
+      })
+    );
+    vi.advanceTimersByTime(100);
+
+    expect(sequences).toEqual([1, 2]);
+    expect(() =>
+      pushClient.onMarketData('orderbook', () => {}, { delivery: 'conflated' })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('OrderBookManager', () => {
+  let pushClient: PushClient;
+  let books: OrderBookManager;
+  let backfill: ReturnType<typeof vi.spyOn>;
+
+  const book = (data: Record<string, unknown>) =>
+    (pushClient as any).handleMessage({
+      type: 'ORDER_BOOK',
+      data: { symbol: 'EURUSD', bids: [], asks: [], timestamp: 1, ...data },
+    });
+
+  beforeEach(() => {
+    pushClient = new PushClient({
+      websocket: { url: 'ws://localhost:1', enableBackfill: true },
+      auth: { type: 'bearer', token: 'test-token' },
+      bufferUpdates: false,
+    } as PushClientConfig);
+    backfill = vi.spyOn(pushClient, 'requestBackfill').mockImplementation(() => {});
+    books = new OrderBookManager(pushClient);
+  });
+
+  afterEach(() => {
+    books.destroy();
+    pushClient.destroy();
+  });
+
+  it('should apply snapshots and incremental updates and answer depth queries', () => {
+    book({
+      sequence: 1,
+      bids: [[1.1, 2], [1.09, 3]],
+      asks: [[1.12, 1], [1.13, 4]],
+    });
+    book({ sequence: 2, snapshot: false, bids: [[1.09, 0], [1.08, 5]], asks: [[1.11, 1]] });
+
+    expect(books.isSynced('EURUSD')).toBe(true);
+    expect(books.getBestBid('EURUSD')).toEqual({ price: 1.1, size: 2 });
+    expect(books.getBestAsk('EURUSD')).toEqual({ price: 1.11, size: 1 });
+    expect(books.getDepth('EURUSD', 2).bids).toEqual([
+      { price: 1.1, size: 2 },
+      { price: 1.08, size: 5 },
+    ]);
+    expect(books.getCumulativeVolume('EURUSD', 'asks', 2)).toBe(2);
+
+    const fill = books.getVwap('EURUSD', 'BUY', 3);
+    expect(fill).toMatchObject({ filled: 3, worstPrice: 1.13, levels: 3 });
+    expect(fill.vwap).toBeCloseTo((1.11 + 1.12 + 1.13) / 3);
+    expect(books.getVwap('EURUSD', 'SELL', 10).filled).toBe(7);
+  });
+
+  it('should resync on a sequence gap and replay held updates after the snapshot', () => {
+    const resyncs: string[] = [];
+    books.on('resync', (_symbol, reason) => resyncs.push(reason));
+
+    book({ sequence: 1, bids: [[1.1, 2]], asks: [[1.12, 1]] });
+    book({ sequence: 3, snapshot: false, bids: [[1.1, 7]] });
+
+    expect(resyncs).toEqual(['gap']);
+    expect(books.isSynced('EURUSD')).toBe(false);
+    expect(backfill).toHaveBeenCalledWith('orderbook', ['EURUSD'], { maxItems: 1 });
+
+    book({ sequence: 2, bids: [[1.1, 4]], asks: [[1.12, 1]] });
+
+    expect(books.isSynced('EURUSD')).toBe(true);
+    expect(books.getBestBid('EURUSD')).toEqual({ price: 1.1, size: 7 });
+  });
+
+  it('should not throw or retry when a snapshot cannot be requested', () => {
+    vi.useFakeTimers();
+    backfill.mockImplementation(() => {
+      throw new Error('Backfill is not enabled');
+    });
+
+    try {
+      book({ sequence: 1, bids: [[1.1, 2]], asks: [[1.12, 1]] });
+      expect(() => book({ sequence: 3, snapshot: false })).not.toThrow();
+      expect(vi.getTimerCount()).toBe(0);
+
+      const errors: Error[] = [];
+      books.on('error', error => errors.push(error));
+      book({ sequence: 5, bids: [[1.1, 2]], asks: [[1.12, 1]] });
+      book({ sequence: 7, snapshot: false });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(MarketDataError);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should resync a crossed book', () => {
+    const resyncs: string[] = [];
+    books.on('resync', (_symbol, reason) => resyncs.push(reason));
+
+    book({ bids: [[1.1, 2]], asks: [[1.12, 1]] });
+    book({ snapshot: false, bids: [[1.13, 1]] });
+
+    expect(resyncs).toEqual(['crossed']);
+    expect(backfill).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request fresh snapshots once the connection reopens', () => {
+    const resyncs: string[] = [];
+    books.on('resync', (symbol, reason) => resyncs.push(`${symbol}:${reason}`));
+
+    book({ sequence: 1, bids: [[1.1, 2]], asks: [[1.12, 1]] });
+    book({ symbol: 'GBPUSD', sequence: 1, bids: [[1.3, 2]], asks: [[1.31, 1]] });
+    pushClient.emit('close', 1006, 'Connection lost');
+
+    expect(books.isSynced('EURUSD')).toBe(false);
+    expect(backfill).not.toHaveBeenCalled();
+
+    pushClient.emit('open');
+
+    expect(resyncs).toEqual(['EURUSD:reconnect', 'GBPUSD:reconnect']);
+    expect(backfill).toHaveBeenCalledWith('orderbook', ['EURUSD'], { maxItems: 1 });
+    expect(backfill).toHaveBeenCalledWith('orderbook', ['GBPUSD'], { maxItems: 1 });
+
+    book({ sequence: 10, bids: [[1.1, 5]], asks: [[1.12, 1]] });
+    expect(books.isSynced('EURUSD')).toBe(true);
+    expect(books.getBestBid('EURUSD')).toEqual({ price: 1.1, size: 5 });
+  });
+});
+
+describe('AsyncStream', () => {
+  type Quote = { symbol: string; bid: number };
+  const quote = (symbol: string, bid: number): Quote => ({ symbol, bid });
+
+  function createStream(options: AsyncStreamOptions<Quote> = {}) {
+    let sink!: AsyncStreamSink<Quote>;
+    const stop = vi.fn();
+    const stream = new AsyncStream<Quote>(s => {
+      sink = s;
+      return stop;
+    }, { bufferSize: 2, ...options });
+    return { stream, sink, stop };
+  }
+
+  async function drain(stream: AsyncStream<Quote>) {
+    const items: number[] = [];
+    while (items.length < 2) {
+      const { value, done } = await stream.next();
+      if (done) {
+        break;
+      }
+      items.push(value.bid);
+    }
+    return items;
+  }
+
+  it('should apply overflow policies when the consumer falls behind', async () => {
+    const oldest = createStream();
+    [1, 2, 3].forEach(bid => oldest.sink.push(quote('EURUSD', bid)));
+    expect(await drain(oldest.stream)).toEqual([2, 3]);
+    expect(oldest.stream.dropped).toBe(1);
+
+    const newest = createStream({ overflow: 'drop-newest' });
+    [1, 2, 3].forEach(bid => newest.sink.push(quote('EURUSD', bid)));
+    expect(await drain(newest.stream)).toEqual([1, 2]);
+
+    const conflated = createStream({ overflow: 'conflate' });
+    conflated.sink.push(quote('EURUSD', 1));
+    conflated.sink.push(quote('GBPUSD', 2));
+    conflated.sink.push(quote('EURUSD', 3));
+    expect(await drain(conflated.stream)).toEqual([3, 2]);
+
+    const failing = createStream({ overflow: 'error' });
+    [1, 2, 3].forEach(bid => failing.sink.push(quote('EURUSD', bid)));
+    await expect(failing.stream.next()).rejects.toThrow(StreamOverflowError);
+    expect(failing.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the source on abort and when the loop exits', async () => {
+    const controller = new AbortController();
+    const aborted = createStream({ signal: controller.signal });
+    const next = aborted.stream.next();
+    controller.abort(new Error('stopped'));
+    await expect(next).rejects.toThrow('stopped');
+    expect(aborted.stop).toHaveBeenCalledTimes(1);
+
+    const looped = createStream();
+    looped.sink.push(quote('EURUSD', 1));
+    for await (const item of looped.stream) {
+      expect(item.bid).toBe(1);
+      break;
+    }
+    expect(looped.stop).toHaveBeenCalledTimes(1);
+    expect(looped.stream.closed).toBe(true);
+
+    const ended = createStream();
+    ended.sink.push(quote('EURUSD', 1));
+    ended.sink.end();
+    expect(await drain(ended.stream)).toEqual([1]);
+  });
+});
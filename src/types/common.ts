@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import { isLogger } from '../utils/logger.js';
+import type { Logger } from '../utils/logger.js';
+import { isTransportOption } from '../core/transport.js';
+import type { TransportOption } from '../core/transport.js';
+import { DEFAULT_IDEMPOTENCY_TTL, isIdempotencyStore } from '../core/idempotency-store.js';
+import type { IdempotencyStore } from '../core/idempotency-store.js';
 
 /**
  * Base response schema for all DXtrade API responses
@@ -58,6 +64,12 @@ export const AuthConfigSchema = z.discriminatedUnion('type', [
 
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
 
+/**
+ * Request priority classes used by the request scheduler
+ */
+export const RequestPrioritySchema = z.enum(['critical', 'normal', 'background']);
+export type RequestPriority = z.infer<typeof RequestPrioritySchema>;
+
 /**
  * SDK configuration
  */
@@ -123,13 +135,88 @@ export const SDKConfigSchema = z.object({
   endpoints: z
     .object({
       login: z.string().default('/login'),
+      logout: z.string().default('/logout'),
       marketData: z.string().default('/marketdata'),
       time: z.string().default('/time'),
       account: z.string().default('/account'),
+      ping: z.string().default('/ping'),
       wsMarketData: z.string().default('/md'),
       wsPortfolio: z.string().default('/?format=JSON'),
     })
     .default({}),
+  // Per-endpoint path templates, e.g. { 'orders.cancelOrder': '/v2/orders/{orderId}/cancel' }
+  endpointTemplates: z.record(z.string()).optional(),
+  // Structured logger, silent by default; secrets are always redacted
+  logger: z
+    .custom<Logger>(isLogger, {
+      message: 'Logger must implement debug, info, warn, error and child',
+    })
+    .optional(),
+  // HTTP transport: fetch-compatible function or transport object, defaults to global fetch
+  transport: z
+    .custom<TransportOption>(isTransportOption, {
+      message: 'Transport must be a fetch-compatible function or expose request()',
+    })
+    .optional(),
+  // Idempotency key bookkeeping, in memory by default
+  idempotency: z
+    .object({
+      store: z
+        .custom<IdempotencyStore>(isIdempotencyStore, {
+          message: 'Store must implement reserve, has, delete and clear',
+        })
+        .optional(),
+      ttl: z.number().min(1000).default(DEFAULT_IDEMPOTENCY_TTL),
+    })
+    .optional(),
+  // Circuit breaker per endpoint group (trading, market data, account), off by default
+  circuitBreaker: z
+    .object({
+      enabled: z.boolean().default(false),
+      failureThreshold: z.number().min(1).default(5), // consecutive server failures
+      recoveryTimeout: z.number().min(0).default(60000), // in milliseconds
+      successThreshold: z.number().min(1).default(3), // trial successes to close
+    })
+    .optional(),
+  // Throttle below rateLimit when the server reports errors, off by default
+  adaptiveRateLimit: z
+    .object({
+      enabled: z.boolean().default(false),
+      minMultiplier: z.number().min(0.01).max(1).default(0.1), // lowest fraction of rateLimit
+      adjustmentInterval: z.number().min(1000).default(60000), // in milliseconds
+      minSamples: z.number().min(1).default(10), // outcomes needed per adjustment
+    })
+    .optional(),
+  // Priority scheduling of rate-limited requests
+  scheduler: z
+    .object({
+      reservedCapacity: z.number().min(0).max(1).default(0.2), // share of rateLimit kept for critical
+      maxWait: z.number().min(0).default(30000), // in milliseconds
+      priorities: z.record(RequestPrioritySchema).default({}), // e.g. { 'orders.getOrders': 'critical' }
+    })
+    .optional(),
+  // Pre-trade order validation against instrument specs, off by default
+  orderValidation: z
+    .object({
+      enabled: z.boolean().default(false),
+      mode: z.enum(['reject', 'round']).default('reject'), // round off-grid quantities and prices
+    })
+    .optional(),
+  // Cached instrument list used to normalize symbols
+  instrumentCatalog: z
+    .object({
+      ttl: z.number().min(0).default(3600000), // instrument list and spec cache lifetime in milliseconds
+      aliases: z.record(z.string()).default({}), // extra names for symbols, e.g. { GOLD: 'XAUUSD' }
+    })
+    .optional(),
+  // Session lifecycle for credentials authentication
+  session: z
+    .object({
+      keepAlive: z.boolean().default(true), // ping before the session expires
+      refreshMargin: z.number().min(0).default(60000), // in milliseconds
+      defaultTimeout: z.number().min(1000).default(1800000), // used when login reports none
+    })
+    .optional(),
   // Legacy WebSocket configuration (fallback)
   websocket: z
     .object({
@@ -139,6 +226,7 @@ export const SDKConfigSchema = z.object({
       pingInterval: z.number().optional(), // in milliseconds
       reconnectAttempts: z.number().optional(),
       reconnectDelay: z.number().optional(), // in milliseconds
+      conflateUpdates: z.boolean().optional(), // latest quote per symbol between flushes
     })
     .optional(),
 });
@@ -163,10 +251,33 @@ export const RequestConfigSchema = z.object({
   timeout: z.number().optional(),
   retries: z.number().optional(),
   idempotencyKey: z.string().optional(),
+  priority: RequestPrioritySchema.optional(),
+  operation: z.string().optional(), // API method name, e.g. 'orders.cancelOrder'
+  signal: z
+    .custom<AbortSignal>(value => value instanceof AbortSignal, {
+      message: 'Signal must be an AbortSignal',
+    })
+    .optional(),
 });
 
 export type RequestConfig = z.infer<typeof RequestConfigSchema>;
 
+/**
+ * Per-call options accepted by every REST API method
+ *
+ * `timeout` bounds each attempt; `signal` cancels the whole call, including
+ * retries and time spent waiting for rate limit capacity.
+ */
+export type CallOptions = Pick<
+  RequestConfig,
+  'signal' | 'timeout' | 'retries' | 'idempotencyKey' | 'priority' | 'headers'
+>;
+
+/**
+ * Per-call options accepted by the HttpClient convenience methods
+ */
+export type RequestOptions = CallOptions & Pick<RequestConfig, 'operation'>;
+
 /**
  * Clock sync configuration
  */
@@ -268,6 +268,18 @@ export interface DXTradeStreamOptions {
   maxReconnectAttempts?: number;
   reconnectDelay?: number;
   autoReconnect?: boolean;
+  /** How long to wait for a SubscriptionResponse, in milliseconds */
+  subscriptionTimeout?: number;
+}
+
+/**
+ * Outcome of a symbol subscription change
+ */
+export interface SymbolSubscriptionChange {
+  added: string[];
+  removed: string[];
+  /** False if the stream was not connected; the change is sent when it connects */
+  acknowledged: boolean;
 }
 
 /**
@@ -190,6 +190,8 @@ export type Position = z.infer<typeof PositionSchema>;
 export const TradeSchema = z.object({
   id: z.string(),
   orderId: z.string(),
+  accountId: z.string().optional(),
+  positionId: z.string().optional(),
   symbol: z.string(),
   side: OrderSideSchema,
   quantity: z.number(),
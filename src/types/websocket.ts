@@ -72,6 +72,7 @@ export const UnsubscriptionRequestSchema = BaseMessageSchema.extend({
   type: z.literal('UNSUBSCRIBE'),
   channel: SubscriptionTypeSchema,
   symbols: z.array(z.string()).optional(),
+  params: z.record(z.unknown()).optional(),
 });
 
 export type UnsubscriptionRequest = z.infer<typeof UnsubscriptionRequestSchema>;
@@ -139,6 +140,10 @@ export const OrderBookUpdateMessageSchema = BaseMessageSchema.extend({
     bids: z.array(z.tuple([z.number(), z.number()])),
     asks: z.array(z.tuple([z.number(), z.number()])),
     timestamp: z.number(),
+    // Increments by one per update; used to detect missed updates
+    sequence: z.number().optional(),
+    // False for incremental updates, where a size of 0 removes the level
+    snapshot: z.boolean().optional(),
   }),
 });
 
@@ -169,6 +174,7 @@ export const OrderUpdateMessageSchema = BaseMessageSchema.extend({
   data: z.object({
     id: z.string(),
     clientOrderId: z.string().optional(),
+    accountId: z.string().optional(),
     symbol: z.string(),
     status: z.enum(['PENDING', 'PARTIALLY_FILLED', 'FILLED', 'CANCELED', 'REJECTED']),
     filledQuantity: z.number(),
@@ -186,6 +192,8 @@ export type OrderUpdateMessage = z.infer<typeof OrderUpdateMessageSchema>;
 export const PositionUpdateMessageSchema = BaseMessageSchema.extend({
   type: z.literal('POSITION_UPDATE'),
   data: z.object({
+    id: z.string().optional(),
+    accountId: z.string().optional(),
     symbol: z.string(),
     side: z.enum(['LONG', 'SHORT']),
     size: z.number(),
@@ -204,6 +212,7 @@ export type PositionUpdateMessage = z.infer<typeof PositionUpdateMessageSchema>;
 export const AccountUpdateMessageSchema = BaseMessageSchema.extend({
   type: z.literal('ACCOUNT_UPDATE'),
   data: z.object({
+    accountId: z.string().optional(),
     balance: z.number(),
     equity: z.number(),
     margin: z.number(),
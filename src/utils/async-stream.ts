@@ -0,0 +1,243 @@
+import { StreamOverflowError, ValidationError } from '../errors/index.js';
+
+/**
+ * What a stream does with a new item when its buffer is full:
+ * - `drop-oldest` discards the oldest buffered item
+ * - `drop-newest` discards the new item
+ * - `conflate` replaces a buffered item with the same key, so only the latest
+ *   item per key is kept; other items drop the oldest once full
+ * - `error` fails the stream with a `StreamOverflowError`
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'conflate' | 'error';
+
+/**
+ * Async stream options
+ */
+export interface AsyncStreamOptions<T> {
+  /** Items buffered while the consumer is busy, defaults to 1000 */
+  bufferSize?: number;
+  /** Defaults to `drop-oldest` */
+  overflow?: OverflowPolicy;
+  /** Key items are conflated by, defaults to their `symbol` */
+  conflateKey?: (item: T) => string;
+  /** Ends the stream, rejecting the pending `next()` with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Callbacks a stream source feeds items into
+ */
+export interface AsyncStreamSink<T> {
+  push(item: T): void;
+  /** End the stream once buffered items are consumed */
+  end(): void;
+  /** Fail the stream, discarding buffered items */
+  fail(error: unknown): void;
+}
+
+/**
+ * Starts feeding a stream and returns a function that stops it
+ */
+export type AsyncStreamSource<T> = (sink: AsyncStreamSink<T>) => () => void;
+
+/**
+ * Default conflation key: the item's `symbol`, if it has one
+ */
+function symbolOf(item: unknown): string {
+  const symbol = (item as { symbol?: unknown } | null)?.symbol;
+  return typeof symbol === 'string' ? symbol : '';
+}
+
+/**
+ * Pull-based view of a push source, for use with `for await`
+ *
+ * Items arriving while the consumer is busy are buffered up to `bufferSize`
+ * and handled by the overflow policy beyond that. The source is stopped as
+ * soon as the stream ends: when the loop exits through `break`, `return` or
+ * an exception, when the signal aborts, or when `close()` is called.
+ */
+export class AsyncStream<T> implements AsyncIterableIterator<T> {
+  private readonly buffer: T[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly conflateKey: (item: T) => string;
+  private readonly signal?: AbortSignal;
+  private pending?: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  };
+  private failure?: { error: unknown };
+  private stop?: () => void;
+  private ended = false;
+  private droppedItems = 0;
+  private readonly onAbort = (): void => this.fail(this.signal?.reason);
+
+  /**
+   * @throws ValidationError if the buffer size is not a positive integer
+   */
+  constructor(source: AsyncStreamSource<T>, options: AsyncStreamOptions<T> = {}) {
+    this.bufferSize = options.bufferSize ?? 1000;
+    this.overflow = options.overflow ?? 'drop-oldest';
+    this.conflateKey = options.conflateKey ?? symbolOf;
+    this.signal = options.signal;
+
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize < 1) {
+      throw new ValidationError('Stream buffer size must be a positive integer', [], 'bufferSize');
+    }
+
+    if (this.signal?.aborted) {
+      this.fail(this.signal.reason);
+      return;
+    }
+
+    const stop = source({
+      push: item => this.push(item),
+      end: () => this.end(),
+      fail: error => this.fail(error),
+    });
+    if (this.ended) {
+      stop();
+    } else {
+      this.stop = stop;
+      this.signal?.addEventListener('abort', this.onAbort, { once: true });
+    }
+  }
+
+  /**
+   * Number of items discarded by the overflow policy
+   */
+  get dropped(): number {
+    return this.droppedItems;
+  }
+
+  /**
+   * Check if the stream has ended; buffered items can still be read
+   */
+  get closed(): boolean {
+    return this.ended;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+    if (this.failure) {
+      const { error } = this.failure;
+      this.failure = undefined;
+      return Promise.reject(error);
+    }
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  /**
+   * Called when a `for await` loop exits early; stops the stream
+   */
+  return(): Promise<IteratorResult<T>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  /**
+   * Stop the stream, discarding buffered items
+   */
+  close(): void {
+    this.buffer.length = 0;
+    this.failure = undefined;
+    this.end();
+  }
+
+  /**
+   * Deliver an item to a waiting consumer or buffer it
+   */
+  private push(item: T): void {
+    if (this.ended) {
+      return;
+    }
+
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve({ value: item, done: false });
+      return;
+    }
+
+    if (this.overflow === 'conflate') {
+      const key = this.conflateKey(item);
+      const index = this.buffer.findIndex(queued => this.conflateKey(queued) === key);
+      if (index >= 0) {
+        this.buffer[index] = item;
+        this.droppedItems++;
+        return;
+      }
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === 'error') {
+        this.fail(new StreamOverflowError(this.bufferSize));
+        return;
+      }
+
+      this.droppedItems++;
+      if (this.overflow === 'drop-newest') {
+        return;
+      }
+      this.buffer.shift();
+    }
+    this.buffer.push(item);
+  }
+
+  /**
+   * End the stream after buffered items
+   */
+  private end(): void {
+    if (this.finish()) {
+      this.pending?.resolve({ value: undefined, done: true });
+      this.pending = undefined;
+    }
+  }
+
+  /**
+   * Fail the stream, discarding buffered items
+   */
+  private fail(error: unknown): void {
+    if (!this.finish()) {
+      return;
+    }
+
+    this.buffer.length = 0;
+    if (this.pending) {
+      this.pending.reject(error);
+      this.pending = undefined;
+    } else {
+      this.failure = { error };
+    }
+  }
+
+  /**
+   * Mark the stream ended and stop its source
+   *
+   * @returns false if the stream had already ended
+   */
+  private finish(): boolean {
+    if (this.ended) {
+      return false;
+    }
+
+    this.ended = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    const stop = this.stop;
+    this.stop = undefined;
+    stop?.();
+    return true;
+  }
+}
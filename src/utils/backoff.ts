@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import type { BackoffConfig } from '../types/common.js';
 
 /**
@@ -169,6 +170,8 @@ export async function retryWithBackoff<T>(
     backoff?: ExponentialBackoff | DecorrelatedJitterBackoff;
     shouldRetry?: (error: unknown, attempt: number) => boolean;
     onRetry?: (error: unknown, attempt: number, delay: number) => void;
+    /** Stop retrying once aborted, rejecting with the abort reason */
+    signal?: AbortSignal;
   } = {}
 ): Promise<T> {
   const backoff = options.backoff ?? new ExponentialBackoff();
@@ -184,7 +187,7 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error;
 
-      if (!shouldRetry(error, backoff.getCurrentAttempt())) {
+      if (options.signal?.aborted || !shouldRetry(error, backoff.getCurrentAttempt())) {
         throw error;
       }
 
@@ -195,17 +198,52 @@ export async function retryWithBackoff<T>(
       }
 
       onRetry(error, backoff.getCurrentAttempt(), delay);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await sleep(delay, options.signal);
     }
   }
 }
 
+/**
+ * Wait for a delay, rejecting with the abort reason if the signal fires first
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Circuit breaker states
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * Circuit breaker events - parameter tuple format
+ */
+export type CircuitBreakerEventMap = {
+  stateChange: [state: CircuitState, previous: CircuitState];
+};
+
 /**
  * Circuit breaker pattern implementation
  * Prevents cascading failures by opening circuit after threshold failures
  */
-export class CircuitBreaker {
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEventMap> {
+  private state: CircuitState = 'CLOSED';
   private failureCount = 0;
   private lastFailureTime = 0;
   private successCount = 0;
@@ -214,35 +252,60 @@ export class CircuitBreaker {
     private readonly failureThreshold: number = 5,
     private readonly recoveryTimeout: number = 60000, // 1 minute
     private readonly successThreshold: number = 3 // successes needed to close circuit
-  ) {}
+  ) {
+    super();
+  }
 
   /**
    * Execute operation through circuit breaker
    */
   async execute<T>(operation: () => Promise<T>): Promise<T> {
-    if (this.state === 'OPEN') {
-      if (Date.now() - this.lastFailureTime >= this.recoveryTimeout) {
-        this.state = 'HALF_OPEN';
-        this.successCount = 0;
-      } else {
-        throw new Error('Circuit breaker is OPEN');
-      }
+    if (!this.canExecute()) {
+      throw new Error('Circuit breaker is OPEN');
     }
 
     try {
       const result = await operation();
-      this.onSuccess();
+      this.recordSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      this.recordFailure();
       throw error;
     }
   }
 
+  /**
+   * Check if an operation may run now, moving an open circuit to
+   * half-open once the recovery timeout has elapsed
+   */
+  canExecute(): boolean {
+    if (this.state === 'OPEN') {
+      if (Date.now() - this.lastFailureTime < this.recoveryTimeout) {
+        return false;
+      }
+
+      this.successCount = 0;
+      this.setState('HALF_OPEN');
+    }
+
+    return true;
+  }
+
+  /**
+   * Get time until an open circuit allows a trial request, in milliseconds
+   */
+  getRetryAfter(): number {
+    if (this.state !== 'OPEN') {
+      return 0;
+    }
+
+    return Math.max(0, this.lastFailureTime + this.recoveryTimeout - Date.now());
+  }
+
   /**
    * Get current circuit breaker state
    */
-  getState(): 'CLOSED' | 'OPEN' | 'HALF_OPEN' {
+  getState(): CircuitState {
     return this.state;
   }
 
@@ -250,7 +313,7 @@ export class CircuitBreaker {
    * Get failure statistics
    */
   getStats(): {
-    state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    state: CircuitState;
     failureCount: number;
     successCount: number;
     lastFailureTime: number;
@@ -267,40 +330,52 @@ export class CircuitBreaker {
    * Reset circuit breaker to closed state
    */
   reset(): void {
-    this.state = 'CLOSED';
     this.failureCount = 0;
     this.successCount = 0;
     this.lastFailureTime = 0;
+    this.setState('CLOSED');
   }
 
   /**
-   * Handle successful operation
+   * Record a successful operation run outside of execute()
    */
-  private onSuccess(): void {
+  recordSuccess(): void {
     this.failureCount = 0;
     
     if (this.state === 'HALF_OPEN') {
       this.successCount++;
       
       if (this.successCount >= this.successThreshold) {
-        this.state = 'CLOSED';
         this.successCount = 0;
+        this.setState('CLOSED');
       }
     }
   }
 
   /**
-   * Handle failed operation
+   * Record a failed operation run outside of execute()
    */
-  private onFailure(): void {
+  recordFailure(): void {
     this.failureCount++;
     this.lastFailureTime = Date.now();
     
     if (this.state === 'HALF_OPEN') {
-      this.state = 'OPEN';
       this.successCount = 0;
+      this.setState('OPEN');
     } else if (this.failureCount >= this.failureThreshold) {
-      this.state = 'OPEN';
+      this.setState('OPEN');
+    }
+  }
+
+  /**
+   * Change state, notifying listeners on transitions
+   */
+  private setState(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+
+    if (state !== previous) {
+      this.emit('stateChange', state, previous);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,281 @@
+import { EventEmitter } from 'events';
+import { ValidationError } from '../errors/index.js';
+import { TIMEFRAME_DURATIONS } from './candle-downloader.js';
+import type { HistoricalBar, TimeRange, Timeframe } from './candle-downloader.js';
+import type { TradingCalendar, TradingSession } from './trading-calendar.js';
+import type { HistoricalData } from '../rest/instruments.js';
+
+/**
+ * Tick or quote price used for bars
+ */
+export type PriceSource = 'bid' | 'ask' | 'mid';
+
+/**
+ * When a bar closes: at the end of a timeframe, after a number of ticks or
+ * once a traded volume is reached
+ */
+export type BarType =
+  | { type: 'time'; timeframe: Timeframe }
+  | { type: 'tick'; ticks: number }
+  | { type: 'volume'; volume: number };
+
+/**
+ * Price update accepted by the aggregator; ticks and quotes both fit
+ */
+export interface PriceTick {
+  timestamp: number;
+  bid: number;
+  ask: number;
+  volume?: number;
+}
+
+/**
+ * Bar aggregator options
+ */
+export interface BarAggregatorOptions {
+  bar: BarType;
+  /** Price taken from ticks, defaults to `mid` */
+  price?: PriceSource;
+  /** Start time bars at session open and end them at session close */
+  calendar?: TradingCalendar;
+}
+
+/**
+ * Bar aggregator events - parameter tuple format
+ */
+export interface BarAggregatorEventMap {
+  bar: [bar: HistoricalBar];
+}
+
+/** 1970-01-05, the first Monday after the epoch */
+const FIRST_MONDAY = 4 * TIMEFRAME_DURATIONS.D1;
+
+/**
+ * Builds bars from ticks, quotes or finer bars
+ *
+ * Feed it live quotes or batches of history; it emits `bar` each time a bar
+ * closes. Time bars close when data for a later bar arrives or `advance()`
+ * passes their end. Daily and shorter bars are aligned to UTC, or with a
+ * calendar to session open, and never span a session close. Weekly bars
+ * start on Monday and monthly bars on the first of the month, in UTC.
+ * Ticks older than the bar being built are ignored.
+ */
+export class BarAggregator extends EventEmitter<BarAggregatorEventMap> {
+  private readonly bar: BarType;
+  private readonly price: PriceSource;
+  private readonly calendar?: TradingCalendar;
+  private current?: HistoricalBar;
+  private currentEnd = Infinity;
+  private session?: TradingSession;
+
+  constructor(options: BarAggregatorOptions) {
+    super();
+    this.bar = options.bar;
+    this.price = options.price ?? 'mid';
+    this.calendar = options.calendar;
+
+    if (
+      (this.bar.type === 'tick' && !(this.bar.ticks > 0)) ||
+      (this.bar.type === 'volume' && !(this.bar.volume > 0))
+    ) {
+      throw new ValidationError(`Size of ${this.bar.type} bars must be positive`);
+    }
+  }
+
+  /**
+   * Add a tick or quote
+   */
+  addTick(tick: PriceTick): void {
+    const price =
+      this.price === 'bid' ? tick.bid : this.price === 'ask' ? tick.ask : (tick.bid + tick.ask) / 2;
+
+    this.add({
+      timestamp: tick.timestamp,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume: tick.volume,
+      tickVolume: 1,
+    });
+  }
+
+  /**
+   * Add a bar of a finer timeframe
+   *
+   * @throws ValidationError unless building time bars
+   */
+  addBar(bar: HistoricalBar): void {
+    if (this.bar.type !== 'time') {
+      throw new ValidationError(`Cannot resample bars into ${this.bar.type} bars`);
+    }
+    this.add(bar);
+  }
+
+  /**
+   * Close the current time bar if `timestamp` is past its end. Call it on a
+   * timer to close bars when no new ticks arrive.
+   */
+  advance(timestamp: number = Date.now()): void {
+    if (timestamp >= this.currentEnd) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Close the current bar, even if incomplete
+   */
+  flush(): void {
+    const bar = this.current;
+    this.current = undefined;
+    this.currentEnd = Infinity;
+
+    if (bar) {
+      this.emit('bar', bar);
+    }
+  }
+
+  /**
+   * Get a copy of the bar being built
+   */
+  getCurrentBar(): HistoricalBar | undefined {
+    return this.current && { ...this.current };
+  }
+
+  /**
+   * Merge a price bar into the current bar, closing bars as needed
+   */
+  private add(bar: HistoricalBar): void {
+    if (this.bar.type === 'time') {
+      if (this.current && bar.timestamp < this.current.timestamp) {
+        return;
+      }
+      this.advance(bar.timestamp);
+
+      if (!this.current) {
+        const bucket = this.getBucket(bar.timestamp);
+        this.current = { ...bar, timestamp: bucket.from };
+        this.currentEnd = bucket.to;
+        return;
+      }
+    }
+
+    if (!this.current) {
+      this.current = { ...bar };
+    } else {
+      const current = this.current;
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+      current.volume = addOptional(current.volume, bar.volume);
+      current.tickVolume = addOptional(current.tickVolume, bar.tickVolume);
+    }
+
+    if (
+      (this.bar.type === 'tick' && (this.current.tickVolume ?? 0) >= this.bar.ticks) ||
+      (this.bar.type === 'volume' && (this.current.volume ?? 0) >= this.bar.volume)
+    ) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Get the time bar a timestamp falls into
+   */
+  private getBucket(timestamp: number): TimeRange {
+    const { timeframe } = this.bar as Extract<BarType, { type: 'time' }>;
+    const duration = TIMEFRAME_DURATIONS[timeframe];
+
+    if (timeframe === 'MN1') {
+      const date = new Date(timestamp);
+      return {
+        from: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+        to: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+      };
+    }
+    if (timeframe === 'W1') {
+      const from = Math.floor((timestamp - FIRST_MONDAY) / duration) * duration + FIRST_MONDAY;
+      return { from, to: from + duration };
+    }
+
+    const session = this.getSession(timestamp);
+    if (session) {
+      const from = session.open + Math.floor((timestamp - session.open) / duration) * duration;
+      return { from, to: Math.min(from + duration, session.close) };
+    }
+
+    const from = Math.floor(timestamp / duration) * duration;
+    return { from, to: from + duration };
+  }
+
+  /**
+   * Get the calendar session containing a timestamp, reusing the last one found
+   */
+  private getSession(timestamp: number): TradingSession | undefined {
+    if (!this.calendar) {
+      return undefined;
+    }
+    if (this.session && this.session.open <= timestamp && timestamp < this.session.close) {
+      return this.session;
+    }
+
+    this.session = this.calendar
+      .getSessions(timestamp, timestamp + 1)
+      .find(candidate => candidate.open <= timestamp);
+    return this.session;
+  }
+}
+
+/**
+ * Add two optional amounts, staying undefined if both are missing
+ */
+function addOptional(a?: number, b?: number): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+}
+
+/**
+ * Run a batch through an aggregator and collect every bar, including the last incomplete one
+ */
+function collectBars(aggregator: BarAggregator, feed: () => void): HistoricalBar[] {
+  const bars: HistoricalBar[] = [];
+  aggregator.on('bar', bar => bars.push(bar));
+  feed();
+  aggregator.flush();
+  return bars;
+}
+
+/**
+ * Aggregate ticks or quotes, sorted by timestamp, into bars
+ */
+export function ticksToBars(ticks: PriceTick[], options: BarAggregatorOptions): HistoricalBar[] {
+  const aggregator = new BarAggregator(options);
+  return collectBars(aggregator, () => ticks.forEach(tick => aggregator.addTick(tick)));
+}
+
+/**
+ * Resample bars, sorted by timestamp, into a coarser timeframe
+ */
+export function resampleBars(
+  bars: HistoricalBar[],
+  timeframe: Timeframe,
+  calendar?: TradingCalendar
+): HistoricalBar[] {
+  const aggregator = new BarAggregator({ bar: { type: 'time', timeframe }, calendar });
+  return collectBars(aggregator, () => bars.forEach(bar => aggregator.addBar(bar)));
+}
+
+/**
+ * Resample historical data into a coarser timeframe
+ *
+ * @throws ValidationError if the target timeframe is not coarser
+ */
+export function resampleHistoricalData(
+  data: HistoricalData,
+  timeframe: Timeframe,
+  calendar?: TradingCalendar
+): HistoricalData {
+  if (TIMEFRAME_DURATIONS[timeframe] <= TIMEFRAME_DURATIONS[data.timeframe]) {
+    throw new ValidationError(`Cannot resample ${data.timeframe} bars into ${timeframe} bars`);
+  }
+  return { ...data, timeframe, bars: resampleBars(data.bars, timeframe, calendar) };
+}
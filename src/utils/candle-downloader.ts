@@ -0,0 +1,310 @@
+import { ValidationError } from '../errors/index.js';
+import { ExponentialBackoff, retryWithBackoff } from './backoff.js';
+import type { HistoricalData, InstrumentsApi } from '../rest/instruments.js';
+import type { TradingCalendar } from './trading-calendar.js';
+
+/**
+ * Candle timeframe
+ */
+export type Timeframe = HistoricalData['timeframe'];
+
+/**
+ * One candle of historical data
+ */
+export type HistoricalBar = HistoricalData['bars'][number];
+
+/**
+ * Nominal length of each timeframe in milliseconds; months count as 31 days
+ */
+export const TIMEFRAME_DURATIONS: Readonly<Record<Timeframe, number>> = {
+  M1: 60 * 1000,
+  M5: 5 * 60 * 1000,
+  M15: 15 * 60 * 1000,
+  M30: 30 * 60 * 1000,
+  H1: 60 * 60 * 1000,
+  H4: 4 * 60 * 60 * 1000,
+  D1: 24 * 60 * 60 * 1000,
+  W1: 7 * 24 * 60 * 60 * 1000,
+  MN1: 31 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Time range, start inclusive and end exclusive
+ */
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Download state that lets an interrupted download resume. Plain JSON.
+ */
+export interface CandleCheckpoint {
+  symbol: string;
+  timeframe: Timeframe;
+  /** Chunks downloaded so far */
+  completed: TimeRange[];
+  /** Gaps found in the completed chunks */
+  gaps: TimeRange[];
+}
+
+/**
+ * Progress reported after each chunk
+ */
+export interface CandleChunkProgress {
+  chunk: TimeRange;
+  bars: HistoricalBar[];
+  completedChunks: number;
+  totalChunks: number;
+  checkpoint: CandleCheckpoint;
+}
+
+/**
+ * Candle download options
+ */
+export interface CandleDownloadOptions {
+  timeframe: Timeframe;
+  from: number;
+  to: number;
+  /** Bars per request, defaults to 1000 */
+  chunkSize?: number;
+  /** Chunks downloaded in parallel, defaults to 2 */
+  concurrency?: number;
+  /** Attempts per chunk after the first, defaults to 3 */
+  retries?: number;
+  /** Initial delay between chunk attempts in milliseconds, defaults to 1000 */
+  retryDelay?: number;
+  /** Result of a previous download; its completed chunks are skipped */
+  checkpoint?: CandleCheckpoint;
+  /** Market hours, so closed periods are not reported as gaps */
+  calendar?: TradingCalendar;
+  /** Keep bars in the result, defaults to true. Disable when persisting them from `onChunk` */
+  collect?: boolean;
+  /** Called after each chunk completes, in completion order */
+  onChunk?: (progress: CandleChunkProgress) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Candle download result
+ */
+export interface CandleDownloadResult {
+  symbol: string;
+  timeframe: Timeframe;
+  /** Bars downloaded in this run, sorted and without duplicates */
+  bars: HistoricalBar[];
+  /** Periods with missing bars while the market was open, across all runs */
+  gaps: TimeRange[];
+  /** Chunks that failed after all retries; download again with `checkpoint` to retry them */
+  failed: Array<TimeRange & { error: Error }>;
+  checkpoint: CandleCheckpoint;
+}
+
+/**
+ * Downloads long ranges of historical candles
+ *
+ * Splits the range into chunks the server can return in one response and
+ * downloads them through the client's rate limiter as background requests.
+ * Overlapping bars are dropped, failed chunks are retried with backoff and
+ * the returned checkpoint lets an interrupted download continue where it
+ * stopped.
+ */
+export class CandleDownloader {
+  constructor(private readonly instruments: Pick<InstrumentsApi, 'getHistoricalData'>) {}
+
+  /**
+   * Download candles for a symbol
+   *
+   * @throws ValidationError if the checkpoint belongs to another download
+   */
+  async download(symbol: string, options: CandleDownloadOptions): Promise<CandleDownloadResult> {
+    const { timeframe, checkpoint: previous, collect = true, signal } = options;
+
+    if (previous && (previous.symbol !== symbol || previous.timeframe !== timeframe)) {
+      throw new ValidationError(
+        `Checkpoint is for ${previous.symbol} ${previous.timeframe}, not ${symbol} ${timeframe}`
+      );
+    }
+
+    const checkpoint: CandleCheckpoint = {
+      symbol,
+      timeframe,
+      completed: [...(previous?.completed ?? [])],
+      gaps: [...(previous?.gaps ?? [])],
+    };
+    const chunks = this.splitRange(options).filter(
+      chunk => !checkpoint.completed.some(done => done.from === chunk.from && done.to === chunk.to)
+    );
+    const totalChunks = chunks.length + checkpoint.completed.length;
+
+    const bars = new Map<number, HistoricalBar>();
+    const failed: CandleDownloadResult['failed'] = [];
+
+    const worker = async (): Promise<void> => {
+      for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+        signal?.throwIfAborted();
+
+        let chunkBars: HistoricalBar[];
+        try {
+          chunkBars = await this.fetchChunk(symbol, chunk, options);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          failed.push({ ...chunk, error: error as Error });
+          continue;
+        }
+
+        if (collect) {
+          chunkBars.forEach(bar => bars.set(bar.timestamp, bar));
+        }
+        checkpoint.completed.push(chunk);
+        checkpoint.gaps = mergeRanges([
+          ...checkpoint.gaps,
+          ...findGaps(chunkBars, timeframe, chunk, options.calendar),
+        ]);
+
+        await options.onChunk?.({
+          chunk,
+          bars: chunkBars,
+          completedChunks: checkpoint.completed.length,
+          totalChunks,
+          checkpoint,
+        });
+      }
+    };
+
+    const workers = Math.max(1, Math.min(options.concurrency ?? 2, chunks.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    checkpoint.completed.sort((a, b) => a.from - b.from);
+    failed.sort((a, b) => a.from - b.from);
+
+    return {
+      symbol,
+      timeframe,
+      bars: [...bars.values()].sort((a, b) => a.timestamp - b.timestamp),
+      gaps: checkpoint.gaps,
+      failed,
+      checkpoint,
+    };
+  }
+
+  /**
+   * Split a download range into chunks of `chunkSize` bars. Chunk boundaries
+   * are aligned to multiples of the chunk span, so the full chunks of a
+   * checkpoint still match when the range is extended.
+   */
+  splitRange(
+    options: Pick<CandleDownloadOptions, 'timeframe' | 'from' | 'to' | 'chunkSize'>
+  ): TimeRange[] {
+    const span = TIMEFRAME_DURATIONS[options.timeframe] * (options.chunkSize ?? 1000);
+    const chunks: TimeRange[] = [];
+
+    for (let from = options.from; from < options.to; ) {
+      const to = Math.min(options.to, Math.floor(from / span) * span + span);
+      chunks.push({ from, to });
+      from = to;
+    }
+    return chunks;
+  }
+
+  /**
+   * Fetch one chunk with retries, keeping only bars inside it
+   */
+  private async fetchChunk(
+    symbol: string,
+    chunk: TimeRange,
+    options: CandleDownloadOptions
+  ): Promise<HistoricalBar[]> {
+    const data = await retryWithBackoff(
+      () =>
+        this.instruments.getHistoricalData(
+          symbol,
+          {
+            timeframe: options.timeframe,
+            fromDate: chunk.from,
+            toDate: chunk.to,
+            limit: options.chunkSize ?? 1000,
+          },
+          { signal: options.signal }
+        ),
+      {
+        backoff: new ExponentialBackoff({
+          initialDelay: options.retryDelay ?? 1000,
+          maxAttempts: options.retries ?? 3,
+        }),
+        signal: options.signal,
+      }
+    );
+
+    const bars = new Map<number, HistoricalBar>();
+    for (const bar of data.bars) {
+      if (bar.timestamp >= chunk.from && bar.timestamp < chunk.to) {
+        bars.set(bar.timestamp, bar);
+      }
+    }
+    return [...bars.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+/**
+ * Find periods within a range where bars are missing. With a calendar,
+ * only periods during which the market was open for at least one bar count.
+ *
+ * @param bars Bars sorted by timestamp
+ */
+export function findGaps(
+  bars: HistoricalBar[],
+  timeframe: Timeframe,
+  range: TimeRange,
+  calendar?: TradingCalendar
+): TimeRange[] {
+  const duration = TIMEFRAME_DURATIONS[timeframe];
+  const gaps: TimeRange[] = [];
+
+  const check = (from: number, to: number): void => {
+    if (to - from < duration) {
+      return;
+    }
+
+    const open = calendar
+      ? calendar
+          .getSessions(from, to)
+          .reduce(
+            (total, session) =>
+              total + Math.min(session.close, to) - Math.max(session.open, from),
+            0
+          )
+      : to - from;
+
+    if (open >= duration) {
+      gaps.push({ from, to });
+    }
+  };
+
+  let expected = range.from;
+  for (const bar of bars) {
+    check(expected, bar.timestamp);
+    expected = bar.timestamp + duration;
+  }
+  check(expected, range.to);
+
+  return gaps;
+}
+
+/**
+ * Merge overlapping or touching ranges
+ */
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const merged: TimeRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1];
+    if (last && range.from <= last.to) {
+      last.to = Math.max(last.to, range.to);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -1,5 +1,7 @@
 import { ClockSyncError } from '../errors/index.js';
+import { SilentLogger } from './logger.js';
 import type { ClockSync } from '../types/common.js';
+import type { Logger } from './logger.js';
 
 /**
  * Clock synchronization utility for handling server time drift
@@ -11,7 +13,10 @@ export class ClockSynchronizer {
   private syncInProgress = false;
   private syncPromise?: Promise<void>;
 
-  constructor(config: Partial<ClockSync> = {}) {
+  constructor(
+    config: Partial<ClockSync> = {},
+    private readonly logger: Logger = new SilentLogger()
+  ) {
     this.config = {
       enabled: config.enabled ?? true,
       maxDrift: config.maxDrift ?? 5000,
@@ -182,10 +187,11 @@ export class ClockSynchronizer {
     // Check if offset changed significantly
     const offsetChange = Math.abs(this.offset - previousOffset);
     if (offsetChange > 1000) { // More than 1 second change
-      console.warn(
-        `Significant clock offset change detected: ${offsetChange}ms ` +
-        `(old: ${previousOffset}ms, new: ${this.offset}ms)`
-      );
+      this.logger.warn('Significant clock offset change detected', {
+        offsetChange,
+        previousOffset,
+        offset: this.offset,
+      });
     }
   }
 }
@@ -0,0 +1,227 @@
+import { MarketDataError } from '../errors/index.js';
+import type { CallOptions } from '../types/common.js';
+import type { Instrument, Position, Quote } from '../types/trading.js';
+import type { ConversionRatesApi } from '../rest/conversion-rates.js';
+import type { InstrumentCatalog } from '../core/instrument-catalog.js';
+
+/**
+ * Currency converter options
+ */
+export interface CurrencyConverterOptions {
+  /** Currency amounts are converted into by default */
+  accountCurrency: string;
+  /** Source of REST conversion rates for `refresh()` */
+  ratesApi?: ConversionRatesApi;
+  /** Ignore rates older than this, in milliseconds */
+  maxAge?: number;
+  /** Instruments whose base and quote currencies are used for quotes and positions */
+  instruments?: Instrument[];
+  /** Catalog consulted for the currencies of symbols that were not registered */
+  catalog?: InstrumentCatalog;
+}
+
+/**
+ * Position P&L expressed in one currency
+ */
+export interface ConvertedPnl {
+  unrealizedPnl: number;
+  realizedPnl: number;
+  currency: string;
+}
+
+interface RateEntry {
+  rate: number;
+  timestamp: number;
+}
+
+/**
+ * Split a currency pair symbol such as `EURUSD`, `EUR/USD` or `EUR.USD`
+ * into base and quote currency
+ */
+export function parseCurrencyPair(symbol: string): [base: string, quote: string] | undefined {
+  const letters = symbol.replace(/[/._\-\s]/g, '').toUpperCase();
+  if (!/^[A-Z]{6}$/.test(letters)) {
+    return undefined;
+  }
+  return [letters.slice(0, 3), letters.slice(3)];
+}
+
+/**
+ * Converts amounts between currencies using REST conversion rates and live quotes
+ *
+ * Every known rate is also usable inverted. When no direct rate exists the
+ * shortest chain of known rates is used, e.g. GBP→JPY via USD.
+ */
+export class CurrencyConverter {
+  private readonly accountCurrency: string;
+  private readonly ratesApi?: ConversionRatesApi;
+  private readonly maxAge: number;
+  private readonly catalog?: InstrumentCatalog;
+  private readonly rates = new Map<string, Map<string, RateEntry>>();
+  private readonly pairs = new Map<string, [base: string, quote: string]>();
+
+  constructor(options: CurrencyConverterOptions) {
+    this.accountCurrency = options.accountCurrency.toUpperCase();
+    this.ratesApi = options.ratesApi;
+    this.maxAge = options.maxAge ?? Infinity;
+    this.catalog = options.catalog;
+    options.instruments?.forEach(instrument => this.registerInstrument(instrument));
+  }
+
+  /**
+   * Get the default target currency
+   */
+  getAccountCurrency(): string {
+    return this.accountCurrency;
+  }
+
+  /**
+   * Record the currencies of an instrument for quote and position conversion
+   */
+  registerInstrument(instrument: Instrument): void {
+    this.pairs.set(instrument.symbol, [
+      instrument.baseAsset.toUpperCase(),
+      instrument.quoteAsset.toUpperCase(),
+    ]);
+  }
+
+  /**
+   * Set the rate for 1 unit of `fromCurrency` in `toCurrency`.
+   * Rates older than the one already known for the pair are ignored.
+   */
+  setRate(fromCurrency: string, toCurrency: string, rate: number, timestamp = Date.now()): void {
+    if (!(rate > 0) || !Number.isFinite(rate)) {
+      return;
+    }
+
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+    this.setEdge(from, to, { rate, timestamp });
+    this.setEdge(to, from, { rate: 1 / rate, timestamp });
+  }
+
+  /**
+   * Update rates from a live quote, using the mid price.
+   * Quotes of symbols that are not currency pairs are ignored.
+   */
+  updateQuote(quote: Quote): void {
+    const pair = this.getPair(quote.symbol);
+    if (pair && quote.bid > 0 && quote.ask > 0) {
+      this.setRate(pair[0], pair[1], (quote.bid + quote.ask) / 2, quote.timestamp);
+    }
+  }
+
+  /**
+   * Load conversion rates from the REST API
+   */
+  async refresh(callOptions?: CallOptions): Promise<void> {
+    if (!this.ratesApi) {
+      throw new MarketDataError('No conversion rates API configured');
+    }
+
+    const rates = await this.ratesApi.getConversionRates({}, callOptions);
+    for (const { fromCurrency, toCurrency, rate, timestamp } of rates) {
+      this.setRate(fromCurrency, toCurrency, rate, timestamp);
+    }
+  }
+
+  /**
+   * Get the rate for 1 unit of `fromCurrency` in `toCurrency`, or undefined if
+   * no chain of fresh rates connects them
+   */
+  getRate(fromCurrency: string, toCurrency: string = this.accountCurrency): number | undefined {
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+    if (from === to) {
+      return 1;
+    }
+
+    // Breadth-first search finds the chain with the fewest conversions
+    const now = Date.now();
+    const visited = new Map<string, number>([[from, 1]]);
+    const queue = [from];
+
+    for (let currency = queue.shift(); currency !== undefined; currency = queue.shift()) {
+      const rate = visited.get(currency) as number;
+
+      for (const [next, entry] of this.rates.get(currency) ?? []) {
+        if (visited.has(next) || now - entry.timestamp > this.maxAge) {
+          continue;
+        }
+        if (next === to) {
+          return rate * entry.rate;
+        }
+        visited.set(next, rate * entry.rate);
+        queue.push(next);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Convert an amount, by default into the account currency
+   *
+   * @throws MarketDataError if no rate is available
+   */
+  convert(amount: number, fromCurrency: string, toCurrency: string = this.accountCurrency): number {
+    const rate = this.getRate(fromCurrency, toCurrency);
+    if (rate === undefined) {
+      throw new MarketDataError(`No conversion rate from ${fromCurrency} to ${toCurrency}`, {
+        details: { fromCurrency, toCurrency },
+      });
+    }
+    return amount * rate;
+  }
+
+  /**
+   * Convert position P&L, reported in the instrument's quote currency,
+   * into the account currency
+   *
+   * @throws MarketDataError if the quote currency or a rate is unknown
+   */
+  convertPositionPnl(position: Position, quoteCurrency?: string): ConvertedPnl {
+    const currency = quoteCurrency ?? this.getPair(position.symbol)?.[1];
+    if (!currency) {
+      throw new MarketDataError(`Unknown quote currency for ${position.symbol}`, {
+        symbol: position.symbol,
+      });
+    }
+
+    return {
+      unrealizedPnl: this.convert(position.unrealizedPnl, currency),
+      realizedPnl: this.convert(position.realizedPnl, currency),
+      currency: this.accountCurrency,
+    };
+  }
+
+  /**
+   * Get base and quote currency of a symbol
+   */
+  private getPair(symbol: string): [string, string] | undefined {
+    const registered = this.pairs.get(symbol);
+    if (registered) {
+      return registered;
+    }
+
+    const instrument = this.catalog?.get(symbol);
+    if (instrument) {
+      return [instrument.baseAsset.toUpperCase(), instrument.quoteAsset.toUpperCase()];
+    }
+    return parseCurrencyPair(symbol);
+  }
+
+  /**
+   * Store one direction of a rate unless a newer one is known
+   */
+  private setEdge(from: string, to: string, entry: RateEntry): void {
+    let edges = this.rates.get(from);
+    if (!edges) {
+      edges = new Map();
+      this.rates.set(from, edges);
+    }
+    if ((edges.get(to)?.timestamp ?? -Infinity) <= entry.timestamp) {
+      edges.set(to, entry);
+    }
+  }
+}
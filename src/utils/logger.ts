@@ -0,0 +1,242 @@
+/**
+ * Log levels in increasing order of severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured log fields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface accepted by the SDK
+ *
+ * Compatible with most structured loggers through a thin adapter.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Create a logger that adds `bindings` to every entry */
+  child(bindings: LogFields): Logger;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are never logged (compared case-insensitively)
+ */
+const SENSITIVE_KEYS = new Set([
+  'password',
+  'secret',
+  'apikey',
+  'token',
+  'session',
+  'sessiontoken',
+  'accesstoken',
+  'refreshtoken',
+  'authorization',
+  'x-auth-token',
+  'cookie',
+  'set-cookie',
+  'signature',
+  'x-signature',
+]);
+
+/**
+ * Redact secrets from a value before it is logged.
+ *
+ * Objects and arrays are copied with sensitive fields replaced, and
+ * credentials embedded in authorization strings are masked.
+ */
+export function redact(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\b(Bearer|DXAPI|Session)\s+\S+/g, `$1 ${REDACTED}`);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redact(value.message, seen),
+      ...(value.cause !== undefined && { cause: redact(value.cause, seen) }),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+
+  if (value instanceof Headers) {
+    const headers: Record<string, string> = {};
+    value.forEach((headerValue, name) => {
+      headers[name] = headerValue;
+    });
+    return redact(headers, seen);
+  }
+
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const result: LogFields = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(fieldValue, seen);
+  }
+  return result;
+}
+
+/**
+ * Logger that discards all entries - the SDK default
+ */
+export class SilentLogger implements Logger {
+  debug(): void {}
+  info(): void {}
+  warn(): void {}
+  error(): void {}
+
+  child(): Logger {
+    return this;
+  }
+}
+
+/**
+ * Console logger options
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level to output */
+  level?: LogLevel;
+  /** Fields added to every entry */
+  bindings?: LogFields;
+}
+
+/**
+ * Logger writing to the console
+ */
+export class ConsoleLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly bindings: LogFields;
+
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.bindings = options.bindings ?? {};
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(bindings: LogFields): Logger {
+    return new ConsoleLogger({
+      level: this.level,
+      bindings: { ...this.bindings, ...bindings },
+    });
+  }
+
+  /**
+   * Write entry if it meets the minimum level
+   */
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.level]) {
+      return;
+    }
+
+    const entry = { ...this.bindings, ...fields };
+    if (Object.keys(entry).length > 0) {
+      console[level](message, entry);
+    } else {
+      console[level](message);
+    }
+  }
+}
+
+/**
+ * Logger wrapper that redacts secrets from every entry
+ */
+export class RedactingLogger implements Logger {
+  constructor(private readonly logger: Logger) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.logger.debug(redact(message) as string, this.redactFields(fields));
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.logger.info(redact(message) as string, this.redactFields(fields));
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.logger.warn(redact(message) as string, this.redactFields(fields));
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.logger.error(redact(message) as string, this.redactFields(fields));
+  }
+
+  child(bindings: LogFields): Logger {
+    return new RedactingLogger(this.logger.child(this.redactFields(bindings) ?? {}));
+  }
+
+  /**
+   * Redact structured fields
+   */
+  private redactFields(fields?: LogFields): LogFields | undefined {
+    return fields && (redact(fields) as LogFields);
+  }
+}
+
+/**
+ * Check if a value implements the Logger interface
+ */
+export function isLogger(value: unknown): value is Logger {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return ['debug', 'info', 'warn', 'error', 'child'].every(
+    method => typeof candidate[method] === 'function'
+  );
+}
+
+/**
+ * Create the logger used internally by the SDK.
+ * Defaults to a silent logger; any provided logger is wrapped with redaction.
+ */
+export function createLogger(logger?: Logger): Logger {
+  if (!logger || logger instanceof SilentLogger) {
+    return new SilentLogger();
+  }
+
+  return logger instanceof RedactingLogger ? logger : new RedactingLogger(logger);
+}
@@ -0,0 +1,74 @@
+/**
+ * Pagination block returned by paginated REST endpoints
+ */
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * One page of results
+ */
+export interface Page<T> {
+  items: T[];
+  pagination?: PaginationInfo;
+}
+
+/**
+ * Pagination options
+ */
+export interface PaginateOptions {
+  /** Fetch the next page while the current one is being consumed */
+  prefetch?: boolean;
+  /** Stop after this many pages */
+  maxPages?: number;
+}
+
+/**
+ * Iterate items of a paginated endpoint, fetching pages lazily
+ *
+ * Iteration stops after the last page reported by the server, at the first
+ * empty page, or after a single page when the response has no pagination
+ * block. Breaking out of a `for await` loop stops fetching; a prefetched page
+ * is then discarded.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<Page<T>>,
+  startPage = 1,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const maxPages = options.maxPages ?? Infinity;
+  let page: number | undefined = startPage;
+  let prefetched: Promise<Page<T>> | undefined;
+  let fetched = 0;
+
+  while (page !== undefined) {
+    const result: Page<T> = await (prefetched ?? fetchPage(page));
+    prefetched = undefined;
+    fetched++;
+
+    const next: number | undefined =
+      hasNextPage(result, page) && fetched < maxPages ? page + 1 : undefined;
+    if (next !== undefined && options.prefetch) {
+      prefetched = fetchPage(next);
+      // Avoid an unhandled rejection if the consumer stops before awaiting it
+      prefetched.catch(() => undefined);
+    }
+
+    yield* result.items;
+    page = next;
+  }
+}
+
+/**
+ * Check if a page is followed by another one
+ */
+function hasNextPage(result: Page<unknown>, page: number): boolean {
+  return (
+    result.items.length > 0 &&
+    result.pagination !== undefined &&
+    page < result.pagination.totalPages
+  );
+}
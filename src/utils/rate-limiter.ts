@@ -23,14 +23,15 @@ export class RateLimiter {
     this.cleanup(now);
 
     // Check if we have capacity
-    if (this.timestamps.length >= this.requests) {
+    const limit = this.getLimit();
+    if (this.timestamps.length >= limit) {
       const oldestRequest = this.timestamps[0];
       if (oldestRequest !== undefined) {
         const retryAfter = oldestRequest + this.windowMs - now;
         
         throw new RateLimitError('Rate limit exceeded', {
           retryAfter: Math.max(0, retryAfter),
-          limit: this.requests,
+          limit,
           remaining: 0,
           resetTime: oldestRequest + this.windowMs,
         });
@@ -53,13 +54,14 @@ export class RateLimiter {
     const now = Date.now();
     this.cleanup(now);
 
-    const remaining = Math.max(0, this.requests - this.timestamps.length);
+    const limit = this.getLimit();
+    const remaining = Math.max(0, limit - this.timestamps.length);
     const oldestRequest = this.timestamps[0];
     const resetTime = oldestRequest ? oldestRequest + this.windowMs : undefined;
     const retryAfter = resetTime && resetTime > now ? resetTime - now : undefined;
 
     return {
-      limit: this.requests,
+      limit,
       remaining,
       resetTime,
       retryAfter,
@@ -153,6 +155,13 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Get number of requests currently allowed per window
+   */
+  protected getLimit(): number {
+    return this.requests;
+  }
+
   /**
    * Remove expired timestamps
    */
@@ -171,6 +180,20 @@ export class RateLimiter {
   }
 }
 
+/**
+ * Adaptive rate limiter options
+ */
+export interface AdaptiveRateLimiterOptions {
+  /** Lowest fraction of the configured limit the rate may drop to */
+  minMultiplier?: number;
+  /** Minimum time between adjustments, in milliseconds */
+  adjustmentInterval?: number;
+  /** Outcomes needed before the rate is adjusted */
+  minSamples?: number;
+  /** Called when the multiplier changes */
+  onAdjust?: (multiplier: number, previous: number) => void;
+}
+
 /**
  * Adaptive rate limiter that adjusts based on server responses
  */
@@ -180,9 +203,19 @@ export class AdaptiveRateLimiter extends RateLimiter {
   private lastAdjustment = Date.now();
   private currentMultiplier = 1;
   
-  private readonly minMultiplier = 0.1;
+  private readonly minMultiplier: number;
   private readonly maxMultiplier = 1;
-  private readonly adjustmentInterval = 60000; // 1 minute
+  private readonly adjustmentInterval: number;
+  private readonly minSamples: number;
+  private readonly onAdjust?: (multiplier: number, previous: number) => void;
+
+  constructor(requests: number, windowMs: number, options: AdaptiveRateLimiterOptions = {}) {
+    super(requests, windowMs);
+    this.minMultiplier = options.minMultiplier ?? 0.1;
+    this.adjustmentInterval = options.adjustmentInterval ?? 60000; // 1 minute
+    this.minSamples = options.minSamples ?? 10;
+    this.onAdjust = options.onAdjust;
+  }
 
   /**
    * Record successful request
@@ -204,7 +237,18 @@ export class AdaptiveRateLimiter extends RateLimiter {
    * Get effective rate limit (adjusted by current multiplier)
    */
   getEffectiveLimit(): number {
-    return Math.floor(this.requests * this.currentMultiplier);
+    return Math.max(1, Math.floor(this.requests * this.currentMultiplier));
+  }
+
+  /**
+   * Get current rate multiplier
+   */
+  getMultiplier(): number {
+    return this.currentMultiplier;
+  }
+
+  protected override getLimit(): number {
+    return this.getEffectiveLimit();
   }
 
   /**
@@ -217,11 +261,12 @@ export class AdaptiveRateLimiter extends RateLimiter {
     }
 
     const totalRequests = this.successCount + this.errorCount;
-    if (totalRequests < 10) {
+    if (totalRequests < this.minSamples) {
       return; // Not enough data
     }
 
     const errorRate = this.errorCount / totalRequests;
+    const previous = this.currentMultiplier;
     
     if (errorRate < 0.01) {
       // Very low error rate, increase rate
@@ -235,5 +280,9 @@ export class AdaptiveRateLimiter extends RateLimiter {
     this.successCount = 0;
     this.errorCount = 0;
     this.lastAdjustment = now;
+
+    if (this.currentMultiplier !== previous) {
+      this.onAdjust?.(this.currentMultiplier, previous);
+    }
   }
 }
\ No newline at end of file
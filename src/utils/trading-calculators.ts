@@ -0,0 +1,232 @@
+import { ValidationError } from '../errors/index.js';
+import type { OrderSide } from '../types/trading.js';
+import type { InstrumentSpec } from '../rest/instruments.js';
+import type { CurrencyConverter } from './currency-converter.js';
+
+/**
+ * Options shared by the trading calculators
+ */
+export interface CalculatorOptions {
+  /** Unit of quantities, as used in orders; defaults to `units` of the instrument */
+  quantityUnit?: 'units' | 'lots';
+  /** Account leverage; the instrument's margin rate and maximum leverage still apply */
+  leverage?: number;
+  /** Convert results from the instrument's quote currency into the account currency */
+  converter?: CurrencyConverter;
+}
+
+/**
+ * Margin calculation result, shaped like `AccountsApi.calculateMarginRequirement`
+ */
+export interface MarginResult {
+  marginRequired: number;
+  marginCurrency: string;
+  marginRate: number;
+}
+
+/**
+ * Pip and point value of a quantity
+ */
+export interface PipValueResult {
+  /** Price move of one pip: ten ticks for 3 and 5 digit FX quotes, otherwise one tick */
+  pipSize: number;
+  pipValue: number;
+  /** Value of a one-tick move */
+  pointValue: number;
+  currency: string;
+}
+
+/**
+ * Position size for a risk amount, shaped like `PositionsApi.calculatePositionSize`
+ */
+export interface PositionSizeResult {
+  /** Rounded down to the step size; 0 if even the minimum size risks too much */
+  positionSize: number;
+  /** Amount lost if the stop-loss is hit at `positionSize` */
+  riskAmount: number;
+  marginRequired: number;
+  currency: string;
+}
+
+/**
+ * Money at stake between entry and stop-loss or take-profit
+ */
+export interface ProtectionValueResult {
+  stopLossAmount?: number;
+  takeProfitAmount?: number;
+  /** Take-profit amount per unit of stop-loss amount */
+  riskReward?: number;
+  currency: string;
+}
+
+/**
+ * Get the number of contracts (lots) a quantity represents
+ */
+function toContracts(spec: InstrumentSpec, quantity: number, options: CalculatorOptions): number {
+  return options.quantityUnit === 'lots' ? quantity : quantity / spec.contractSize;
+}
+
+/**
+ * Convert an amount in the instrument's quote currency into the result currency
+ */
+function toResultCurrency(
+  spec: InstrumentSpec,
+  amount: number,
+  options: CalculatorOptions
+): [amount: number, currency: string] {
+  if (!options.converter) {
+    return [amount, spec.quoteAsset];
+  }
+  return [
+    options.converter.convert(amount, spec.quoteAsset),
+    options.converter.getAccountCurrency(),
+  ];
+}
+
+/**
+ * Get the value of a price move of 1.0 for one quantity unit, in the quote currency.
+ * One contract moving one tick is worth `pointValue`.
+ */
+function valuePerPriceUnit(spec: InstrumentSpec, options: CalculatorOptions): number {
+  return (toContracts(spec, 1, options) * spec.pointValue) / spec.tickSize;
+}
+
+/**
+ * Get the margin rate: the instrument's rate, or the inverse of the lower of
+ * account and instrument leverage, whichever is higher. Without either, the
+ * full notional value is required.
+ */
+export function getMarginRate(spec: InstrumentSpec, leverage?: number): number {
+  const maxLeverage = Math.min(leverage || Infinity, spec.maxLeverage || Infinity);
+  if (!Number.isFinite(maxLeverage)) {
+    return spec.marginRate ?? 1;
+  }
+  return Math.max(spec.marginRate ?? 0, 1 / maxLeverage);
+}
+
+/**
+ * Calculate the margin required to open a position
+ *
+ * Margin is the position's notional value, `quantity × price` in units of
+ * the instrument, times the margin rate.
+ */
+export function calculateMargin(
+  spec: InstrumentSpec,
+  quantity: number,
+  price: number,
+  options: CalculatorOptions = {}
+): MarginResult {
+  const marginRate = getMarginRate(spec, options.leverage);
+  const units = toContracts(spec, quantity, options) * spec.contractSize;
+  const [marginRequired, marginCurrency] = toResultCurrency(
+    spec,
+    units * price * marginRate,
+    options
+  );
+
+  return { marginRequired, marginCurrency, marginRate };
+}
+
+/**
+ * Calculate the pip and point value of a quantity
+ */
+export function calculatePipValue(
+  spec: InstrumentSpec,
+  quantity: number,
+  options: CalculatorOptions = {}
+): PipValueResult {
+  const pipSize =
+    spec.type === 'FOREX' && (spec.digits === 3 || spec.digits === 5)
+      ? 1 / 10 ** (spec.digits - 1)
+      : spec.tickSize;
+  const perPriceUnit = quantity * valuePerPriceUnit(spec, options);
+  const [pipValue, currency] = toResultCurrency(spec, perPriceUnit * pipSize, options);
+  const [pointValue] = toResultCurrency(spec, perPriceUnit * spec.tickSize, options);
+
+  return { pipSize, pipValue, pointValue, currency };
+}
+
+/**
+ * Calculate the money made or lost when a quantity moves between two prices;
+ * positive when `to` is in the position's favour
+ */
+export function calculatePriceMoveValue(
+  spec: InstrumentSpec,
+  side: OrderSide,
+  quantity: number,
+  from: number,
+  to: number,
+  options: CalculatorOptions = {}
+): number {
+  const move = side === 'BUY' ? to - from : from - to;
+  return toResultCurrency(spec, move * quantity * valuePerPriceUnit(spec, options), options)[0];
+}
+
+/**
+ * Calculate the amounts at stake between entry and stop-loss and take-profit
+ */
+export function calculateProtectionValue(
+  spec: InstrumentSpec,
+  order: {
+    side: OrderSide;
+    quantity: number;
+    entryPrice: number;
+    stopLoss?: number;
+    takeProfit?: number;
+  },
+  options: CalculatorOptions = {}
+): ProtectionValueResult {
+  const { side, quantity, entryPrice, stopLoss, takeProfit } = order;
+  const value = (price: number): number =>
+    Math.abs(calculatePriceMoveValue(spec, side, quantity, entryPrice, price, options));
+
+  const stopLossAmount = stopLoss === undefined ? undefined : value(stopLoss);
+  const takeProfitAmount = takeProfit === undefined ? undefined : value(takeProfit);
+
+  return {
+    stopLossAmount,
+    takeProfitAmount,
+    riskReward:
+      stopLossAmount && takeProfitAmount !== undefined
+        ? takeProfitAmount / stopLossAmount
+        : undefined,
+    currency: options.converter?.getAccountCurrency() ?? spec.quoteAsset,
+  };
+}
+
+/**
+ * Calculate the largest position whose loss at the stop-loss stays within
+ * a risk amount given in the result currency
+ *
+ * @throws ValidationError if entry and stop-loss prices are equal
+ */
+export function calculatePositionSize(
+  spec: InstrumentSpec,
+  riskAmount: number,
+  entryPrice: number,
+  stopLossPrice: number,
+  options: CalculatorOptions = {}
+): PositionSizeResult {
+  const [riskPerQuantity, currency] = toResultCurrency(
+    spec,
+    Math.abs(entryPrice - stopLossPrice) * valuePerPriceUnit(spec, options),
+    options
+  );
+  if (!(riskPerQuantity > 0)) {
+    throw new ValidationError('Stop-loss price must differ from entry price', [], 'stopLossPrice');
+  }
+
+  const step = spec.stepSize > 0 ? spec.stepSize : 1;
+  const steps = Math.floor(Math.min(riskAmount / riskPerQuantity, spec.maxSize) / step + 1e-9);
+  let positionSize = Number((steps * step).toFixed(10));
+  if (positionSize < spec.minSize) {
+    positionSize = 0;
+  }
+
+  return {
+    positionSize,
+    riskAmount: positionSize * riskPerQuantity,
+    marginRequired: calculateMargin(spec, positionSize, entryPrice, options).marginRequired,
+    currency,
+  };
+}
@@ -0,0 +1,238 @@
+import { MarketDataError } from '../errors/index.js';
+import type { MarketHours } from '../rest/instruments.js';
+
+/**
+ * Market status at an instant, shaped like `InstrumentsApi.isMarketOpen`
+ */
+export interface MarketStatus {
+  isOpen: boolean;
+  /** When the market next opens; while open, when it reopens after the next close */
+  nextOpen?: number;
+  /** When the market next closes, joining back-to-back sessions */
+  nextClose?: number;
+  /** Name of the session in progress */
+  currentSession?: string;
+  /** Milliseconds until `nextClose` while open */
+  timeToClose?: number;
+}
+
+/**
+ * One occurrence of a trading session
+ */
+export interface TradingSession {
+  name: string;
+  open: number;
+  close: number;
+}
+
+interface SessionRule {
+  name: string;
+  days: number[];
+  start: number;
+  end: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+/** How far ahead to look for the next session, covering long holiday lists */
+const MAX_LOOKAHEAD_DAYS = 370;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a cached formatter printing wall-clock time in a time zone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get wall-clock time in a time zone as if it were UTC, in milliseconds
+ */
+function toWallClock(timeZone: string, instant: number): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+  return Date.UTC(
+    parts.year ?? 1970,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+    instant % 1000
+  );
+}
+
+/**
+ * Convert wall-clock time in a time zone to an instant. Times skipped by a
+ * DST change map to after the change.
+ */
+function fromWallClock(timeZone: string, wallClock: number): number {
+  const guess = wallClock - (toWallClock(timeZone, wallClock) - wallClock);
+  return wallClock - (toWallClock(timeZone, guess) - guess);
+}
+
+/**
+ * Parse `HH:MM` into minutes after midnight; `24:00` is end of day
+ */
+function parseTime(time: string, symbol: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+
+  if (!(minutes >= 0 && minutes <= MINUTES_PER_DAY)) {
+    throw new MarketDataError(`Invalid session time for ${symbol}: ${time}`, { symbol });
+  }
+  return minutes;
+}
+
+/**
+ * Local trading calendar computed from market hours
+ *
+ * Sessions are wall-clock times in the market's time zone, so opens and
+ * closes follow DST changes. A session whose end is not after its start runs
+ * overnight into the next day. Sessions that would open on a holiday are
+ * skipped. Back-to-back sessions count as one continuous open period.
+ */
+export class TradingCalendar {
+  readonly symbol: string;
+  readonly timeZone: string;
+  private readonly rules: SessionRule[];
+  private readonly holidays: Set<string>;
+
+  constructor(hours: MarketHours) {
+    this.symbol = hours.symbol;
+    this.timeZone = hours.timezone;
+
+    try {
+      getFormatter(this.timeZone);
+    } catch {
+      throw new MarketDataError(`Unknown time zone for ${hours.symbol}: ${hours.timezone}`, {
+        symbol: hours.symbol,
+      });
+    }
+
+    this.rules = hours.sessions.map(session => ({
+      name: session.name,
+      days: session.days,
+      start: parseTime(session.start, hours.symbol),
+      end: parseTime(session.end, hours.symbol),
+    }));
+    this.holidays = new Set(hours.holidays.map(holiday => holiday.slice(0, 10)));
+  }
+
+  /**
+   * Get the market status at an instant
+   */
+  getStatus(at: number = Date.now()): MarketStatus {
+    const periods: Array<{ open: number; close: number }> = [];
+    let currentSession: string | undefined;
+
+    for (const session of this.sessionsFrom(at)) {
+      if (session.close <= at) {
+        continue;
+      }
+      if (session.open <= at) {
+        currentSession = session.name;
+      }
+
+      const last = periods[periods.length - 1];
+      if (last && session.open <= last.close) {
+        last.close = Math.max(last.close, session.close);
+      } else if (periods.push({ open: session.open, close: session.close }) === 2) {
+        // The first period is complete once another one begins
+        break;
+      }
+    }
+
+    const [period, following] = periods;
+    if (!period) {
+      return { isOpen: false };
+    }
+    if (period.open > at) {
+      return { isOpen: false, nextOpen: period.open, nextClose: period.close };
+    }
+    return {
+      isOpen: true,
+      nextOpen: following?.open,
+      nextClose: period.close,
+      currentSession,
+      timeToClose: period.close - at,
+    };
+  }
+
+  /**
+   * Check if the market is open at an instant
+   */
+  isOpen(at: number = Date.now()): boolean {
+    return this.getStatus(at).isOpen;
+  }
+
+  /**
+   * Get session occurrences overlapping a time range, earliest first
+   */
+  getSessions(from: number, to: number): TradingSession[] {
+    const sessions: TradingSession[] = [];
+    for (const session of this.sessionsFrom(from)) {
+      if (session.open >= to) {
+        break;
+      }
+      if (session.close > from) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Generate session occurrences by opening time, starting the local day
+   * before `from` so overnight sessions in progress are included
+   */
+  private *sessionsFrom(from: number): Generator<TradingSession, void, undefined> {
+    if (this.rules.length === 0) {
+      return;
+    }
+
+    const msPerDay = MINUTES_PER_DAY * MS_PER_MINUTE;
+    const today = Math.floor(toWallClock(this.timeZone, from) / msPerDay);
+
+    for (let day = today - 1; day <= today + MAX_LOOKAHEAD_DAYS; day++) {
+      const midnight = day * msPerDay;
+      const date = new Date(midnight);
+      if (this.holidays.has(date.toISOString().slice(0, 10))) {
+        continue;
+      }
+
+      const weekday = date.getUTCDay();
+      const sessions = this.rules
+        .filter(rule => rule.days.includes(weekday))
+        .map(rule => {
+          const end = rule.end > rule.start ? rule.end : rule.end + MINUTES_PER_DAY;
+          return {
+            name: rule.name,
+            open: fromWallClock(this.timeZone, midnight + rule.start * MS_PER_MINUTE),
+            close: fromWallClock(this.timeZone, midnight + end * MS_PER_MINUTE),
+          };
+        })
+        .sort((a, b) => a.open - b.open);
+
+      yield* sessions;
+    }
+  }
+}
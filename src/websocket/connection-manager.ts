@@ -32,7 +32,7 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
     message: WebSocketMessage;
     timestamp: number;
   }> = [];
-  private subscriptions = new Map<string, SubscriptionState>();
+  private subscriptions = new Map<SubscriptionType, SubscriptionState>();
   private reconnectAttempt = 0;
   private isDestroyed = false;
 
@@ -185,14 +185,14 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
   }
 
   /**
-   * Subscribe to channel
+   * Subscribe to channel, adding symbols to those already subscribed
    */
   subscribe(channel: SubscriptionType, symbols?: string[]): void {
-    const subscriptionKey = this.getSubscriptionKey(channel, symbols);
-    
-    this.subscriptions.set(subscriptionKey, {
+    const subscription = this.subscriptions.get(channel);
+
+    this.subscriptions.set(channel, {
       channel,
-      symbols: symbols ?? [],
+      symbols: [...new Set([...(subscription?.symbols ?? []), ...(symbols ?? [])])],
       active: false,
     });
 
@@ -205,12 +205,19 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
   }
 
   /**
-   * Unsubscribe from channel
+   * Unsubscribe from symbols of a channel, or from the whole channel
    */
   unsubscribe(channel: SubscriptionType, symbols?: string[]): void {
-    const subscriptionKey = this.getSubscriptionKey(channel, symbols);
-    
-    this.subscriptions.delete(subscriptionKey);
+    const subscription = this.subscriptions.get(channel);
+    const remaining = symbols
+      ? (subscription?.symbols ?? []).filter(symbol => !symbols.includes(symbol))
+      : [];
+
+    if (subscription && remaining.length > 0) {
+      subscription.symbols = remaining;
+    } else {
+      this.subscriptions.delete(channel);
+    }
 
     this.send({
       type: 'UNSUBSCRIBE',
@@ -308,6 +315,7 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
    * Handle WebSocket open event
    */
   private handleOpen(): void {
+    const reconnected = this.reconnectAttempt > 0;
     this.setState('OPEN');
     this.reconnectBackoff.reset();
     this.reconnectAttempt = 0;
@@ -316,7 +324,7 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
     this.processMessageQueue();
     this.resubscribeAll();
     
-    if (this.reconnectAttempt > 0) {
+    if (reconnected) {
       this.emit('reconnected');
     }
   }
@@ -432,13 +440,8 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
    */
   private handleSubscriptionResponse(message: WebSocketMessage): void {
     if (message.type === 'SUBSCRIBE' || message.type === 'UNSUBSCRIBE') {
-      const subscriptionKey = this.getSubscriptionKey(
-        message.channel,
-        message.symbols
-      );
-      
       if (message.type === 'SUBSCRIBE') {
-        const subscription = this.subscriptions.get(subscriptionKey);
+        const subscription = this.subscriptions.get(message.channel);
         if (subscription) {
           subscription.active = true;
           subscription.lastUpdate = Date.now();
@@ -639,12 +642,4 @@ export class ConnectionManager extends EventEmitter<WebSocketEventMap> {
       this.pingTimeout = undefined;
     }
   }
-
-  /**
-   * Generate subscription key
-   */
-  private getSubscriptionKey(channel: SubscriptionType, symbols?: string[]): string {
-    const symbolsKey = symbols?.sort().join(',') ?? '';
-    return `${channel}:${symbolsKey}`;
-  }
 }
\ No newline at end of file
@@ -9,6 +9,8 @@ import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import type { SDKConfig } from '../types/common.js';
 import { getWebSocketUrl } from '../config/env-config.js';
+import { createLogger } from '../utils/logger.js';
+import type { Logger } from '../utils/logger.js';
 
 export interface WebSocketSubscription {
   type: 'prices' | 'candles' | 'portfolio';
@@ -98,16 +100,18 @@ export class DXWebSocketClient extends EventEmitter {
   private initialDataLoaded: boolean = false;
   private readonly pingIntervalMs: number = 45000; // 45 seconds
   private readonly pingTimeoutMs: number = 120000; // 2 minutes timeout
+  private readonly logger: Logger;
   
   constructor(config: SDKConfig, sessionToken: string, account: string = 'default:dealtest') {
     super();
     this.config = config;
     this.sessionToken = sessionToken;
     this.account = account;
+    this.logger = createLogger(config.logger).child({ component: 'DXWebSocketClient' });
     
     // Set up error handling
     this.on('error', (error) => {
-      console.error('DXWebSocketClient error:', error);
+      this.logger.error('DXWebSocketClient error', { error });
     });
   }
   
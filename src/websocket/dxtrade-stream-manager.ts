@@ -1,12 +1,20 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+import { MarketDataError, TimeoutError, WebSocketError } from '../errors/index.js';
+import { SubscriptionRegistry } from './subscription-registry.js';
+import { AsyncStream } from '../utils/async-stream.js';
+import type { AsyncStreamOptions } from '../utils/async-stream.js';
+import type { SubscriptionHandle } from './subscription-registry.js';
 import type { SDKConfig } from '../types/common.js';
+import type { Logger } from '../utils/logger.js';
 import {
   DXTradeWebSocketConfig,
   DXTradeStreamOptions,
   DXTradeStreamCallbacks,
   DXTradeConnectionStatus,
   DXTradeTestResult,
+  SymbolSubscriptionChange,
   type DXTradeWebSocketMessage,
   type PingRequestMessage,
   type MarketDataMessage,
@@ -18,6 +26,15 @@ import {
   DXTradeWebSocketMessageSchema,
 } from '../types/dxtrade-messages.js';
 
+/**
+ * Subscription request awaiting its SubscriptionResponse
+ */
+interface PendingRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
 /**
  * DXTrade WebSocket Stream Manager
  * 
@@ -31,6 +48,7 @@ export class DXTradeStreamManager extends EventEmitter {
   private readonly streamConfig: DXTradeWebSocketConfig;
   private readonly options: Required<DXTradeStreamOptions>;
   private readonly callbacks: DXTradeStreamCallbacks;
+  private readonly logger: Logger;
 
   // WebSocket connections
   private marketDataWs: WebSocket | null = null;
@@ -41,8 +59,15 @@ export class DXTradeStreamManager extends EventEmitter {
   private reconnectTimers: { marketData?: NodeJS.Timeout; portfolio?: NodeJS.Timeout } = {};
   private isDestroyed = false;
 
+  // Market data subscriptions: the subscription set holds one reference to each of its symbols
+  private readonly symbols: Set<string>;
+  private readonly subscriptions = new SubscriptionRegistry<'quotes'>();
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private requestCounter = 0;
+  private readonly iterators = new Set<AsyncStream<unknown>>();
+
   constructor(
-    _config: SDKConfig,
+    config: SDKConfig,
     streamConfig: DXTradeWebSocketConfig,
     options: DXTradeStreamOptions = {},
     callbacks: DXTradeStreamCallbacks = {}
@@ -51,6 +76,7 @@ export class DXTradeStreamManager extends EventEmitter {
     
     this.streamConfig = streamConfig;
     this.callbacks = callbacks;
+    this.logger = createLogger(config.logger).child({ component: 'DXTradeStreamManager' });
 
     // Set default options
     this.options = {
@@ -64,7 +90,10 @@ export class DXTradeStreamManager extends EventEmitter {
       maxReconnectAttempts: options.maxReconnectAttempts || 5,
       reconnectDelay: options.reconnectDelay || 3000,
       autoReconnect: options.autoReconnect ?? true,
+      subscriptionTimeout: options.subscriptionTimeout || 10000,
     };
+    this.symbols = new Set(this.options.symbols);
+    this.subscriptions.acquire('quotes', [...this.symbols]);
 
     // Initialize connection status
     this.status = {
@@ -140,6 +169,7 @@ export class DXTradeStreamManager extends EventEmitter {
     }
 
     await Promise.all(disconnections);
+    this.iterators.forEach(iterator => iterator.close());
 
     this.marketDataWs = null;
     this.portfolioWs = null;
@@ -151,7 +181,10 @@ export class DXTradeStreamManager extends EventEmitter {
    */
   destroy(): void {
     this.isDestroyed = true;
-    this.disconnect().catch(console.error);
+    this.iterators.forEach(iterator => iterator.close());
+    this.disconnect().catch(error => {
+      this.logger.error('Failed to disconnect', { error });
+    });
     this.removeAllListeners();
   }
 
@@ -163,36 +196,170 @@ export class DXTradeStreamManager extends EventEmitter {
   }
 
   /**
-   * Subscribe to market data for additional symbols
+   * Subscribe to market data for additional symbols.
+   * The symbols are kept in the subscription set and replayed after reconnects.
    */
   async subscribeToMarketData(symbols: string[]): Promise<boolean> {
-    if (!this.marketDataWs || this.marketDataWs.readyState !== WebSocket.OPEN) {
-      return false;
-    }
+    const added = symbols.filter(symbol => !this.symbols.has(symbol));
+    added.forEach(symbol => this.symbols.add(symbol));
+    this.subscriptions.acquire('quotes', added);
 
-    const subscriptionMessage = {
-      type: 'MarketDataSubscriptionRequest',
-      requestId: `market_data_${Date.now()}`,
-      session: this.streamConfig.sessionToken,
-      payload: {
-        account: this.options.account,
-        symbols,
-        eventTypes: [{
-          type: 'Quote',
-          format: 'COMPACT'
-        }]
+    return this.sendMarketDataRequest(symbols);
+  }
+
+  /**
+   * Get every subscribed symbol, whether added to the subscription set or held by a handle
+   */
+  getSymbols(): string[] {
+    return this.subscriptions.getSymbols('quotes');
+  }
+
+  /**
+   * Subscribe to symbols not yet in the subscription set
+   *
+   * Resolves once the server acknowledges the request. If the server rejects
+   * it, the symbols are dropped from the set again. While disconnected, the
+   * set is only updated and subscribed on the next connect. `added` lists the
+   * symbols sent, leaving out those already held by a `quotes()` handle.
+   *
+   * @throws MarketDataError if the server rejects the subscription
+   * @throws TimeoutError if no SubscriptionResponse arrives in time
+   */
+  async addSymbols(symbols: string[]): Promise<SymbolSubscriptionChange> {
+    const selected = [...new Set(symbols)].filter(symbol => !this.symbols.has(symbol));
+    selected.forEach(symbol => this.symbols.add(symbol));
+    const added = this.subscriptions.acquire('quotes', selected);
+
+    try {
+      const acknowledged = await this.sendAndAwait(
+        requestId => this.createMarketDataRequest(added, requestId),
+        added
+      );
+      return { added, removed: [], acknowledged };
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        selected.forEach(symbol => this.symbols.delete(symbol));
+        this.subscriptions.release('quotes', selected);
       }
-    };
+      throw error;
+    }
+  }
+
+  /**
+   * Unsubscribe from symbols in the subscription set. Symbols still held by
+   * a `quotes()` handle stay subscribed and are left out of `removed`. If the
+   * server rejects the request, the symbols are kept in the set.
+   *
+   * @throws MarketDataError if the server rejects the request
+   * @throws TimeoutError if no SubscriptionResponse arrives in time
+   */
+  async removeSymbols(symbols: string[]): Promise<SymbolSubscriptionChange> {
+    const deselected = [...new Set(symbols)].filter(symbol => this.symbols.has(symbol));
+    deselected.forEach(symbol => this.symbols.delete(symbol));
+    const removed = this.subscriptions.release('quotes', deselected);
 
     try {
-      this.marketDataWs.send(JSON.stringify(subscriptionMessage));
-      return true;
+      const acknowledged = await this.sendAndAwait(
+        requestId => this.createUnsubscribeRequest(removed, requestId),
+        removed
+      );
+      return { added: [], removed, acknowledged };
     } catch (error) {
-      console.error('Failed to subscribe to market data:', error);
-      return false;
+      if (error instanceof MarketDataError) {
+        deselected.forEach(symbol => this.symbols.add(symbol));
+        this.subscriptions.acquire('quotes', deselected);
+      }
+      throw error;
     }
   }
 
+  /**
+   * Replace the subscription set, sending only the difference
+   */
+  async setSymbols(symbols: string[]): Promise<SymbolSubscriptionChange> {
+    const wanted = new Set(symbols);
+    const { removed } = await this.removeSymbols(
+      [...this.symbols].filter(symbol => !wanted.has(symbol))
+    );
+    const { added, acknowledged } = await this.addSymbols(symbols);
+
+    return { added, removed, acknowledged };
+  }
+
+  /**
+   * Subscribe to quotes for one or more symbols, shared with other subscribers
+   *
+   * A symbol is unsubscribed once every handle holding it is disposed and it
+   * is not in the subscription set. Failed requests are reported through
+   * `onError`.
+   */
+  quotes(symbols: string | string[]): SubscriptionHandle {
+    const held = typeof symbols === 'string' ? [symbols] : [...new Set(symbols)];
+
+    const added = this.subscriptions.acquire('quotes', held);
+    this.sendInBackground(requestId => this.createMarketDataRequest(added, requestId), added);
+
+    return this.subscriptions.createHandle('quotes', held, () => {
+      const removed = this.subscriptions.release('quotes', held);
+      this.sendInBackground(requestId => this.createUnsubscribeRequest(removed, requestId), removed);
+    });
+  }
+
+  /**
+   * Stream market data for symbols, holding a `quotes()` subscription until
+   * the loop exits. Iterators end when the manager disconnects.
+   */
+  streamQuotes(
+    symbols: string | string[],
+    options?: AsyncStreamOptions<MarketDataMessage>
+  ): AsyncStream<MarketDataMessage> {
+    return this.streamEvent<MarketDataMessage>(
+      'marketData',
+      message => message.payload?.symbol ?? '',
+      options,
+      () => this.quotes(symbols)
+    );
+  }
+
+  /**
+   * Stream order updates; `conflate` keeps the latest update per order
+   */
+  streamOrderUpdates(
+    options?: AsyncStreamOptions<OrderUpdateMessage>
+  ): AsyncStream<OrderUpdateMessage> {
+    return this.streamEvent<OrderUpdateMessage>(
+      'orderUpdate',
+      message => message.payload.orderId,
+      options
+    );
+  }
+
+  /**
+   * Stream position updates; `conflate` keeps the latest update per symbol
+   */
+  streamPositionUpdates(
+    options?: AsyncStreamOptions<PositionUpdateMessage>
+  ): AsyncStream<PositionUpdateMessage> {
+    return this.streamEvent<PositionUpdateMessage>(
+      'positionUpdate',
+      message => message.payload.symbol,
+      options
+    );
+  }
+
+  /**
+   * Stream account portfolio snapshots; `conflate` keeps the latest per account
+   */
+  streamAccountPortfolios(
+    options?: AsyncStreamOptions<AccountPortfoliosMessage>
+  ): AsyncStream<AccountPortfoliosMessage> {
+    return this.streamEvent<AccountPortfoliosMessage>(
+      'accountPortfolios',
+      message => message.payload?.account ?? '',
+      options
+    );
+  }
+
   /**
    * Subscribe to portfolio data
    */
@@ -215,7 +382,7 @@ export class DXTradeStreamManager extends EventEmitter {
       this.portfolioWs.send(JSON.stringify(subscriptionMessage));
       return true;
     } catch (error) {
-      console.error('Failed to subscribe to portfolio data:', error);
+      this.logger.error('Failed to subscribe to portfolio data', { error });
       return false;
     }
   }
@@ -389,6 +556,12 @@ export class DXTradeStreamManager extends EventEmitter {
     });
 
     ws.on('close', (code, reason) => {
+      if (connectionType === 'marketData') {
+        this.rejectPendingRequests(new WebSocketError('Market data connection closed', {
+          connectionState: 'closed',
+          details: { code },
+        }));
+      }
       this.status[connectionType].connected = false;
       this.status[connectionType].authenticated = false;
       this.status[connectionType].subscribed = false;
@@ -433,7 +606,11 @@ export class DXTradeStreamManager extends EventEmitter {
       this.emit('message', message);
 
     } catch (error) {
-      console.warn(`Failed to parse WebSocket message from ${connectionType}:`, rawMessage);
+      this.logger.warn('Failed to parse WebSocket message', {
+        connectionType,
+        length: rawMessage.length,
+        error,
+      });
     }
   }
 
@@ -475,7 +652,7 @@ export class DXTradeStreamManager extends EventEmitter {
         break;
       
       default:
-        console.log(`Unhandled message type: ${message.type}`);
+        this.logger.debug('Unhandled message type', { type: message.type });
     }
   }
 
@@ -546,7 +723,7 @@ export class DXTradeStreamManager extends EventEmitter {
       ws.send(JSON.stringify(pongResponse));
       this.status.pingStats.responsesSent++;
     } catch (error) {
-      console.error(`Failed to send ping response on ${connectionType}:`, error);
+      this.logger.error('Failed to send ping response', { connectionType, error });
     }
   }
 
@@ -570,7 +747,7 @@ export class DXTradeStreamManager extends EventEmitter {
       ws.send(JSON.stringify(pongResponse));
       this.status.pingStats.responsesSent++;
     } catch (error) {
-      console.error(`Failed to send ping response on ${connectionType}:`, error);
+      this.logger.error('Failed to send ping response', { connectionType, error });
     }
   }
 
@@ -581,6 +758,16 @@ export class DXTradeStreamManager extends EventEmitter {
     if (message.success) {
       this.status[connectionType].subscribed = true;
     }
+
+    this.settleRequest(
+      message.requestId,
+      message.success
+        ? undefined
+        : new MarketDataError(message.error ?? message.message ?? 'Subscription request failed', {
+          subscriptionType: 'quotes',
+          details: { requestId: message.requestId },
+        })
+    );
     
     this.callbacks.onSubscriptionResponse?.(message);
     this.updateReadyState();
@@ -598,14 +785,194 @@ export class DXTradeStreamManager extends EventEmitter {
     this.updateReadyState();
   }
 
+  /**
+   * Stream one event type, optionally holding a quote subscription and
+   * passing on market data for its symbols only
+   */
+  private streamEvent<T>(
+    event: string,
+    conflateKey: (message: T) => string,
+    options?: AsyncStreamOptions<T>,
+    subscribe?: () => SubscriptionHandle
+  ): AsyncStream<T> {
+    const iterator: AsyncStream<T> = new AsyncStream<T>(sink => {
+      const handle = subscribe?.();
+      const symbols = handle && new Set(handle.symbols);
+
+      const listener = (message: T): void => {
+        if (!symbols || symbols.has(conflateKey(message))) {
+          sink.push(message);
+        }
+      };
+      this.on(event, listener);
+
+      return () => {
+        this.off(event, listener);
+        handle?.dispose();
+        this.iterators.delete(iterator as AsyncStream<unknown>);
+      };
+    }, { conflateKey, ...options });
+
+    if (!iterator.closed) {
+      this.iterators.add(iterator as AsyncStream<unknown>);
+    }
+    return iterator;
+  }
+
+  /**
+   * Send a quote subscription request without waiting for its response
+   */
+  private sendMarketDataRequest(symbols: string[]): boolean {
+    if (!this.marketDataWs || this.marketDataWs.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    try {
+      this.marketDataWs.send(JSON.stringify(this.createMarketDataRequest(symbols)));
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to subscribe to market data', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Send a market data request for a handle, reporting failures through `onError`
+   */
+  private sendInBackground(
+    build: (requestId: string) => Record<string, unknown>,
+    symbols: string[]
+  ): void {
+    this.sendAndAwait(build, symbols).catch(error => {
+      this.logger.error('Market data request failed', { error, symbols });
+      this.callbacks.onError?.('marketData', error as Error);
+    });
+  }
+
+  /**
+   * Build a quote unsubscribe request
+   */
+  private createUnsubscribeRequest(symbols: string[], requestId: string): Record<string, unknown> {
+    return {
+      type: 'UnsubscribeRequest',
+      requestId,
+      session: this.streamConfig.sessionToken,
+      payload: {
+        account: this.options.account,
+        symbols,
+      },
+    };
+  }
+
+  /**
+   * Build a quote subscription request
+   */
+  private createMarketDataRequest(
+    symbols: string[],
+    requestId = this.nextRequestId('market_data')
+  ): Record<string, unknown> {
+    return {
+      type: 'MarketDataSubscriptionRequest',
+      requestId,
+      session: this.streamConfig.sessionToken,
+      payload: {
+        account: this.options.account,
+        symbols,
+        eventTypes: [{
+          type: 'Quote',
+          format: 'COMPACT'
+        }]
+      }
+    };
+  }
+
+  /**
+   * Generate a request ID that is unique within this manager
+   */
+  private nextRequestId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${++this.requestCounter}`;
+  }
+
+  /**
+   * Send a market data request and wait for its SubscriptionResponse
+   *
+   * @returns true without sending if there are no symbols, false if not connected
+   */
+  private sendAndAwait(
+    build: (requestId: string) => Record<string, unknown>,
+    symbols: string[]
+  ): Promise<boolean> {
+    const ws = this.marketDataWs;
+    if (symbols.length === 0) {
+      return Promise.resolve(true);
+    }
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.resolve(false);
+    }
+
+    const requestId = this.nextRequestId('market_data');
+    const message = build(requestId);
+    const timeout = this.options.subscriptionTimeout;
+
+    return new Promise<boolean>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(
+          new TimeoutError(`No response to ${String(message.type)} ${requestId}`, timeout, {
+            operation: String(message.type),
+            details: { requestId, symbols },
+          })
+        );
+      }, timeout);
+
+      this.pendingRequests.set(requestId, {
+        resolve: () => resolve(true),
+        reject,
+        timer,
+      });
+
+      try {
+        ws.send(JSON.stringify(message));
+      } catch (error) {
+        this.settleRequest(requestId, error as Error);
+      }
+    });
+  }
+
+  /**
+   * Settle a pending request, rejecting it if an error is given
+   */
+  private settleRequest(requestId: string, error?: Error): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  /**
+   * Reject every request still waiting for a response
+   */
+  private rejectPendingRequests(error: Error): void {
+    [...this.pendingRequests.keys()].forEach(requestId => this.settleRequest(requestId, error));
+  }
+
   /**
    * Subscribe to enabled streams
    */
   private async subscribeToEnabledStreams(): Promise<void> {
     const subscriptions: Promise<boolean>[] = [];
 
-    if (this.options.enableMarketData && this.status.marketData.connected) {
-      subscriptions.push(this.subscribeToMarketData(this.options.symbols));
+    const symbols = this.getSymbols();
+    if (this.options.enableMarketData && this.status.marketData.connected && symbols.length > 0) {
+      subscriptions.push(Promise.resolve(this.sendMarketDataRequest(symbols)));
     }
 
     if (this.options.enablePortfolio && this.status.portfolio.connected) {
@@ -646,7 +1013,11 @@ export class DXTradeStreamManager extends EventEmitter {
           this.updateReadyState();
           
           if (connectionType === 'marketData' && this.options.enableMarketData) {
-            await this.subscribeToMarketData(this.options.symbols);
+            // Replay the current subscription set, including changes made while disconnected
+            const symbols = this.getSymbols();
+            if (symbols.length > 0) {
+              this.sendMarketDataRequest(symbols);
+            }
           } else if (connectionType === 'portfolio' && this.options.enablePortfolio) {
             await this.subscribeToPortfolioData();
           }
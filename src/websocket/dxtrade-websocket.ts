@@ -5,6 +5,8 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+import type { Logger } from '../utils/logger.js';
 
 export interface DXTradeWebSocketConfig {
   baseUrl: string;
@@ -15,6 +17,7 @@ export interface DXTradeWebSocketConfig {
     marketDataPath?: string;
     portfolioPath?: string;
   };
+  logger?: Logger;
 }
 
 export interface MarketDataSubscription {
@@ -51,10 +54,12 @@ export class DXTradeWebSocket extends EventEmitter {
   private pingIntervals: Map<string, NodeJS.Timeout> = new Map();
   private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private isClosing = false;
+  private readonly logger: Logger;
 
   constructor(config: DXTradeWebSocketConfig) {
     super();
     this.config = config;
+    this.logger = createLogger(config.logger).child({ component: 'DXTradeWebSocket' });
   }
 
   /**
@@ -78,13 +83,13 @@ export class DXTradeWebSocket extends EventEmitter {
       // First priority: Use explicit market data WebSocket URL
       if ((this.config as any).urls?.wsMarketData) {
         wsUrl = (this.config as any).urls.wsMarketData;
-        console.log('Using explicit market data WebSocket URL:', wsUrl);
+        this.logger.debug('Using explicit market data WebSocket URL', { url: wsUrl });
       } else {
         // Fallback to legacy configuration
         const wsBase = this.config.websocket?.baseUrl || this.config.baseUrl.replace('https://', 'wss://').replace('/api', '/ws');
         const marketDataPath = this.config.websocket?.marketDataPath || '/md';
         wsUrl = `${wsBase}${marketDataPath}`;
-        console.log('Using legacy market data WebSocket URL:', wsUrl);
+        this.logger.debug('Using legacy market data WebSocket URL', { url: wsUrl });
       }
       
       this.marketDataWs = new WebSocket(wsUrl, {
@@ -94,7 +99,7 @@ export class DXTradeWebSocket extends EventEmitter {
       });
 
       this.marketDataWs.on('open', () => {
-        console.log('✅ Market data WebSocket connected');
+        this.logger.info('Market data WebSocket connected');
         this.sendPing(this.marketDataWs!, 'marketData');
         this.startPingInterval('marketData', this.marketDataWs!);
         resolve();
@@ -105,18 +110,18 @@ export class DXTradeWebSocket extends EventEmitter {
           const message = JSON.parse(data.toString());
           this.handleMarketDataMessage(message);
         } catch (error) {
-          console.error('Failed to parse market data message:', error);
+          this.logger.error('Failed to parse market data message', { error });
         }
       });
 
       this.marketDataWs.on('error', (error) => {
-        console.error('Market data WebSocket error:', error);
+        this.logger.error('Market data WebSocket error', { error });
         this.emit('error', { type: 'marketData', error });
         reject(error);
       });
 
       this.marketDataWs.on('close', (code, reason) => {
-        console.log(`Market data WebSocket closed: ${code} - ${reason}`);
+        this.logger.info('Market data WebSocket closed', { code, reason: reason.toString() });
         this.handleDisconnect('marketData');
       });
     });
@@ -133,13 +138,13 @@ export class DXTradeWebSocket extends EventEmitter {
       // First priority: Use explicit portfolio WebSocket URL
       if ((this.config as any).urls?.wsPortfolio) {
         wsUrl = (this.config as any).urls.wsPortfolio;
-        console.log('Using explicit portfolio WebSocket URL:', wsUrl);
+        this.logger.debug('Using explicit portfolio WebSocket URL', { url: wsUrl });
       } else {
         // Fallback to legacy configuration
         const wsBase = this.config.websocket?.baseUrl || this.config.baseUrl.replace('https://', 'wss://').replace('/api', '/ws');
         const portfolioPath = this.config.websocket?.portfolioPath || '/?format=JSON';
         wsUrl = `${wsBase}${portfolioPath}`;
-        console.log('Using legacy portfolio WebSocket URL:', wsUrl);
+        this.logger.debug('Using legacy portfolio WebSocket URL', { url: wsUrl });
       }
       
       this.portfolioWs = new WebSocket(wsUrl, {
@@ -149,7 +154,7 @@ export class DXTradeWebSocket extends EventEmitter {
       });
 
       this.portfolioWs.on('open', () => {
-        console.log('✅ Portfolio WebSocket connected');
+        this.logger.info('Portfolio WebSocket connected');
         this.sendPing(this.portfolioWs!, 'portfolio');
         this.startPingInterval('portfolio', this.portfolioWs!);
         resolve();
@@ -160,18 +165,18 @@ export class DXTradeWebSocket extends EventEmitter {
           const message = JSON.parse(data.toString());
           this.handlePortfolioMessage(message);
         } catch (error) {
-          console.error('Failed to parse portfolio message:', error);
+          this.logger.error('Failed to parse portfolio message', { error });
         }
       });
 
       this.portfolioWs.on('error', (error) => {
-        console.error('Portfolio WebSocket error:', error);
+        this.logger.error('Portfolio WebSocket error', { error });
         this.emit('error', { type: 'portfolio', error });
         reject(error);
       });
 
       this.portfolioWs.on('close', (code, reason) => {
-        console.log(`Portfolio WebSocket closed: ${code} - ${reason}`);
+        this.logger.info('Portfolio WebSocket closed', { code, reason: reason.toString() });
         this.handleDisconnect('portfolio');
       });
     });
@@ -379,12 +384,11 @@ export class DXTradeWebSocket extends EventEmitter {
     // Schedule reconnection
     const timeout = setTimeout(() => {
       if (!this.isClosing) {
-        console.log(`Attempting to reconnect ${type} WebSocket...`);
-        if (type === 'marketData') {
-          this.connectMarketData().catch(console.error);
-        } else {
-          this.connectPortfolio().catch(console.error);
-        }
+        this.logger.info('Attempting to reconnect WebSocket', { type });
+        const reconnect = type === 'marketData' ? this.connectMarketData() : this.connectPortfolio();
+        reconnect.catch(error => {
+          this.logger.error('WebSocket reconnection failed', { type, error });
+        });
       }
     }, 5000);
 
@@ -4,6 +4,9 @@
 
 export { PushClient } from './push-client.js';
 export { ConnectionManager } from './connection-manager.js';
+export { SubscriptionRegistry } from './subscription-registry.js';
+export { PushStreams } from './push-streams.js';
+export { OrderBookManager } from './order-book-manager.js';
 
 // Unified WebSocket streaming (new dual-connection implementation)
 export { DXWebSocketClient } from './dx-websocket-client.js';
@@ -19,6 +22,15 @@ export type {
   PushClientConfig,
 } from './push-client.js';
 
+export type { SubscriptionHandle } from './subscription-registry.js';
+export type { AccountStreamOptions } from './push-streams.js';
+export type {
+  OrderBookManagerOptions,
+  OrderBookManagerEventMap,
+  OrderBookResyncReason,
+  OrderBookFill,
+} from './order-book-manager.js';
+
 export type { 
   WebSocketSubscription, 
   WebSocketStatus,
@@ -0,0 +1,471 @@
+import { EventEmitter } from 'events';
+import { MarketDataError } from '../errors/index.js';
+import type { MarketDataConfig, PushClient } from './push-client.js';
+import type { SubscriptionHandle } from './subscription-registry.js';
+import type { OrderBookUpdate } from './push-streams.js';
+import type { OrderBook, OrderBookEntry, OrderSide } from '../types/trading.js';
+
+/**
+ * Why a book was resynchronized
+ */
+export type OrderBookResyncReason = 'gap' | 'crossed' | 'overflow' | 'reconnect';
+
+/**
+ * Order book manager options
+ */
+export interface OrderBookManagerOptions {
+  /** Incremental updates kept while waiting for a snapshot, defaults to 1000 */
+  maxPendingUpdates?: number;
+  /** Request a snapshot again if none arrives within this many milliseconds, defaults to 5000 */
+  resyncTimeout?: number;
+}
+
+/**
+ * Price and size of filling a quantity against the book
+ */
+export interface OrderBookFill {
+  side: OrderSide;
+  requested: number;
+  /** Less than `requested` if the book is too thin */
+  filled: number;
+  /** Volume-weighted average price, NaN if nothing can be filled */
+  vwap: number;
+  /** Price of the last level used */
+  worstPrice: number;
+  levels: number;
+}
+
+/**
+ * Order book manager events - parameter tuple format
+ */
+export interface OrderBookManagerEventMap {
+  update: [symbol: string, book: OrderBook];
+  resync: [symbol: string, reason: OrderBookResyncReason];
+  synced: [symbol: string];
+  error: [error: Error];
+}
+
+interface BookState {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  sortedBids?: OrderBookEntry[];
+  sortedAsks?: OrderBookEntry[];
+  sequence?: number;
+  timestamp: number;
+  synced: boolean;
+  pending: OrderBookUpdate[];
+  resyncTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Local order books built from Push API order book updates
+ *
+ * Snapshots replace a book and incremental updates (`snapshot: false`)
+ * change it level by level, a size of 0 removing the level. When an update
+ * skips a sequence number or leaves the book crossed, the book is marked
+ * out of sync and a fresh snapshot is requested through `requestBackfill`.
+ * Incremental updates arriving meanwhile are held and applied on top of the
+ * snapshot. Books also go out of sync when the connection closes, and a
+ * fresh snapshot is requested for each once it opens again.
+ */
+export class OrderBookManager extends EventEmitter<OrderBookManagerEventMap> {
+  private readonly books = new Map<string, BookState>();
+  private readonly maxPendingUpdates: number;
+  private readonly resyncTimeout: number;
+  private readonly stopListening: () => void;
+
+  constructor(
+    private readonly push: PushClient,
+    options: OrderBookManagerOptions = {}
+  ) {
+    super();
+    this.maxPendingUpdates = options.maxPendingUpdates ?? 1000;
+    this.resyncTimeout = options.resyncTimeout ?? 5000;
+
+    // Every tick: conflated or dropped updates would corrupt the books
+    const stopUpdates = push.onMarketData('orderbook', update => this.apply(update));
+    const onClose = (): void =>
+      this.books.forEach(book => {
+        book.synced = false;
+        clearTimeout(book.resyncTimer);
+        book.resyncTimer = undefined;
+      });
+    const onOpen = (): void =>
+      this.books.forEach((book, symbol) => {
+        if (!book.synced) {
+          this.resync(symbol, book, 'reconnect');
+        }
+      });
+    push.on('close', onClose);
+    push.on('open', onOpen);
+
+    this.stopListening = () => {
+      stopUpdates();
+      push.off('close', onClose);
+      push.off('open', onOpen);
+    };
+  }
+
+  /**
+   * Subscribe to order books and track them; disposing the handle drops the books
+   */
+  subscribe(config: MarketDataConfig): SubscriptionHandle {
+    const handle = this.push.subscribeToOrderBook(config);
+
+    return {
+      channel: handle.channel,
+      symbols: handle.symbols,
+      get disposed() {
+        return handle.disposed;
+      },
+      dispose: () => {
+        if (!handle.disposed) {
+          handle.dispose();
+          handle.symbols.forEach(symbol => this.remove(symbol));
+        }
+      },
+    };
+  }
+
+  /**
+   * Apply a snapshot or incremental update. Called for every push update;
+   * use it directly to feed books from another source.
+   */
+  apply(update: OrderBookUpdate): void {
+    const isSnapshot = update.snapshot !== false;
+    let book = this.books.get(update.symbol);
+
+    if (!book) {
+      if (!isSnapshot) {
+        // Nothing to apply changes to yet
+        book = this.createBook();
+        this.books.set(update.symbol, book);
+        this.resync(update.symbol, book, 'gap');
+        this.hold(update.symbol, book, update);
+        return;
+      }
+      book = this.createBook();
+      this.books.set(update.symbol, book);
+    }
+
+    if (isSnapshot) {
+      this.applySnapshot(update.symbol, book, update);
+      return;
+    }
+
+    if (!book.synced) {
+      this.hold(update.symbol, book, update);
+      return;
+    }
+
+    if (this.applyIncrement(update.symbol, book, update)) {
+      this.emit('update', update.symbol, this.toOrderBook(update.symbol, book));
+    }
+  }
+
+  /**
+   * Get a copy of a book, best prices first
+   */
+  getBook(symbol: string, levels?: number): OrderBook | undefined {
+    const book = this.books.get(symbol);
+    if (!book) {
+      return undefined;
+    }
+
+    const { bids, asks, timestamp } = this.toOrderBook(symbol, book);
+    return {
+      symbol,
+      bids: bids.slice(0, levels).map(level => ({ ...level })),
+      asks: asks.slice(0, levels).map(level => ({ ...level })),
+      timestamp,
+    };
+  }
+
+  /**
+   * Get the first `levels` levels of each side
+   */
+  getDepth(symbol: string, levels: number): Pick<OrderBook, 'bids' | 'asks'> {
+    const book = this.getBook(symbol, levels);
+    return { bids: book?.bids ?? [], asks: book?.asks ?? [] };
+  }
+
+  /**
+   * Get the highest bid
+   */
+  getBestBid(symbol: string): OrderBookEntry | undefined {
+    const book = this.books.get(symbol);
+    const best = book && this.sorted(book, 'bids')[0];
+    return best && { ...best };
+  }
+
+  /**
+   * Get the lowest ask
+   */
+  getBestAsk(symbol: string): OrderBookEntry | undefined {
+    const book = this.books.get(symbol);
+    const best = book && this.sorted(book, 'asks')[0];
+    return best && { ...best };
+  }
+
+  /**
+   * Get the difference between best ask and best bid
+   */
+  getSpread(symbol: string): number | undefined {
+    const bid = this.getBestBid(symbol);
+    const ask = this.getBestAsk(symbol);
+    return bid && ask ? ask.price - bid.price : undefined;
+  }
+
+  /**
+   * Get the total size of one side, over the best `levels` levels or all of them
+   */
+  getCumulativeVolume(symbol: string, side: 'bids' | 'asks', levels?: number): number {
+    const book = this.books.get(symbol);
+    if (!book) {
+      return 0;
+    }
+    return this.sorted(book, side)
+      .slice(0, levels)
+      .reduce((total, level) => total + level.size, 0);
+  }
+
+  /**
+   * Walk the book to fill a quantity: buys take asks and sells take bids
+   */
+  getVwap(symbol: string, side: OrderSide, quantity: number): OrderBookFill {
+    const book = this.books.get(symbol);
+    const levels = book ? this.sorted(book, side === 'BUY' ? 'asks' : 'bids') : [];
+
+    let filled = 0;
+    let notional = 0;
+    let worstPrice = NaN;
+    let used = 0;
+    for (const level of levels) {
+      if (filled >= quantity) {
+        break;
+      }
+      const size = Math.min(level.size, quantity - filled);
+      filled += size;
+      notional += size * level.price;
+      worstPrice = level.price;
+      used++;
+    }
+
+    return {
+      side,
+      requested: quantity,
+      filled,
+      vwap: filled > 0 ? notional / filled : NaN,
+      worstPrice,
+      levels: used,
+    };
+  }
+
+  /**
+   * Check if a book is in sync with the server
+   */
+  isSynced(symbol: string): boolean {
+    return this.books.get(symbol)?.synced ?? false;
+  }
+
+  /**
+   * Get the symbols with a book
+   */
+  getSymbols(): string[] {
+    return [...this.books.keys()];
+  }
+
+  /**
+   * Drop a book
+   */
+  remove(symbol: string): void {
+    const book = this.books.get(symbol);
+    if (book) {
+      clearTimeout(book.resyncTimer);
+      this.books.delete(symbol);
+    }
+  }
+
+  /**
+   * Stop listening to the push client and drop all books
+   */
+  destroy(): void {
+    this.stopListening();
+    [...this.books.keys()].forEach(symbol => this.remove(symbol));
+    this.removeAllListeners();
+  }
+
+  /**
+   * Create an empty book waiting for its first snapshot
+   */
+  private createBook(): BookState {
+    return { bids: new Map(), asks: new Map(), timestamp: 0, synced: false, pending: [] };
+  }
+
+  /**
+   * Replace a book with a snapshot, then apply held updates newer than it
+   */
+  private applySnapshot(symbol: string, book: BookState, snapshot: OrderBookUpdate): void {
+    book.bids = new Map(snapshot.bids.filter(([, size]) => size > 0));
+    book.asks = new Map(snapshot.asks.filter(([, size]) => size > 0));
+    book.sortedBids = undefined;
+    book.sortedAsks = undefined;
+    book.sequence = snapshot.sequence;
+    book.timestamp = snapshot.timestamp;
+
+    const wasSynced = book.synced;
+    book.synced = true;
+    clearTimeout(book.resyncTimer);
+    book.resyncTimer = undefined;
+
+    const pending = book.pending;
+    book.pending = [];
+    for (const update of pending) {
+      if (
+        update.sequence !== undefined &&
+        book.sequence !== undefined &&
+        update.sequence <= book.sequence
+      ) {
+        continue;
+      }
+      if (!this.applyIncrement(symbol, book, update)) {
+        return;
+      }
+    }
+
+    if (this.isCrossed(book)) {
+      this.resync(symbol, book, 'crossed');
+      return;
+    }
+
+    if (!wasSynced) {
+      this.emit('synced', symbol);
+    }
+    this.emit('update', symbol, this.toOrderBook(symbol, book));
+  }
+
+  /**
+   * Apply an incremental update to a synced book
+   *
+   * @returns false if the book went out of sync
+   */
+  private applyIncrement(symbol: string, book: BookState, update: OrderBookUpdate): boolean {
+    if (update.sequence !== undefined && book.sequence !== undefined) {
+      if (update.sequence <= book.sequence) {
+        // Already contained in the book
+        return true;
+      }
+      if (update.sequence !== book.sequence + 1) {
+        this.resync(symbol, book, 'gap');
+        this.hold(symbol, book, update);
+        return false;
+      }
+    }
+
+    for (const [side, levels] of [['bids', update.bids], ['asks', update.asks]] as const) {
+      for (const [price, size] of levels) {
+        if (size > 0) {
+          book[side].set(price, size);
+        } else {
+          book[side].delete(price);
+        }
+      }
+    }
+    book.sortedBids = undefined;
+    book.sortedAsks = undefined;
+    book.sequence = update.sequence ?? book.sequence;
+    book.timestamp = update.timestamp;
+
+    if (this.isCrossed(book)) {
+      this.resync(symbol, book, 'crossed');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Keep an incremental update until the next snapshot
+   */
+  private hold(symbol: string, book: BookState, update: OrderBookUpdate): void {
+    book.pending.push(update);
+    if (book.pending.length > this.maxPendingUpdates) {
+      book.pending = [];
+      this.resync(symbol, book, 'overflow');
+    }
+  }
+
+  /**
+   * Mark a book out of sync and request a snapshot, repeating the request
+   * until one arrives. If the request cannot be sent, e.g. because backfill
+   * is disabled, the book waits for the snapshot sent on resubscribe.
+   */
+  private resync(symbol: string, book: BookState, reason: OrderBookResyncReason): void {
+    book.synced = false;
+    this.emit('resync', symbol, reason);
+
+    clearTimeout(book.resyncTimer);
+    book.resyncTimer = undefined;
+
+    try {
+      this.push.requestBackfill('orderbook', [symbol], { maxItems: 1 });
+    } catch (error) {
+      // Emitting 'error' without a listener would throw inside the push update handler
+      if (this.listenerCount('error') > 0) {
+        this.emit(
+          'error',
+          new MarketDataError(`Failed to request order book snapshot: ${(error as Error).message}`, {
+            symbol,
+            subscriptionType: 'orderbook',
+            details: { reason },
+          })
+        );
+      }
+      return;
+    }
+
+    book.resyncTimer = setTimeout(() => {
+      if (this.books.get(symbol) === book && !book.synced) {
+        this.resync(symbol, book, reason);
+      }
+    }, this.resyncTimeout);
+    book.resyncTimer.unref?.();
+  }
+
+  /**
+   * Check if the best bid reaches the best ask
+   */
+  private isCrossed(book: BookState): boolean {
+    const bid = this.sorted(book, 'bids')[0];
+    const ask = this.sorted(book, 'asks')[0];
+    return bid !== undefined && ask !== undefined && bid.price >= ask.price;
+  }
+
+  /**
+   * Get one side sorted best price first, cached until the side changes
+   */
+  private sorted(book: BookState, side: 'bids' | 'asks'): OrderBookEntry[] {
+    if (side === 'bids') {
+      book.sortedBids ??= [...book.bids]
+        .map(([price, size]) => ({ price, size }))
+        .sort((a, b) => b.price - a.price);
+      return book.sortedBids;
+    }
+
+    book.sortedAsks ??= [...book.asks]
+      .map(([price, size]) => ({ price, size }))
+      .sort((a, b) => a.price - b.price);
+    return book.sortedAsks;
+  }
+
+  /**
+   * Build an order book view sharing the cached sides
+   */
+  private toOrderBook(symbol: string, book: BookState): OrderBook {
+    return {
+      symbol,
+      bids: this.sorted(book, 'bids'),
+      asks: this.sorted(book, 'asks'),
+      timestamp: book.timestamp,
+    };
+  }
+}
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events';
 import { z } from 'zod';
 import { ConnectionManager } from './connection-manager.js';
-import { AuthError } from '../errors/index.js';
+import { SubscriptionRegistry } from './subscription-registry.js';
+import type { SubscriptionHandle } from './subscription-registry.js';
+import { AuthError, ValidationError } from '../errors/index.js';
 import type {
   WebSocketEventMap,
   SubscriptionType,
@@ -26,6 +28,11 @@ export const MarketDataConfigSchema = z.object({
 
 export type MarketDataConfig = z.infer<typeof MarketDataConfigSchema>;
 
+/**
+ * Order book parameters sent with a subscription
+ */
+type OrderBookParams = Pick<MarketDataConfig, 'depth' | 'aggregateLevel'>;
+
 /**
  * Backfill configuration
  */
@@ -63,19 +70,52 @@ export const PushClientConfigSchema = z.object({
   autoResubscribe: z.boolean().default(true),
   bufferUpdates: z.boolean().default(true),
   bufferInterval: z.number().default(100),
+  // Keep only the latest quote per symbol between flushes
+  conflateUpdates: z.boolean().default(false),
+  // Updates buffered per type before the oldest are dropped
+  maxBufferSize: z.number().min(1).default(1000),
 });
 
 export type PushClientConfig = z.infer<typeof PushClientConfigSchema>;
 
+/**
+ * Channels subscribed per account rather than per symbol
+ */
+const ACCOUNT_CHANNELS: ReadonlySet<SubscriptionType> = new Set(['orders', 'positions', 'account']);
+
 /**
  * Market data events - parameter tuple format
  */
-interface MarketDataEvents {
+export interface MarketDataEvents {
   quote: [data: QuoteUpdateMessage['data']];
   orderbook: [data: OrderBookUpdateMessage['data']];
   trade: [data: TradeUpdateMessage['data']];
 }
 
+/**
+ * How a market data listener receives updates:
+ * - `every-tick` gets each update as it arrives, bypassing the update buffer
+ * - `conflated` gets the latest quote per symbol once per `bufferInterval`;
+ *   order books and trades are incremental and only delivered every tick
+ */
+export type DeliveryMode = 'every-tick' | 'conflated';
+
+/**
+ * Market data listener options
+ */
+export interface MarketDataListenerOptions {
+  /** Defaults to `every-tick` */
+  delivery?: DeliveryMode;
+}
+
+type MarketDataListener = (data: MarketDataEvents[keyof MarketDataEvents][0]) => void;
+
+/**
+ * Update types conflated by symbol. Order book updates can be incremental
+ * and trades are individual executions, so neither is ever dropped.
+ */
+const CONFLATED_TYPES: ReadonlySet<string> = new Set(['quote']);
+
 /**
  * Account events - parameter tuple format
  */
@@ -101,8 +141,21 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
   private readonly connectionManager: ConnectionManager;
   private isAuthenticated = false;
   private updateBuffer = new Map<string, unknown[]>();
+  private conflatedBuffer = new Map<string, Map<string, unknown>>();
   private bufferTimer?: NodeJS.Timeout;
+  private readonly deliveryListeners = {
+    'every-tick': new Map<keyof MarketDataEvents, Set<MarketDataListener>>(),
+    conflated: new Map<keyof MarketDataEvents, Set<MarketDataListener>>(),
+  };
+  private pendingConflated = new Map<keyof MarketDataEvents, Map<string, unknown>>();
+  private conflationTimer?: NodeJS.Timeout;
+  private droppedUpdates = 0;
+  private conflatedUpdates = 0;
   private messageHandlers = new Map<string, (message: WebSocketMessage) => void>();
+  private normalizeSymbol: (symbol: string) => string = symbol => symbol;
+  private readonly subscriptions = new SubscriptionRegistry<SubscriptionType>();
+  // Parameters of held order books, which the connection manager does not replay
+  private readonly orderBookParams = new Map<string, OrderBookParams>();
 
   constructor(config: PushClientConfig) {
     super();
@@ -142,10 +195,72 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     return this.connectionManager.isConnected() && this.isAuthenticated;
   }
 
+  /**
+   * Map symbols given to subscribe and unsubscribe calls to the broker's spelling
+   */
+  setSymbolNormalizer(normalizer: (symbol: string) => string): void {
+    this.normalizeSymbol = normalizer;
+  }
+
+  /**
+   * Listen to quotes, order books or trades with a chosen delivery mode
+   *
+   * Unlike `on()`, which follows the client's `bufferUpdates` and
+   * `conflateUpdates` settings, each listener picks its own mode, so a
+   * dashboard can take conflated quotes while a recorder sees every tick.
+   *
+   * @returns Function that removes the listener
+   * @throws ValidationError if conflated delivery is requested for order books or trades
+   */
+  onMarketData<E extends keyof MarketDataEvents>(
+    event: E,
+    listener: (...args: MarketDataEvents[E]) => void,
+    options: MarketDataListenerOptions = {}
+  ): () => void {
+    const delivery = options.delivery ?? 'every-tick';
+    if (delivery === 'conflated' && !CONFLATED_TYPES.has(event)) {
+      throw new ValidationError(
+        `Conflated delivery is not supported for ${event} updates`,
+        [],
+        'delivery'
+      );
+    }
+    const listeners = this.deliveryListeners[delivery];
+    const handler = listener as MarketDataListener;
+
+    let set = listeners.get(event);
+    if (!set) {
+      set = new Set();
+      listeners.set(event, set);
+    }
+    set.add(handler);
+
+    if (delivery === 'conflated' && !this.conflationTimer) {
+      this.conflationTimer = setInterval(() => this.flushConflated(), this.config.bufferInterval);
+    }
+
+    return () => {
+      set.delete(handler);
+      if (set.size === 0) {
+        listeners.delete(event);
+        if (delivery === 'conflated') {
+          this.pendingConflated.delete(event);
+        }
+      }
+      if (this.deliveryListeners.conflated.size === 0) {
+        this.stopConflationTimer();
+      }
+    };
+  }
+
   /**
    * Subscribe to real-time quotes
+   *
+   * Subscriptions are shared: symbols already subscribed by another caller
+   * are not sent again, and they stay subscribed until every handle holding
+   * them is disposed.
    */
-  subscribeToQuotes(symbols: string[]): void {
+  subscribeToQuotes(symbols: string[]): SubscriptionHandle {
     if (symbols.length === 0) {
       throw new Error('At least one symbol is required');
     }
@@ -154,120 +269,128 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
       throw new Error('Too many symbols (max 100)');
     }
 
-    this.connectionManager.subscribe('quotes', symbols);
+    return this.hold('quotes', this.normalizeSymbols(symbols), added =>
+      this.connectionManager.subscribe('quotes', added)
+    );
   }
 
   /**
-   * Subscribe to order book updates
+   * Subscribe to quotes for one or more symbols
    */
-  subscribeToOrderBook(config: MarketDataConfig): void {
-    const validatedConfig = MarketDataConfigSchema.parse(config);
+  quotes(symbols: string | string[]): SubscriptionHandle {
+    return this.subscribeToQuotes(typeof symbols === 'string' ? [symbols] : symbols);
+  }
+
+  /**
+   * Subscribe to order book updates. Depth and aggregation of the first
+   * subscription to a symbol apply until it is released.
+   */
+  subscribeToOrderBook(config: MarketDataConfig): SubscriptionHandle {
+    const { symbols, depth, aggregateLevel } = MarketDataConfigSchema.parse(config);
     
-    this.connectionManager.send({
-      type: 'SUBSCRIBE',
-      channel: 'orderbook',
-      symbols: validatedConfig.symbols,
-      params: {
-        depth: validatedConfig.depth,
-        aggregateLevel: validatedConfig.aggregateLevel,
-      },
-      timestamp: Date.now(),
+    return this.hold('orderbook', this.normalizeSymbols(symbols), added => {
+      added.forEach(symbol => this.orderBookParams.set(symbol, { depth, aggregateLevel }));
+      this.sendOrderBookSubscription(added, { depth, aggregateLevel });
     });
   }
 
   /**
    * Subscribe to trade updates
    */
-  subscribeToTrades(symbols: string[]): void {
+  subscribeToTrades(symbols: string[]): SubscriptionHandle {
     if (symbols.length === 0) {
       throw new Error('At least one symbol is required');
     }
 
-    this.connectionManager.subscribe('trades', symbols);
+    return this.hold('trades', this.normalizeSymbols(symbols), added =>
+      this.connectionManager.subscribe('trades', added)
+    );
   }
 
   /**
-   * Subscribe to order updates
+   * Subscribe to trades for one or more symbols
    */
-  subscribeToOrders(accountId?: string): void {
-    this.connectionManager.send({
-      type: 'SUBSCRIBE',
-      channel: 'orders',
-      params: accountId ? { accountId } : undefined,
-      timestamp: Date.now(),
-    });
+  trades(symbols: string | string[]): SubscriptionHandle {
+    return this.subscribeToTrades(typeof symbols === 'string' ? [symbols] : symbols);
   }
 
   /**
-   * Subscribe to position updates
+   * Subscribe to order updates, shared like quote subscriptions
    */
-  subscribeToPositions(accountId?: string): void {
-    this.connectionManager.send({
-      type: 'SUBSCRIBE',
-      channel: 'positions',
-      params: accountId ? { accountId } : undefined,
-      timestamp: Date.now(),
-    });
+  subscribeToOrders(accountId?: string): SubscriptionHandle {
+    return this.holdAccountChannel('orders', accountId);
   }
 
   /**
-   * Subscribe to account updates
+   * Subscribe to position updates, shared like quote subscriptions
    */
-  subscribeToAccount(accountId?: string): void {
-    this.connectionManager.send({
-      type: 'SUBSCRIBE',
-      channel: 'account',
-      params: accountId ? { accountId } : undefined,
-      timestamp: Date.now(),
-    });
+  subscribeToPositions(accountId?: string): SubscriptionHandle {
+    return this.holdAccountChannel('positions', accountId);
+  }
+
+  /**
+   * Subscribe to account updates, shared like quote subscriptions
+   */
+  subscribeToAccount(accountId?: string): SubscriptionHandle {
+    return this.holdAccountChannel('account', accountId);
   }
 
   /**
    * Unsubscribe from quotes
+   *
+   * With symbols, releases one reference to each, as disposing a handle
+   * would; symbols held by other subscribers stay subscribed. Without
+   * symbols, unsubscribes from the channel for every subscriber.
    */
   unsubscribeFromQuotes(symbols?: string[]): void {
-    this.connectionManager.unsubscribe('quotes', symbols);
+    this.unsubscribeChannel('quotes', symbols);
   }
 
   /**
-   * Unsubscribe from order book
+   * Unsubscribe from order book, like `unsubscribeFromQuotes`
    */
   unsubscribeFromOrderBook(symbols?: string[]): void {
-    this.connectionManager.unsubscribe('orderbook', symbols);
+    this.unsubscribeChannel('orderbook', symbols);
   }
 
   /**
-   * Unsubscribe from trades
+   * Unsubscribe from trades, like `unsubscribeFromQuotes`
    */
   unsubscribeFromTrades(symbols?: string[]): void {
-    this.connectionManager.unsubscribe('trades', symbols);
+    this.unsubscribeChannel('trades', symbols);
   }
 
   /**
-   * Unsubscribe from orders
+   * Unsubscribe from orders of every account; existing handles are detached
    */
   unsubscribeFromOrders(): void {
-    this.connectionManager.unsubscribe('orders');
+    this.unsubscribeChannel('orders');
   }
 
   /**
-   * Unsubscribe from positions
+   * Unsubscribe from positions of every account; existing handles are detached
    */
   unsubscribeFromPositions(): void {
-    this.connectionManager.unsubscribe('positions');
+    this.unsubscribeChannel('positions');
   }
 
   /**
-   * Unsubscribe from account
+   * Unsubscribe from account updates of every account; existing handles are detached
    */
   unsubscribeFromAccount(): void {
-    this.connectionManager.unsubscribe('account');
+    this.unsubscribeChannel('account');
   }
 
   /**
-   * Unsubscribe from all channels
+   * Unsubscribe from all channels; existing handles are detached
    */
   unsubscribeAll(): void {
+    for (const channel of this.subscriptions.getChannels()) {
+      if (channel === 'orderbook' || ACCOUNT_CHANNELS.has(channel)) {
+        this.unsubscribeChannel(channel);
+      }
+    }
+    this.subscriptions.clear();
     const subscriptions = this.connectionManager.getSubscriptions();
     
     for (const subscription of subscriptions) {
@@ -284,6 +407,10 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
   getStats(): ReturnType<ConnectionManager['getStats']> & {
     authenticated: boolean;
     bufferSize: number;
+    /** Updates discarded because a buffer was full */
+    droppedUpdates: number;
+    /** Updates replaced by a newer one for the same symbol before delivery */
+    conflatedUpdates: number;
   } {
     const connectionStats = this.connectionManager.getStats();
     
@@ -291,11 +418,16 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     for (const buffer of this.updateBuffer.values()) {
       bufferSize += buffer.length;
     }
+    for (const buffer of this.conflatedBuffer.values()) {
+      bufferSize += buffer.size;
+    }
     
     return {
       ...connectionStats,
       authenticated: this.isAuthenticated,
       bufferSize,
+      droppedUpdates: this.droppedUpdates,
+      conflatedUpdates: this.conflatedUpdates,
     };
   }
 
@@ -333,17 +465,156 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     });
   }
 
+  /**
+   * Get the number of subscribers holding a symbol of a channel
+   */
+  getSubscriberCount(channel: SubscriptionType, symbol: string): number {
+    return this.subscriptions.getRefCount(channel, this.normalizeSymbol(symbol));
+  }
+
   /**
    * Destroy client and cleanup resources
    */
   destroy(): void {
     this.stopBufferTimer();
+    this.stopConflationTimer();
+    this.subscriptions.clear();
+    this.orderBookParams.clear();
     this.connectionManager.destroy();
     this.updateBuffer.clear();
+    this.conflatedBuffer.clear();
+    this.pendingConflated.clear();
+    this.deliveryListeners['every-tick'].clear();
+    this.deliveryListeners.conflated.clear();
     this.messageHandlers.clear();
     this.removeAllListeners();
   }
 
+  /**
+   * Take a reference to symbols of a channel, subscribing to those no one held yet
+   */
+  private hold(
+    channel: SubscriptionType,
+    symbols: string[],
+    subscribe: (added: string[]) => void
+  ): SubscriptionHandle {
+    const added = this.subscriptions.acquire(channel, symbols);
+    if (added.length > 0) {
+      subscribe(added);
+    }
+
+    return this.subscriptions.createHandle(channel, symbols, () =>
+      this.release(channel, symbols)
+    );
+  }
+
+  /**
+   * Take a reference to an account channel, keyed by account; an empty key
+   * stands for every account of the session
+   */
+  private holdAccountChannel(channel: SubscriptionType, accountId?: string): SubscriptionHandle {
+    return this.hold(channel, [accountId ?? ''], () =>
+      this.sendAccountChannelMessage('SUBSCRIBE', channel, accountId ?? '')
+    );
+  }
+
+  /**
+   * Release a reference to symbols of a channel, unsubscribing from those no one holds
+   */
+  private release(channel: SubscriptionType, symbols: string[]): void {
+    const removed = this.subscriptions.release(channel, symbols);
+    if (removed.length === 0) {
+      return;
+    }
+
+    if (ACCOUNT_CHANNELS.has(channel)) {
+      removed.forEach(accountId =>
+        this.sendAccountChannelMessage('UNSUBSCRIBE', channel, accountId)
+      );
+      return;
+    }
+    if (channel === 'orderbook') {
+      removed.forEach(symbol => this.orderBookParams.delete(symbol));
+    }
+    this.connectionManager.unsubscribe(channel, removed);
+  }
+
+  /**
+   * Release symbols of a channel, or drop the whole channel if none are given
+   */
+  private unsubscribeChannel(channel: SubscriptionType, symbols?: string[]): void {
+    if (symbols) {
+      this.release(channel, this.normalizeSymbols(symbols));
+    } else {
+      this.subscriptions.clear(channel);
+      if (channel === 'orderbook') {
+        this.orderBookParams.clear();
+      }
+      this.connectionManager.unsubscribe(channel);
+    }
+  }
+
+  /**
+   * Send an order book subscription for symbols sharing the same parameters
+   */
+  private sendOrderBookSubscription(symbols: string[], params: OrderBookParams): void {
+    this.connectionManager.send({
+      type: 'SUBSCRIBE',
+      channel: 'orderbook',
+      symbols,
+      params: { ...params },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Subscribe to or unsubscribe from an account channel for one account
+   */
+  private sendAccountChannelMessage(
+    type: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    channel: SubscriptionType,
+    accountId: string
+  ): void {
+    this.connectionManager.send({
+      type,
+      channel,
+      params: accountId ? { accountId } : undefined,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Subscribe again to held order books and account channels after a
+   * reconnect. Quotes and trades are replayed by the connection manager.
+   */
+  private resubscribeHeld(): void {
+    const books = new Map<string, { symbols: string[]; params: OrderBookParams }>();
+    for (const symbol of this.subscriptions.getSymbols('orderbook')) {
+      const params = this.orderBookParams.get(symbol);
+      if (!params) {
+        continue;
+      }
+      const key = `${params.depth}:${params.aggregateLevel}`;
+      const group = books.get(key) ?? { symbols: [], params };
+      group.symbols.push(symbol);
+      books.set(key, group);
+    }
+    books.forEach(({ symbols, params }) => this.sendOrderBookSubscription(symbols, params));
+
+    for (const channel of ACCOUNT_CHANNELS) {
+      this.subscriptions
+        .getSymbols(channel)
+        .forEach(accountId => this.sendAccountChannelMessage('SUBSCRIBE', channel, accountId));
+    }
+  }
+
+  /**
+   * Normalize symbols, dropping duplicates that map to the same symbol
+   */
+  private normalizeSymbols(symbols: string[]): string[] {
+    return [...new Set(symbols.map(symbol => this.normalizeSymbol(symbol)))];
+  }
+
   /**
    * Set up connection event handlers
    */
@@ -373,6 +644,7 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     });
 
     this.connectionManager.on('reconnected', () => {
+      this.resubscribeHeld();
       this.emit('reconnected');
     });
 
@@ -465,13 +737,7 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
    */
   private handleQuoteMessage(message: WebSocketMessage): void {
     if (message.type === 'QUOTE') {
-      const quoteMessage = message as QuoteUpdateMessage;
-      
-      if (this.config.bufferUpdates) {
-        this.bufferUpdate('quote', quoteMessage.data);
-      } else {
-        this.emit('quote', quoteMessage.data);
-      }
+      this.deliverMarketData('quote', (message as QuoteUpdateMessage).data);
     }
   }
 
@@ -480,13 +746,7 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
    */
   private handleOrderBookMessage(message: WebSocketMessage): void {
     if (message.type === 'ORDER_BOOK') {
-      const orderBookMessage = message as OrderBookUpdateMessage;
-      
-      if (this.config.bufferUpdates) {
-        this.bufferUpdate('orderbook', orderBookMessage.data);
-      } else {
-        this.emit('orderbook', orderBookMessage.data);
-      }
+      this.deliverMarketData('orderbook', (message as OrderBookUpdateMessage).data);
     }
   }
 
@@ -495,13 +755,7 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
    */
   private handleTradeMessage(message: WebSocketMessage): void {
     if (message.type === 'TRADE') {
-      const tradeMessage = message as TradeUpdateMessage;
-      
-      if (this.config.bufferUpdates) {
-        this.bufferUpdate('trade', tradeMessage.data);
-      } else {
-        this.emit('trade', tradeMessage.data);
-      }
+      this.deliverMarketData('trade', (message as TradeUpdateMessage).data);
     }
   }
 
@@ -535,10 +789,55 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     }
   }
 
+  /**
+   * Deliver a market data update to per-listener deliveries and to `on()` listeners
+   */
+  private deliverMarketData<E extends keyof MarketDataEvents>(
+    event: E,
+    data: MarketDataEvents[E][0]
+  ): void {
+    this.deliveryListeners['every-tick'].get(event)?.forEach(listener => listener(data));
+
+    if (this.deliveryListeners.conflated.has(event)) {
+      let pending = this.pendingConflated.get(event);
+      if (!pending) {
+        pending = new Map();
+        this.pendingConflated.set(event, pending);
+      }
+      this.conflate(pending, data.symbol, data);
+    }
+
+    if (this.config.bufferUpdates) {
+      this.bufferUpdate(event, data);
+    } else {
+      this.emit(event as keyof PushClientEventMap, data as any);
+    }
+  }
+
+  /**
+   * Store the latest update for a symbol, counting the one it replaces
+   */
+  private conflate(buffer: Map<string, unknown>, symbol: string, data: unknown): void {
+    if (buffer.has(symbol)) {
+      this.conflatedUpdates++;
+    }
+    buffer.set(symbol, data);
+  }
+
   /**
    * Buffer update for batch processing
    */
   private bufferUpdate(type: string, data: unknown): void {
+    if (this.config.conflateUpdates && CONFLATED_TYPES.has(type)) {
+      let buffer = this.conflatedBuffer.get(type);
+      if (!buffer) {
+        buffer = new Map();
+        this.conflatedBuffer.set(type, buffer);
+      }
+      this.conflate(buffer, (data as { symbol: string }).symbol, data);
+      return;
+    }
+
     if (!this.updateBuffer.has(type)) {
       this.updateBuffer.set(type, []);
     }
@@ -548,8 +847,9 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
       buffer.push(data);
       
       // Prevent buffer overflow
-      if (buffer.length > 1000) {
+      if (buffer.length > this.config.maxBufferSize) {
         buffer.shift();
+        this.droppedUpdates++;
       }
     }
   }
@@ -575,6 +875,29 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
     }
   }
 
+  /**
+   * Stop conflated listener delivery
+   */
+  private stopConflationTimer(): void {
+    if (this.conflationTimer) {
+      clearInterval(this.conflationTimer);
+      this.conflationTimer = undefined;
+    }
+  }
+
+  /**
+   * Deliver the latest update per symbol to conflated listeners
+   */
+  private flushConflated(): void {
+    for (const [event, pending] of this.pendingConflated.entries()) {
+      const updates = [...pending.values()];
+      pending.clear();
+
+      const listeners = this.deliveryListeners.conflated.get(event);
+      updates.forEach(data => listeners?.forEach(listener => listener(data as never)));
+    }
+  }
+
   /**
    * Flush all update buffers
    */
@@ -590,5 +913,11 @@ export class PushClient extends EventEmitter<PushClientEventMap> {
         buffer.length = 0;
       }
     }
+
+    for (const [type, buffer] of this.conflatedBuffer.entries()) {
+      const updates = [...buffer.values()];
+      buffer.clear();
+      updates.forEach(data => this.emit(type as keyof PushClientEventMap, data as any));
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { AsyncStream } from '../utils/async-stream.js';
+import type { AsyncStreamOptions } from '../utils/async-stream.js';
+import type { MarketDataConfig, PushClient } from './push-client.js';
+import type { SubscriptionHandle } from './subscription-registry.js';
+import type {
+  QuoteUpdateMessage,
+  OrderBookUpdateMessage,
+  TradeUpdateMessage,
+  OrderUpdateMessage,
+  PositionUpdateMessage,
+  AccountUpdateMessage,
+} from '../types/websocket.js';
+
+export type QuoteUpdate = QuoteUpdateMessage['data'];
+export type OrderBookUpdate = OrderBookUpdateMessage['data'];
+export type TradeUpdate = TradeUpdateMessage['data'];
+export type OrderUpdate = OrderUpdateMessage['data'];
+export type PositionUpdate = PositionUpdateMessage['data'];
+export type AccountUpdate = AccountUpdateMessage['data'];
+
+/**
+ * Options for account update streams
+ */
+export interface AccountStreamOptions<T> extends AsyncStreamOptions<T> {
+  /** Subscribe for one account and skip updates that name another */
+  accountId?: string;
+}
+
+type PushEvent = 'quote' | 'orderbook' | 'trade' | 'order' | 'position' | 'account';
+
+/**
+ * Async iterators over Push API updates
+ *
+ * Each call subscribes through the client's shared subscriptions and returns
+ * an `AsyncStream` that holds the subscription until the loop exits:
+ *
+ * ```typescript
+ * for await (const quote of client.stream.quotes(['EUR/USD'], { signal })) {
+ *   await handle(quote);
+ * }
+ * ```
+ */
+export class PushStreams {
+  private readonly open = new Set<AsyncStream<unknown>>();
+
+  constructor(private readonly push: PushClient) {}
+
+  /**
+   * Stream quotes for symbols
+   */
+  quotes(
+    symbols: string | string[],
+    options?: AsyncStreamOptions<QuoteUpdate>
+  ): AsyncStream<QuoteUpdate> {
+    return this.stream('quote', () => this.push.quotes(symbols), options);
+  }
+
+  /**
+   * Stream order book snapshots and incremental updates
+   */
+  orderBook(
+    config: MarketDataConfig,
+    options?: AsyncStreamOptions<OrderBookUpdate>
+  ): AsyncStream<OrderBookUpdate> {
+    return this.stream('orderbook', () => this.push.subscribeToOrderBook(config), options);
+  }
+
+  /**
+   * Stream trades for symbols
+   */
+  trades(
+    symbols: string | string[],
+    options?: AsyncStreamOptions<TradeUpdate>
+  ): AsyncStream<TradeUpdate> {
+    return this.stream('trade', () => this.push.trades(symbols), options);
+  }
+
+  /**
+   * Stream order updates. `conflate` keeps the latest update per order.
+   */
+  orders(options: AccountStreamOptions<OrderUpdate> = {}): AsyncStream<OrderUpdate> {
+    return this.accountStream(
+      'order',
+      accountId => this.push.subscribeToOrders(accountId),
+      order => order.id,
+      options
+    );
+  }
+
+  /**
+   * Stream position updates. `conflate` keeps the latest update per
+   * position, or per symbol and side if the server sends no position id.
+   */
+  positions(options: AccountStreamOptions<PositionUpdate> = {}): AsyncStream<PositionUpdate> {
+    return this.accountStream(
+      'position',
+      accountId => this.push.subscribeToPositions(accountId),
+      position => position.id ?? `${position.symbol}:${position.side}`,
+      options
+    );
+  }
+
+  /**
+   * Stream account balance updates. `conflate` keeps the latest update per account.
+   */
+  account(options: AccountStreamOptions<AccountUpdate> = {}): AsyncStream<AccountUpdate> {
+    return this.accountStream(
+      'account',
+      accountId => this.push.subscribeToAccount(accountId),
+      update => update.accountId ?? '',
+      options
+    );
+  }
+
+  /**
+   * End every open stream
+   */
+  close(): void {
+    this.open.forEach(stream => stream.close());
+  }
+
+  /**
+   * Stream an account event type, conflated by `conflateKey` unless the
+   * options pick another key
+   */
+  private accountStream<T extends { accountId?: string }>(
+    event: PushEvent,
+    subscribe: (accountId?: string) => SubscriptionHandle,
+    conflateKey: (item: T) => string,
+    options: AccountStreamOptions<T>
+  ): AsyncStream<T> {
+    const { accountId } = options;
+    // Updates without an account id cannot be attributed and are kept
+    const isOwn = (data: T): boolean =>
+      accountId === undefined || data.accountId === undefined || data.accountId === accountId;
+
+    return this.stream(
+      event,
+      () => subscribe(accountId),
+      { ...options, conflateKey: options.conflateKey ?? conflateKey },
+      isOwn
+    );
+  }
+
+  /**
+   * Subscribe and stream one event type, keeping only market data for the
+   * subscribed symbols and updates passing `accept`
+   */
+  private stream<T>(
+    event: PushEvent,
+    subscribe: () => SubscriptionHandle,
+    options?: AsyncStreamOptions<T>,
+    accept: (data: T) => boolean = () => true
+  ): AsyncStream<T> {
+    const stream: AsyncStream<T> = new AsyncStream<T>(sink => {
+      const handle = subscribe();
+      const symbols = ['quote', 'orderbook', 'trade'].includes(event)
+        ? new Set(handle.symbols)
+        : undefined;
+
+      const listener = (data: unknown): void => {
+        if (
+          (!symbols || symbols.has((data as { symbol: string }).symbol)) &&
+          accept(data as T)
+        ) {
+          sink.push(data as T);
+        }
+      };
+      this.push.on(event, listener);
+
+      return () => {
+        this.push.off(event, listener);
+        handle.dispose();
+        this.open.delete(stream as AsyncStream<unknown>);
+      };
+    }, options);
+
+    if (!stream.closed) {
+      this.open.add(stream as AsyncStream<unknown>);
+    }
+    return stream;
+  }
+}
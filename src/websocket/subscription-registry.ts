@@ -0,0 +1,138 @@
+/**
+ * Handle to a shared subscription; dispose it to release its symbols
+ */
+export interface SubscriptionHandle {
+  readonly channel: string;
+  readonly symbols: readonly string[];
+  readonly disposed: boolean;
+  /** Release the subscription; calling it again does nothing */
+  dispose(): void;
+}
+
+/**
+ * Reference counts for channel and symbol subscriptions shared by several consumers
+ *
+ * The registry only does the bookkeeping: `acquire()` returns the symbols
+ * that need a wire-level subscribe and `release()` those that need an
+ * unsubscribe, so the owning client decides how to send them.
+ */
+export class SubscriptionRegistry<Channel extends string = string> {
+  private readonly counts = new Map<Channel, Map<string, number>>();
+  private readonly generations = new Map<Channel, number>();
+
+  /**
+   * Add a reference to each symbol
+   *
+   * @returns Symbols that had no references before
+   */
+  acquire(channel: Channel, symbols: readonly string[]): string[] {
+    let counts = this.counts.get(channel);
+    if (!counts) {
+      counts = new Map();
+      this.counts.set(channel, counts);
+    }
+
+    const activated: string[] = [];
+    for (const symbol of new Set(symbols)) {
+      const count = counts.get(symbol) ?? 0;
+      counts.set(symbol, count + 1);
+      if (count === 0) {
+        activated.push(symbol);
+      }
+    }
+    return activated;
+  }
+
+  /**
+   * Remove a reference from each symbol; symbols without references are ignored
+   *
+   * @returns Symbols whose last reference was removed
+   */
+  release(channel: Channel, symbols: readonly string[]): string[] {
+    const counts = this.counts.get(channel);
+    if (!counts) {
+      return [];
+    }
+
+    const deactivated: string[] = [];
+    for (const symbol of new Set(symbols)) {
+      const count = counts.get(symbol);
+      if (count === undefined) {
+        continue;
+      }
+      if (count > 1) {
+        counts.set(symbol, count - 1);
+      } else {
+        counts.delete(symbol);
+        deactivated.push(symbol);
+      }
+    }
+
+    if (counts.size === 0) {
+      this.counts.delete(channel);
+    }
+    return deactivated;
+  }
+
+  /**
+   * Create a handle that calls `release` when disposed. Handles of a channel
+   * cleared since they were created do nothing.
+   */
+  createHandle(
+    channel: Channel,
+    symbols: readonly string[],
+    release: () => void
+  ): SubscriptionHandle {
+    const generation = this.generations.get(channel) ?? 0;
+    let disposed = false;
+
+    return {
+      channel,
+      symbols: [...symbols],
+      get disposed() {
+        return disposed;
+      },
+      dispose: () => {
+        if (disposed) {
+          return;
+        }
+        disposed = true;
+        if ((this.generations.get(channel) ?? 0) === generation) {
+          release();
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the symbols of a channel with at least one reference
+   */
+  getSymbols(channel: Channel): string[] {
+    return [...(this.counts.get(channel)?.keys() ?? [])];
+  }
+
+  /**
+   * Get the number of references to a symbol
+   */
+  getRefCount(channel: Channel, symbol: string): number {
+    return this.counts.get(channel)?.get(symbol) ?? 0;
+  }
+
+  /**
+   * Get the channels with at least one reference
+   */
+  getChannels(): Channel[] {
+    return [...this.counts.keys()];
+  }
+
+  /**
+   * Drop all references of a channel, or of every channel, and detach their handles
+   */
+  clear(channel?: Channel): void {
+    const channels = channel === undefined ? this.getChannels() : [channel];
+    for (const cleared of channels) {
+      this.counts.delete(cleared);
+      this.generations.set(cleared, (this.generations.get(cleared) ?? 0) + 1);
+    }
+  }
+}